@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "player_transaction" ADD COLUMN     "cashPaid" DOUBLE PRECISION,
+ADD COLUMN     "creditOffset" DOUBLE PRECISION,
+ADD COLUMN     "electronicPaid" DOUBLE PRECISION,
+ADD COLUMN     "settledByCashoutId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "player_transaction" ADD CONSTRAINT "player_transaction_settledByCashoutId_fkey" FOREIGN KEY ("settledByCashoutId") REFERENCES "player_transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill settlement fields from the legacy cashout note formats so existing till math is unchanged:
+--   cash paid:      "received $X cash" (new), "cash paid: $X)" (old) - cash cashouts only
+--   credit settled: "credit settled: $X" (old), "paid $X credit" (new)
+UPDATE "player_transaction"
+SET "creditOffset" = COALESCE(
+  CAST(substring("notes" from 'credit settled: \$(\d+(?:\.\d{2})?)') AS DOUBLE PRECISION),
+  CAST(substring("notes" from 'paid \$(\d+(?:\.\d{2})?) credit') AS DOUBLE PRECISION),
+  0
+)
+WHERE "type" = 'cashout'
+  AND "notes" IS NOT NULL
+  AND (
+    "notes" ~ 'received \$\d+(\.\d{2})? cash'
+    OR "notes" ~ 'cash paid: \$\d+(\.\d{2})?\)'
+    OR "notes" ~ 'credit settled: \$\d+(\.\d{2})?'
+    OR "notes" ~ 'paid \$\d+(\.\d{2})? credit'
+  );
+
+UPDATE "player_transaction"
+SET "cashPaid" = CASE
+    WHEN "paymentMethod" = 'cash' THEN COALESCE(
+      CAST(substring("notes" from 'received \$(\d+(?:\.\d{2})?) cash') AS DOUBLE PRECISION),
+      CAST(substring("notes" from 'cash paid: \$(\d+(?:\.\d{2})?)\)') AS DOUBLE PRECISION),
+      "amount"
+    )
+    ELSE 0
+  END,
+  "electronicPaid" = CASE
+    WHEN "paymentMethod" = 'electronic' THEN GREATEST("amount" - "creditOffset", 0)
+    ELSE 0
+  END
+WHERE "type" = 'cashout' AND "creditOffset" IS NOT NULL;
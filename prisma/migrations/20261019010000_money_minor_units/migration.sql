@@ -0,0 +1,54 @@
+-- Money columns move from floating point major units to integer minor units,
+-- scaled by the ISO 4217 exponent of each session's currency (USD = 2, JPY = 0, KWD = 3).
+-- Keep the exponent table in sync with src/lib/money.ts.
+CREATE FUNCTION pg_temp.currency_exponent(code TEXT) RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN upper(code) IN ('BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG',
+                         'RWF', 'UGX', 'UYI', 'VND', 'VUV', 'XAF', 'XOF', 'XPF') THEN 0
+    WHEN upper(code) IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 3
+    ELSE 2
+  END
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- The init migration never created the dropbox rake column (it was added with db push)
+ALTER TABLE "game_session" ADD COLUMN IF NOT EXISTS "totalrake" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Scale existing amounts (via numeric so 1.005 rounds half away from zero like the app)
+UPDATE "game_session"
+SET "totalrake" = ROUND(("totalrake" * POWER(10, pg_temp.currency_exponent("currency")))::NUMERIC);
+
+UPDATE "player_transaction" t
+SET "amount" = ROUND((t."amount" * POWER(10, pg_temp.currency_exponent(g."currency")))::NUMERIC),
+    "cashPaid" = ROUND((t."cashPaid" * POWER(10, pg_temp.currency_exponent(g."currency")))::NUMERIC),
+    "electronicPaid" = ROUND((t."electronicPaid" * POWER(10, pg_temp.currency_exponent(g."currency")))::NUMERIC),
+    "creditOffset" = ROUND((t."creditOffset" * POWER(10, pg_temp.currency_exponent(g."currency")))::NUMERIC)
+FROM "game_session" g
+WHERE g."id" = t."gameSessionId";
+
+UPDATE "dealer_down" d
+SET "tips" = ROUND((d."tips" * POWER(10, pg_temp.currency_exponent(g."currency")))::NUMERIC),
+    "rake" = ROUND((d."rake" * POWER(10, pg_temp.currency_exponent(g."currency")))::NUMERIC)
+FROM "game_session" g
+WHERE g."id" = d."gameSessionId";
+
+UPDATE "expense" e
+SET "amount" = ROUND((e."amount" * POWER(10, pg_temp.currency_exponent(g."currency")))::NUMERIC)
+FROM "game_session" g
+WHERE g."id" = e."gameSessionId";
+
+-- AlterTable
+ALTER TABLE "game_session" ALTER COLUMN "totalrake" SET DATA TYPE INTEGER USING "totalrake"::INTEGER,
+ALTER COLUMN "totalrake" SET DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "player_transaction" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING "amount"::INTEGER,
+ALTER COLUMN "cashPaid" SET DATA TYPE INTEGER USING "cashPaid"::INTEGER,
+ALTER COLUMN "electronicPaid" SET DATA TYPE INTEGER USING "electronicPaid"::INTEGER,
+ALTER COLUMN "creditOffset" SET DATA TYPE INTEGER USING "creditOffset"::INTEGER;
+
+-- AlterTable
+ALTER TABLE "dealer_down" ALTER COLUMN "tips" SET DATA TYPE INTEGER USING "tips"::INTEGER,
+ALTER COLUMN "rake" SET DATA TYPE INTEGER USING "rake"::INTEGER;
+
+-- AlterTable
+ALTER TABLE "expense" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING "amount"::INTEGER;
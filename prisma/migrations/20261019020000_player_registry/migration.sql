@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "player_transaction" ADD COLUMN     "playerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "player" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "nickname" TEXT,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "phone" TEXT,
+    "email" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "player_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "player_userId_idx" ON "player"("userId");
+
+-- AddForeignKey
+ALTER TABLE "player" ADD CONSTRAINT "player_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "player_transaction" ADD CONSTRAINT "player_transaction_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: one player per host for each distinct name (ignoring case and surrounding spaces)
+INSERT INTO "player" ("id", "name", "createdAt", "updatedAt", "userId")
+SELECT gen_random_uuid()::TEXT, MIN(trim(t."playerName")), MIN(t."timestamp"), CURRENT_TIMESTAMP, g."userId"
+FROM "player_transaction" t
+JOIN "game_session" g ON g."id" = t."gameSessionId"
+GROUP BY g."userId", lower(trim(t."playerName"));
+
+UPDATE "player_transaction" t
+SET "playerId" = p."id"
+FROM "game_session" g, "player" p
+WHERE g."id" = t."gameSessionId"
+  AND p."userId" = g."userId"
+  AND lower(p."name") = lower(trim(t."playerName"));
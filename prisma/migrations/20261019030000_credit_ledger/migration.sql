@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "credit_entry" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "method" TEXT,
+    "notes" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdByInitials" TEXT,
+    "sourceTransactionId" TEXT,
+    "userId" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "gameSessionId" TEXT,
+
+    CONSTRAINT "credit_entry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "credit_entry_userId_playerId_idx" ON "credit_entry"("userId", "playerId");
+
+-- AddForeignKey
+ALTER TABLE "credit_entry" ADD CONSTRAINT "credit_entry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_entry" ADD CONSTRAINT "credit_entry_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_entry" ADD CONSTRAINT "credit_entry_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: carry unpaid credit out of games that have already ended
+-- (per player: unpaid credit buy-ins minus credit cashouts, same as the session ledger)
+INSERT INTO "credit_entry" ("id", "type", "amount", "currency", "notes", "occurredAt", "userId", "playerId", "gameSessionId")
+SELECT gen_random_uuid()::TEXT, 'marker', owed."amount", g."currency", 'Unpaid credit from ' || g."name",
+       COALESCE(g."endedAt", g."updatedAt"), g."userId", owed."playerId", g."id"
+FROM (
+  SELECT t."gameSessionId", t."playerId",
+         SUM(CASE WHEN t."type" = 'buy-in' AND NOT t."isPaid" THEN t."amount" ELSE 0 END)
+           - SUM(CASE WHEN t."type" = 'cashout' THEN t."amount" ELSE 0 END) AS "amount"
+  FROM "player_transaction" t
+  WHERE t."paymentMethod" = 'credit' AND t."playerId" IS NOT NULL
+  GROUP BY t."gameSessionId", t."playerId"
+) owed
+JOIN "game_session" g ON g."id" = owed."gameSessionId"
+WHERE g."isActive" = false AND owed."amount" > 0;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "credit_repayment" (
+    "id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "method" TEXT NOT NULL,
+    "notes" TEXT,
+    "paidAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdByInitials" TEXT,
+    "transactionId" TEXT NOT NULL,
+
+    CONSTRAINT "credit_repayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_installment" (
+    "id" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "transactionId" TEXT NOT NULL,
+
+    CONSTRAINT "credit_installment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "credit_repayment_transactionId_idx" ON "credit_repayment"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "credit_installment_transactionId_idx" ON "credit_installment"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "credit_repayment" ADD CONSTRAINT "credit_repayment_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "player_transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_installment" ADD CONSTRAINT "credit_installment_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "player_transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "credit_entry" ADD COLUMN "sourceRepaymentId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "credit_entry" ADD CONSTRAINT "credit_entry_sourceRepaymentId_fkey" FOREIGN KEY ("sourceRepaymentId") REFERENCES "credit_repayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: buy-ins marked paid after their game ended become a full cash repayment,
+-- and the mirrored credit entry points at that repayment instead of the buy-in
+INSERT INTO "credit_repayment" ("id", "amount", "method", "notes", "paidAt", "createdById", "transactionId")
+SELECT e."id", e."amount", 'cash', e."notes", e."occurredAt", e."createdById", e."sourceTransactionId"
+FROM "credit_entry" e
+JOIN "player_transaction" t ON t."id" = e."sourceTransactionId";
+
+UPDATE "credit_entry"
+SET "sourceRepaymentId" = "id"
+WHERE "id" IN (SELECT "id" FROM "credit_repayment");
+
+-- AlterTable
+ALTER TABLE "credit_entry" DROP COLUMN "sourceTransactionId";
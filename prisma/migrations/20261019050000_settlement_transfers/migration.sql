@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "settlement_transfer" (
+    "id" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "fromPlayerId" TEXT,
+    "fromName" TEXT NOT NULL,
+    "toPlayerId" TEXT,
+    "toName" TEXT NOT NULL,
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "settlement_transfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "settlement_transfer_gameSessionId_idx" ON "settlement_transfer"("gameSessionId");
+
+-- AddForeignKey
+ALTER TABLE "settlement_transfer" ADD CONSTRAINT "settlement_transfer_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
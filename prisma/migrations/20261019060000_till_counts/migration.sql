@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "till_count" (
+    "id" TEXT NOT NULL,
+    "total" INTEGER NOT NULL,
+    "expected" INTEGER NOT NULL,
+    "variance" INTEGER NOT NULL,
+    "isClosing" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "countedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdByInitials" TEXT,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "till_count_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "till_count_item" (
+    "id" TEXT NOT NULL,
+    "value" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "tillCountId" TEXT NOT NULL,
+
+    CONSTRAINT "till_count_item_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "till_count_gameSessionId_idx" ON "till_count"("gameSessionId");
+
+-- AddForeignKey
+ALTER TABLE "till_count" ADD CONSTRAINT "till_count_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "till_count_item" ADD CONSTRAINT "till_count_item_tillCountId_fkey" FOREIGN KEY ("tillCountId") REFERENCES "till_count"("id") ON DELETE CASCADE ON UPDATE CASCADE;
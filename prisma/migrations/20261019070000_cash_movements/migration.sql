@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "cash_movement" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "notes" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdByInitials" TEXT,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "cash_movement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cash_movement_gameSessionId_idx" ON "cash_movement"("gameSessionId");
+
+-- AddForeignKey
+ALTER TABLE "cash_movement" ADD CONSTRAINT "cash_movement_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "chip_bank_item" (
+    "id" TEXT NOT NULL,
+    "value" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "color" TEXT,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "chip_bank_item_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chip_bank_item_gameSessionId_value_key" ON "chip_bank_item"("gameSessionId", "value");
+
+-- AddForeignKey
+ALTER TABLE "chip_bank_item" ADD CONSTRAINT "chip_bank_item_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
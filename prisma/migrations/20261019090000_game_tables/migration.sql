@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "game_table" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "stakes" TEXT,
+    "gameType" TEXT NOT NULL DEFAULT 'NLH',
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "game_table_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "table_move" (
+    "id" TEXT NOT NULL,
+    "playerName" TEXT NOT NULL,
+    "playerId" TEXT,
+    "movedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdByInitials" TEXT,
+    "fromTableId" TEXT,
+    "toTableId" TEXT NOT NULL,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "table_move_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "dealer_down" ADD COLUMN "tableId" TEXT;
+
+-- AlterTable
+ALTER TABLE "player_transaction" ADD COLUMN "tableId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "game_table_gameSessionId_idx" ON "game_table"("gameSessionId");
+
+-- CreateIndex
+CREATE INDEX "table_move_gameSessionId_idx" ON "table_move"("gameSessionId");
+
+-- AddForeignKey
+ALTER TABLE "game_table" ADD CONSTRAINT "game_table_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "table_move" ADD CONSTRAINT "table_move_fromTableId_fkey" FOREIGN KEY ("fromTableId") REFERENCES "game_table"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "table_move" ADD CONSTRAINT "table_move_toTableId_fkey" FOREIGN KEY ("toTableId") REFERENCES "game_table"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "table_move" ADD CONSTRAINT "table_move_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dealer_down" ADD CONSTRAINT "dealer_down_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "game_table"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "player_transaction" ADD CONSTRAINT "player_transaction_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "game_table"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: every existing game ran a single table named after GameSession.tableName
+INSERT INTO "game_table" ("id", "name", "openedAt", "closedAt", "gameSessionId")
+SELECT gen_random_uuid()::TEXT, g."tableName", g."startedAt", g."endedAt", g."id"
+FROM "game_session" g;
+
+UPDATE "player_transaction" t
+SET "tableId" = gt."id"
+FROM "game_table" gt
+WHERE gt."gameSessionId" = t."gameSessionId";
+
+UPDATE "dealer_down" d
+SET "tableId" = gt."id"
+FROM "game_table" gt
+WHERE gt."gameSessionId" = d."gameSessionId";
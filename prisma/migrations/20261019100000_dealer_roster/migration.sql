@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "dealer_down" ADD COLUMN     "dealerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "dealer" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "nickname" TEXT,
+    "phone" TEXT,
+    "email" TEXT,
+    "notes" TEXT,
+    "payModel" TEXT NOT NULL DEFAULT 'tips-only',
+    "payRate" INTEGER NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "dealer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "dealer_userId_idx" ON "dealer"("userId");
+
+-- AddForeignKey
+ALTER TABLE "dealer" ADD CONSTRAINT "dealer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dealer_down" ADD CONSTRAINT "dealer_down_dealerId_fkey" FOREIGN KEY ("dealerId") REFERENCES "dealer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: one tips-only dealer per host for each distinct name (ignoring case and surrounding spaces)
+INSERT INTO "dealer" ("id", "name", "createdAt", "updatedAt", "userId")
+SELECT gen_random_uuid()::TEXT, MIN(trim(d."dealerName")), MIN(d."timestamp"), CURRENT_TIMESTAMP, g."userId"
+FROM "dealer_down" d
+JOIN "game_session" g ON g."id" = d."gameSessionId"
+GROUP BY g."userId", lower(trim(d."dealerName"));
+
+UPDATE "dealer_down" d
+SET "dealerId" = r."id"
+FROM "game_session" g, "dealer" r
+WHERE g."id" = d."gameSessionId"
+  AND r."userId" = g."userId"
+  AND lower(r."name") = lower(trim(d."dealerName"));
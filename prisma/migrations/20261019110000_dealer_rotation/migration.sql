@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "dealer_down" ADD COLUMN     "endedAt" TIMESTAMP(3),
+ADD COLUMN     "startedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "dealer_rotation" (
+    "id" TEXT NOT NULL,
+    "downMinutes" INTEGER NOT NULL DEFAULT 20,
+    "lineup" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "nextIndex" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "dealer_rotation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "dealer_box" (
+    "id" TEXT NOT NULL,
+    "dealerName" TEXT NOT NULL,
+    "dealerId" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tableId" TEXT NOT NULL,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "dealer_box_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dealer_rotation_gameSessionId_key" ON "dealer_rotation"("gameSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dealer_box_tableId_key" ON "dealer_box"("tableId");
+
+-- CreateIndex
+CREATE INDEX "dealer_box_gameSessionId_idx" ON "dealer_box"("gameSessionId");
+
+-- AddForeignKey
+ALTER TABLE "dealer_rotation" ADD CONSTRAINT "dealer_rotation_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dealer_box" ADD CONSTRAINT "dealer_box_dealerId_fkey" FOREIGN KEY ("dealerId") REFERENCES "dealer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dealer_box" ADD CONSTRAINT "dealer_box_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "game_table"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dealer_box" ADD CONSTRAINT "dealer_box_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
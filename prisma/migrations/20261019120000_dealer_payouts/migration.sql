@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "dealer_down" ADD COLUMN     "payoutId" TEXT;
+
+-- CreateTable
+CREATE TABLE "tip_policy" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "housePercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tokeFee" INTEGER NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "poolSplit" TEXT NOT NULL DEFAULT 'downs',
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "tip_policy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "dealer_payout" (
+    "id" TEXT NOT NULL,
+    "dealerName" TEXT NOT NULL,
+    "dealerId" TEXT,
+    "grossTips" INTEGER NOT NULL,
+    "houseCut" INTEGER NOT NULL,
+    "netPaid" INTEGER NOT NULL,
+    "method" TEXT NOT NULL DEFAULT 'cash',
+    "policyName" TEXT NOT NULL,
+    "policyId" TEXT,
+    "paidAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdByInitials" TEXT,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "dealer_payout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tip_policy_userId_idx" ON "tip_policy"("userId");
+
+-- CreateIndex
+CREATE INDEX "dealer_payout_gameSessionId_idx" ON "dealer_payout"("gameSessionId");
+
+-- AddForeignKey
+ALTER TABLE "dealer_down" ADD CONSTRAINT "dealer_down_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "dealer_payout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tip_policy" ADD CONSTRAINT "tip_policy_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dealer_payout" ADD CONSTRAINT "dealer_payout_dealerId_fkey" FOREIGN KEY ("dealerId") REFERENCES "dealer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dealer_payout" ADD CONSTRAINT "dealer_payout_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "tip_policy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dealer_payout" ADD CONSTRAINT "dealer_payout_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
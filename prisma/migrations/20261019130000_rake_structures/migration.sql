@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "rake_structure" (
+    "id" TEXT NOT NULL,
+    "percentage" DOUBLE PRECISION NOT NULL,
+    "cap" INTEGER NOT NULL DEFAULT 0,
+    "noFlopNoDrop" BOOLEAN NOT NULL DEFAULT true,
+    "promoDrop" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "gameSessionId" TEXT NOT NULL,
+    "tableId" TEXT,
+
+    CONSTRAINT "rake_structure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rake_pot" (
+    "id" TEXT NOT NULL,
+    "potSize" INTEGER NOT NULL,
+    "sawFlop" BOOLEAN NOT NULL DEFAULT true,
+    "rake" INTEGER NOT NULL,
+    "promoDrop" INTEGER NOT NULL DEFAULT 0,
+    "dealerName" TEXT,
+    "dealerId" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdByInitials" TEXT,
+    "tableId" TEXT,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "rake_pot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rake_structure_tableId_key" ON "rake_structure"("tableId");
+
+-- CreateIndex
+CREATE INDEX "rake_structure_gameSessionId_idx" ON "rake_structure"("gameSessionId");
+
+-- CreateIndex
+CREATE INDEX "rake_pot_gameSessionId_idx" ON "rake_pot"("gameSessionId");
+
+-- AddForeignKey
+ALTER TABLE "rake_structure" ADD CONSTRAINT "rake_structure_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rake_structure" ADD CONSTRAINT "rake_structure_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "game_table"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rake_pot" ADD CONSTRAINT "rake_pot_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "game_table"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rake_pot" ADD CONSTRAINT "rake_pot_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "game_session" ADD COLUMN     "revenueMode" TEXT NOT NULL DEFAULT 'rake',
+ADD COLUMN     "timeFee" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "timeFeeMinutes" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateTable
+CREATE TABLE "player_seat" (
+    "id" TEXT NOT NULL,
+    "playerName" TEXT NOT NULL,
+    "playerId" TEXT,
+    "seatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leftAt" TIMESTAMP(3),
+    "tableId" TEXT,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "player_seat_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "time_collection" (
+    "id" TEXT NOT NULL,
+    "playerName" TEXT NOT NULL,
+    "playerId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "method" TEXT NOT NULL DEFAULT 'cash',
+    "collectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdByInitials" TEXT,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "time_collection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "player_seat_gameSessionId_idx" ON "player_seat"("gameSessionId");
+
+-- CreateIndex
+CREATE INDEX "time_collection_gameSessionId_idx" ON "time_collection"("gameSessionId");
+
+-- AddForeignKey
+ALTER TABLE "player_seat" ADD CONSTRAINT "player_seat_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "player_seat" ADD CONSTRAINT "player_seat_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "game_table"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "player_seat" ADD CONSTRAINT "player_seat_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_collection" ADD CONSTRAINT "time_collection_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_collection" ADD CONSTRAINT "time_collection_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "game_session" ADD COLUMN     "sessionType" TEXT NOT NULL DEFAULT 'cash';
+
+-- CreateTable
+CREATE TABLE "tournament" (
+    "id" TEXT NOT NULL,
+    "entryFee" INTEGER NOT NULL,
+    "houseFee" INTEGER NOT NULL DEFAULT 0,
+    "rebuyFee" INTEGER NOT NULL DEFAULT 0,
+    "rebuyHouseFee" INTEGER NOT NULL DEFAULT 0,
+    "maxRebuys" INTEGER NOT NULL DEFAULT 0,
+    "rebuysUntil" TIMESTAMP(3),
+    "addOnFee" INTEGER NOT NULL DEFAULT 0,
+    "addOnHouseFee" INTEGER NOT NULL DEFAULT 0,
+    "addOnsFrom" TIMESTAMP(3),
+    "addOnsUntil" TIMESTAMP(3),
+    "payoutPercentages" DOUBLE PRECISION[] DEFAULT ARRAY[]::DOUBLE PRECISION[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "tournament_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tournament_entry" (
+    "id" TEXT NOT NULL,
+    "playerName" TEXT NOT NULL,
+    "playerId" TEXT,
+    "rebuys" INTEGER NOT NULL DEFAULT 0,
+    "addOns" INTEGER NOT NULL DEFAULT 0,
+    "prizeContributed" INTEGER NOT NULL DEFAULT 0,
+    "houseFeesPaid" INTEGER NOT NULL DEFAULT 0,
+    "registeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bustedAt" TIMESTAMP(3),
+    "payoutTransactionId" TEXT,
+    "tournamentId" TEXT NOT NULL,
+
+    CONSTRAINT "tournament_entry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_gameSessionId_key" ON "tournament"("gameSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_entry_payoutTransactionId_key" ON "tournament_entry"("payoutTransactionId");
+
+-- CreateIndex
+CREATE INDEX "tournament_entry_tournamentId_idx" ON "tournament_entry"("tournamentId");
+
+-- AddForeignKey
+ALTER TABLE "tournament" ADD CONSTRAINT "tournament_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_entry" ADD CONSTRAINT "tournament_entry_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_entry" ADD CONSTRAINT "tournament_entry_payoutTransactionId_fkey" FOREIGN KEY ("payoutTransactionId") REFERENCES "player_transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_entry" ADD CONSTRAINT "tournament_entry_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "blind_clock" (
+    "id" TEXT NOT NULL,
+    "currentLevel" INTEGER NOT NULL DEFAULT 0,
+    "elapsedMs" INTEGER NOT NULL DEFAULT 0,
+    "runningSince" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "blind_clock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "blind_level" (
+    "id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "smallBlind" INTEGER NOT NULL DEFAULT 0,
+    "bigBlind" INTEGER NOT NULL DEFAULT 0,
+    "ante" INTEGER NOT NULL DEFAULT 0,
+    "minutes" INTEGER NOT NULL,
+    "isBreak" BOOLEAN NOT NULL DEFAULT false,
+    "clockId" TEXT NOT NULL,
+
+    CONSTRAINT "blind_level_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "blind_clock_gameSessionId_key" ON "blind_clock"("gameSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "blind_level_clockId_position_key" ON "blind_level"("clockId", "position");
+
+-- AddForeignKey
+ALTER TABLE "blind_clock" ADD CONSTRAINT "blind_clock_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "blind_level" ADD CONSTRAINT "blind_level_clockId_fkey" FOREIGN KEY ("clockId") REFERENCES "blind_clock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "jackpot_fund" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "startingBalance" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "jackpot_fund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "jackpot_entry" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "dealerDownId" TEXT,
+    "playerName" TEXT,
+    "playerId" TEXT,
+    "hand" TEXT,
+    "method" TEXT,
+    "notes" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdByInitials" TEXT,
+    "fundId" TEXT NOT NULL,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "jackpot_entry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "jackpot_fund_userId_idx" ON "jackpot_fund"("userId");
+
+-- CreateIndex
+CREATE INDEX "jackpot_entry_fundId_idx" ON "jackpot_entry"("fundId");
+
+-- CreateIndex
+CREATE INDEX "jackpot_entry_gameSessionId_idx" ON "jackpot_entry"("gameSessionId");
+
+-- AddForeignKey
+ALTER TABLE "jackpot_fund" ADD CONSTRAINT "jackpot_fund_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "jackpot_entry" ADD CONSTRAINT "jackpot_entry_dealerDownId_fkey" FOREIGN KEY ("dealerDownId") REFERENCES "dealer_down"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "jackpot_entry" ADD CONSTRAINT "jackpot_entry_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "jackpot_entry" ADD CONSTRAINT "jackpot_entry_fundId_fkey" FOREIGN KEY ("fundId") REFERENCES "jackpot_fund"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "jackpot_entry" ADD CONSTRAINT "jackpot_entry_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
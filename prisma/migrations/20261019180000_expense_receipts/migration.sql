@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "expense" ADD COLUMN     "receiptContentType" TEXT,
+ADD COLUMN     "receiptFile" TEXT,
+ADD COLUMN     "receiptSize" INTEGER,
+ADD COLUMN     "receiptThumbnail" TEXT,
+ADD COLUMN     "receiptUploadedAt" TIMESTAMP(3);
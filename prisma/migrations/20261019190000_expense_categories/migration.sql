@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "expense_category" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "icon" TEXT,
+    "color" TEXT,
+    "monthlyBudget" INTEGER,
+    "budgetCurrency" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "expense_category_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expense_category_userId_idx" ON "expense_category"("userId");
+
+-- AddForeignKey
+ALTER TABLE "expense_category" ADD CONSTRAINT "expense_category_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every user gets the three categories that used to be fixed
+INSERT INTO "expense_category" ("id", "name", "icon", "color", "updatedAt", "userId")
+SELECT gen_random_uuid()::TEXT, d."name", d."icon", d."color", CURRENT_TIMESTAMP, u."id"
+FROM "user" u
+CROSS JOIN (VALUES
+  ('Food', 'utensils', '#f97316'),
+  ('Drinks', 'cup-soda', '#3b82f6'),
+  ('Other', 'receipt', '#6b7280')
+) AS d("name", "icon", "color");
+
+-- AlterTable
+ALTER TABLE "expense" ADD COLUMN     "categoryId" TEXT;
+
+UPDATE "expense" e
+SET "categoryId" = c."id"
+FROM "game_session" g, "expense_category" c
+WHERE g."id" = e."gameSessionId"
+  AND c."userId" = g."userId"
+  AND lower(c."name") = CASE WHEN e."category" IN ('food', 'drinks') THEN e."category" ELSE 'other' END;
+
+-- AlterTable
+ALTER TABLE "expense" DROP COLUMN "category",
+ALTER COLUMN "categoryId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "expense_categoryId_idx" ON "expense"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "expense" ADD CONSTRAINT "expense_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "expense_category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
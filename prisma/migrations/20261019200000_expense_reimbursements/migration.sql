@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "expense" ADD COLUMN     "paidBy" TEXT NOT NULL DEFAULT 'house',
+ADD COLUMN     "paidByName" TEXT,
+ADD COLUMN     "paidByUserId" TEXT,
+ADD COLUMN     "paidOutAt" TIMESTAMP(3),
+ADD COLUMN     "paidOutById" TEXT,
+ADD COLUMN     "paidOutByInitials" TEXT,
+ADD COLUMN     "paidOutMethod" TEXT;
+
+-- Backfill: every existing expense was paid by the house when it was recorded
+UPDATE "expense"
+SET "paidOut" = true,
+    "paidOutAt" = "timestamp",
+    "paidOutMethod" = "paymentMethod",
+    "paidOutById" = "createdById",
+    "paidOutByInitials" = "createdByInitials";
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "venue_cost" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "frequency" TEXT NOT NULL,
+    "allocation" TEXT NOT NULL DEFAULT 'even',
+    "startMonth" TEXT NOT NULL,
+    "endMonth" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "venue_cost_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "venue_cost_userId_idx" ON "venue_cost"("userId");
+
+-- AddForeignKey
+ALTER TABLE "venue_cost" ADD CONSTRAINT "venue_cost_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,64 @@
+-- AlterTable
+ALTER TABLE "player_transaction" ADD COLUMN     "tabOffset" INTEGER;
+
+-- CreateTable
+CREATE TABLE "concession_item" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "cost" INTEGER NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "concession_item_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "concession_sale" (
+    "id" TEXT NOT NULL,
+    "itemName" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" INTEGER NOT NULL,
+    "unitCost" INTEGER NOT NULL,
+    "method" TEXT NOT NULL,
+    "settledAt" TIMESTAMP(3),
+    "settledMethod" TEXT,
+    "notes" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdByInitials" TEXT,
+    "itemId" TEXT,
+    "playerName" TEXT,
+    "playerId" TEXT,
+    "settledByCashoutId" TEXT,
+    "gameSessionId" TEXT NOT NULL,
+
+    CONSTRAINT "concession_sale_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "concession_item_userId_idx" ON "concession_item"("userId");
+
+-- CreateIndex
+CREATE INDEX "concession_sale_gameSessionId_idx" ON "concession_sale"("gameSessionId");
+
+-- CreateIndex
+CREATE INDEX "concession_sale_playerId_idx" ON "concession_sale"("playerId");
+
+-- AddForeignKey
+ALTER TABLE "concession_item" ADD CONSTRAINT "concession_item_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "concession_sale" ADD CONSTRAINT "concession_sale_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "concession_item"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "concession_sale" ADD CONSTRAINT "concession_sale_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "concession_sale" ADD CONSTRAINT "concession_sale_settledByCashoutId_fkey" FOREIGN KEY ("settledByCashoutId") REFERENCES "player_transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "concession_sale" ADD CONSTRAINT "concession_sale_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
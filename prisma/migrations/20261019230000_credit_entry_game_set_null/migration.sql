@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "credit_entry" DROP CONSTRAINT "credit_entry_gameSessionId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "credit_entry" ADD CONSTRAINT "credit_entry_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "jackpot_entry" DROP CONSTRAINT "jackpot_entry_gameSessionId_fkey";
+
+-- AlterTable
+ALTER TABLE "jackpot_entry" ALTER COLUMN "gameSessionId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "jackpot_entry" ADD CONSTRAINT "jackpot_entry_gameSessionId_fkey" FOREIGN KEY ("gameSessionId") REFERENCES "game_session"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "expense" DROP CONSTRAINT "expense_categoryId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "expense" ADD CONSTRAINT "expense_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "expense_category"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
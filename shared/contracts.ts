@@ -5,10 +5,35 @@
 
 import { z } from "zod";
 
+// ============================================
+// MONEY
+// ============================================
+// Amounts are stored server-side as integer minor units of the session currency.
+// Requests accept either a number or an exact decimal string ("12.50"); the server
+// rounds to the currency's precision (half away from zero).
+// Responses return major-unit numbers that convert to minor units without loss:
+//   minor = Math.round(amount * 10 ** session.currencyExponent)
+const decimalStringSchema = z.string().regex(/^\d+(\.\d+)?$/, "Must be a decimal string like \"12.50\"");
+
+export const moneyAmountSchema = z.union([z.number().min(0), decimalStringSchema]);
+export type MoneyAmount = z.infer<typeof moneyAmountSchema>;
+
+export const positiveMoneyAmountSchema = z.union([
+  z.number().positive(),
+  decimalStringSchema.refine((value) => /[1-9]/.test(value), "Must be greater than 0"),
+]);
+
 // ============================================
 // POKER GAME CONTRACTS
 // ============================================
 
+// How the house earns: raking pots, or charging players for seat time
+export const revenueModeSchema = z.enum(["rake", "time"]);
+export type RevenueMode = z.infer<typeof revenueModeSchema>;
+
+export const sessionTypeSchema = z.enum(["cash", "tournament"]);
+export type SessionType = z.infer<typeof sessionTypeSchema>;
+
 // Game Session
 export const gameSessionSchema = z.object({
   id: z.string(),
@@ -20,15 +45,42 @@ export const gameSessionSchema = z.object({
   createdAt: z.string(),
   updatedAt: z.string(),
   currency: z.string().default("USD"),
+  currencyExponent: z.number().default(2), // Decimal places of the currency's minor unit (JPY = 0)
   language: z.string().default("en"),
   totalRake: z.number().default(0),
+  revenueMode: revenueModeSchema.default("rake"),
+  timeFee: z.number().default(0), // Charged per player for each interval seated (time mode)
+  timeFeeMinutes: z.number().default(30),
+  sessionType: sessionTypeSchema.default("cash"),
 });
 export type GameSession = z.infer<typeof gameSessionSchema>;
 
+// Cashout Settlement - how a cashout was actually paid out
+export const cashoutSettlementSchema = z.object({
+  cashPaid: z.number().min(0), // Cash handed to the player from the till
+  electronicPaid: z.number().min(0), // Amount sent electronically
+  creditOffset: z.number().min(0), // Chips applied against the player's outstanding credit
+  tabOffset: z.number().min(0), // Chips applied against the player's concession tab
+  settledBuyInIds: z.array(z.string()).default([]), // Credit buy-ins this cashout settled
+  settledTabSaleIds: z.array(z.string()).default([]), // Tab sales this cashout settled
+});
+export type CashoutSettlement = z.infer<typeof cashoutSettlementSchema>;
+
+export const cashoutSettlementInputSchema = z.object({
+  cashPaid: moneyAmountSchema,
+  electronicPaid: moneyAmountSchema,
+  creditOffset: moneyAmountSchema, // Must equal what's left on the settled buy-ins
+  tabOffset: moneyAmountSchema.optional().default(0), // Must equal the settled tab sales
+  settledBuyInIds: z.array(z.string()).default([]),
+  settledTabSaleIds: z.array(z.string()).default([]),
+});
+export type CashoutSettlementInput = z.infer<typeof cashoutSettlementInputSchema>;
+
 // Player Transaction
 export const playerTransactionSchema = z.object({
   id: z.string(),
   playerName: z.string(),
+  playerId: z.string().nullable().optional(), // Registry player this transaction belongs to
   type: z.enum(["buy-in", "cashout"]),
   amount: z.number(),
   paymentMethod: z.enum(["cash", "electronic", "credit"]),
@@ -37,6 +89,10 @@ export const playerTransactionSchema = z.object({
   timestamp: z.string(),
   gameSessionId: z.string(),
   createdByInitials: z.string().nullable().optional(),
+  settlement: cashoutSettlementSchema.nullable().optional(), // Cashouts only, null = paid in full via paymentMethod
+  settledByCashoutId: z.string().nullable().optional(), // Credit buy-ins only
+  remainingBalance: z.number().nullable().optional(), // Credit buy-ins only - what is still owed after repayments
+  tableId: z.string().nullable().optional(),
 });
 export type PlayerTransaction = z.infer<typeof playerTransactionSchema>;
 
@@ -51,24 +107,96 @@ export const dealerDownSchema = z.object({
   timestamp: z.string(),
   gameSessionId: z.string(),
   createdByInitials: z.string().nullable().optional(),
+  tableId: z.string().nullable().optional(),
+  dealerId: z.string().nullable().optional(), // Roster dealer
+  startedAt: z.string().nullable().optional(), // Timed downs (from the rotation) only
+  endedAt: z.string().nullable().optional(),
+  payoutId: z.string().nullable().optional(), // Payout that covered the tips
 });
 export type DealerDown = z.infer<typeof dealerDownSchema>;
 
+// Dealer Payout - tips paid out to a dealer, with the house's cut
+export const dealerPayoutSchema = z.object({
+  id: z.string(),
+  dealerName: z.string(),
+  dealerId: z.string().nullable(),
+  downIds: z.array(z.string()), // Downs whose tips this payout covered
+  grossTips: z.number(),
+  houseCut: z.number(),
+  netPaid: z.number(),
+  method: z.enum(["cash", "electronic"]),
+  policyName: z.string(),
+  policyId: z.string().nullable(),
+  paidAt: z.string(),
+  currency: z.string(), // Currency of the game it was paid in
+  gameSessionId: z.string(),
+  createdByInitials: z.string().nullable(),
+});
+export type DealerPayout = z.infer<typeof dealerPayoutSchema>;
+
+// Game Table - one of the tables running under a game's till
+export const gameTableSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  stakes: z.string().nullable(),
+  gameType: z.string(),
+  openedAt: z.string(),
+  closedAt: z.string().nullable(),
+  isOpen: z.boolean(),
+  gameSessionId: z.string(),
+});
+export type GameTable = z.infer<typeof gameTableSchema>;
+
+// Expense receipt - the urls need the same auth as the rest of the API
+export const expenseReceiptSchema = z.object({
+  contentType: z.string(),
+  size: z.number(), // Bytes
+  uploadedAt: z.string(),
+  url: z.string(),
+  thumbnailUrl: z.string(),
+});
+export type ExpenseReceipt = z.infer<typeof expenseReceiptSchema>;
+
+// Who fronted the money for an expense: the house (till or house account), a member of the game,
+// or someone outside it. Expenses fronted by anyone but the house are owed back until reimbursed
+export const expensePayerSchema = z.enum(["house", "member", "outside"]);
+export type ExpensePayer = z.infer<typeof expensePayerSchema>;
+
 // Expense
 export const expenseSchema = z.object({
   id: z.string(),
   description: z.string(),
   amount: z.number(),
-  category: z.enum(["food", "drinks", "other"]),
+  categoryId: z.string(),
+  categoryName: z.string(),
   paymentMethod: z.enum(["cash", "electronic"]),
-  paidOut: z.boolean(),
+  paidBy: expensePayerSchema,
+  paidByUserId: z.string().nullable(), // The member who fronted the money
+  paidByName: z.string().nullable(),
+  paidOut: z.boolean(), // Money has left the house: at once when the house paid, else once reimbursed
+  paidOutAt: z.string().nullable(),
+  paidOutMethod: z.enum(["cash", "electronic"]).nullable(), // Only cash comes out of the till
+  paidOutByInitials: z.string().nullable(),
   notes: z.string().nullable(),
   timestamp: z.string(),
   gameSessionId: z.string(),
   createdByInitials: z.string().nullable().optional(),
+  receipt: expenseReceiptSchema.nullable(),
 });
 export type Expense = z.infer<typeof expenseSchema>;
 
+// Cash Movement - cash put into or taken out of the till outside player, dealer and expense transactions
+export const cashMovementSchema = z.object({
+  id: z.string(),
+  type: z.enum(["float", "drop", "add"]), // Opening float, drop to the safe, cash added
+  amount: z.number(),
+  notes: z.string().nullable(),
+  timestamp: z.string(),
+  gameSessionId: z.string(),
+  createdByInitials: z.string().nullable().optional(),
+});
+export type CashMovement = z.infer<typeof cashMovementSchema>;
+
 // GET /api/game/active - Get or create active game session
 export const getActiveGameResponseSchema = z.object({
   session: gameSessionSchema,
@@ -97,6 +225,10 @@ export type DeleteGameResponse = z.infer<typeof deleteGameResponseSchema>;
 export const startNewGameRequestSchema = z.object({
   currency: z.string().optional().default("USD"),
   language: z.string().optional().default("en"),
+  revenueMode: revenueModeSchema.optional().default("rake"),
+  timeFee: moneyAmountSchema.optional().default(0),
+  timeFeeMinutes: z.number().int().positive().optional().default(30),
+  sessionType: sessionTypeSchema.optional().default("cash"), // Tournaments are set up with PUT /api/tournaments/:sessionId
 });
 export type StartNewGameRequest = z.infer<typeof startNewGameRequestSchema>;
 
@@ -105,11 +237,94 @@ export const startNewGameResponseSchema = z.object({
 });
 export type StartNewGameResponse = z.infer<typeof startNewGameResponseSchema>;
 
+// Ledger - every derived figure for a session, calculated in one place on the server
+export const ledgerLineSchema = z.object({
+  label: z.string(),
+  amount: z.number(), // Signed contribution to the figure (negative = money out)
+});
+export type LedgerLine = z.infer<typeof ledgerLineSchema>;
+
+export const ledgerTotalsSchema = z.object({
+  totalBuyIns: z.number(),
+  totalCashouts: z.number(),
+  totalTips: z.number(),
+  totalRake: z.number(),
+  totalTimeCollected: z.number(), // Seat fees collected (time mode)
+  totalTournamentFees: z.number(), // House part of tournament entries, rebuys and add-ons
+  totalJackpotDrops: z.number(), // Held for the players - not in netProfit
+  totalJackpotPayouts: z.number(),
+  totalExpenses: z.number(),
+  totalExpensesOwed: z.number(), // Fronted by members or outsiders and not yet reimbursed
+  totalConcessionSales: z.number(), // Food and drink sold, tabs included
+  totalConcessionCost: z.number(), // Cost of goods of what was sold
+  concessionTabsOpen: z.number(), // Still owed on players' tabs
+  netProfit: z.number(),
+  tillBalance: z.number(),
+  playerCount: z.number(),
+  creditBalance: z.number(), // Total credit owed by all players
+});
+export type LedgerTotals = z.infer<typeof ledgerTotalsSchema>;
+
+export const playerLedgerEntrySchema = z.object({
+  playerId: z.string().nullable(), // Null for names not linked to the registry
+  playerName: z.string(),
+  buyIns: z.number(),
+  cashouts: z.number(),
+  net: z.number(), // Player's result: cashouts - buy-ins
+  creditOwed: z.number(),
+});
+export type PlayerLedgerEntry = z.infer<typeof playerLedgerEntrySchema>;
+
+export const dealerLedgerEntrySchema = z.object({
+  dealerName: z.string(),
+  downs: z.number(),
+  tips: z.number(),
+  tipsPaid: z.number(),
+  tipsUnpaid: z.number(),
+  rake: z.number(),
+  rakeClaimed: z.number(),
+});
+export type DealerLedgerEntry = z.infer<typeof dealerLedgerEntrySchema>;
+
+// Per-table figures - all tables share one till
+export const tableLedgerEntrySchema = z.object({
+  tableId: z.string().nullable(), // null = entries not tagged to a table
+  tableName: z.string(),
+  stakes: z.string().nullable(),
+  gameType: z.string().nullable(),
+  totalBuyIns: z.number(),
+  totalCashouts: z.number(),
+  totalTips: z.number(),
+  totalRake: z.number(), // Dealer-reported rake at this table
+  downs: z.number(),
+  playerCount: z.number(),
+});
+export type TableLedgerEntry = z.infer<typeof tableLedgerEntrySchema>;
+
+// How each headline figure was reached - the lines of each list sum to the figure
+export const ledgerBreakdownSchema = z.object({
+  tillBalance: z.array(ledgerLineSchema),
+  netProfit: z.array(ledgerLineSchema),
+  creditBalance: z.array(ledgerLineSchema),
+  totalRake: z.array(ledgerLineSchema),
+});
+export type LedgerBreakdown = z.infer<typeof ledgerBreakdownSchema>;
+
+export const sessionLedgerSchema = ledgerTotalsSchema.extend({
+  players: z.array(playerLedgerEntrySchema),
+  dealers: z.array(dealerLedgerEntrySchema),
+  tables: z.array(tableLedgerEntrySchema),
+  breakdown: ledgerBreakdownSchema,
+});
+export type SessionLedger = z.infer<typeof sessionLedgerSchema>;
+
 // GET /api/game/history - Get all inactive game sessions
 export const gameSessionWithDataSchema = gameSessionSchema.extend({
   playerTransactions: z.array(playerTransactionSchema),
   dealerDowns: z.array(dealerDownSchema),
   expenses: z.array(expenseSchema),
+  cashMovements: z.array(cashMovementSchema),
+  totals: ledgerTotalsSchema,
 });
 export type GameSessionWithData = z.infer<typeof gameSessionWithDataSchema>;
 
@@ -119,40 +334,45 @@ export const getGameHistoryResponseSchema = z.object({
 export type GetGameHistoryResponse = z.infer<typeof getGameHistoryResponseSchema>;
 
 // GET /api/game/:sessionId/summary - Get game session summary
-export const gameSummarySchema = z.object({
+export const gameSummarySchema = sessionLedgerSchema.extend({
   session: gameSessionSchema,
-  totalBuyIns: z.number(),
-  totalCashouts: z.number(),
-  totalTips: z.number(),
-  totalRake: z.number(),
-  totalExpenses: z.number(),
-  netProfit: z.number(),
-  tillBalance: z.number(),
-  playerCount: z.number(),
-  creditBalance: z.number(), // Total credit owed by all players
 });
 export type GameSummary = z.infer<typeof gameSummarySchema>;
 
 // POST /api/players/transaction - Add player transaction
 export const addPlayerTransactionRequestSchema = z.object({
   playerName: z.string().min(1),
+  playerId: z.string().optional(), // Registry player - matched or created from playerName when omitted
   type: z.enum(["buy-in", "cashout"]),
-  amount: z.number().positive(),
+  amount: positiveMoneyAmountSchema,
   paymentMethod: z.enum(["cash", "electronic", "credit"]),
   notes: z.string().optional(),
   gameSessionId: z.string(),
+  tableId: z.string().optional(), // Defaults to the player's current table, or the only open table
+  settlement: cashoutSettlementInputSchema.optional(), // Cashouts only - parts must add up to amount
+}).refine((data) => !data.settlement || data.type === "cashout", {
+  message: "Settlement can only be recorded on a cashout",
+  path: ["settlement"],
 });
 export type AddPlayerTransactionRequest = z.infer<typeof addPlayerTransactionRequestSchema>;
+export const chipWarningSchema = z.object({
+  code: z.enum(["cashout-exceeds-chips-in-play", "buy-in-exceeds-chip-bank"]),
+  message: z.string(),
+});
+export type ChipWarning = z.infer<typeof chipWarningSchema>;
 export const addPlayerTransactionResponseSchema = z.object({
   transaction: playerTransactionSchema,
+  warnings: z.array(chipWarningSchema).optional(), // The transaction was still recorded
 });
 export type AddPlayerTransactionResponse = z.infer<typeof addPlayerTransactionResponseSchema>;
 
 // PUT /api/players/transaction/:id - Update player transaction
 export const updatePlayerTransactionRequestSchema = z.object({
-  amount: z.number().positive(),
+  amount: positiveMoneyAmountSchema,
   paymentMethod: z.enum(["cash", "electronic", "credit"]),
   notes: z.string().optional(),
+  tableId: z.string().optional(),
+  settlement: cashoutSettlementInputSchema.optional(), // Cashouts only - replaces the existing settlement
 });
 export type UpdatePlayerTransactionRequest = z.infer<typeof updatePlayerTransactionRequestSchema>;
 export const updatePlayerTransactionResponseSchema = z.object({
@@ -166,12 +386,252 @@ export const getPlayerTransactionsResponseSchema = z.object({
 });
 export type GetPlayerTransactionsResponse = z.infer<typeof getPlayerTransactionsResponseSchema>;
 
+// Credit Repayment - money paid back against a credit buy-in
+export const creditRepaymentSchema = z.object({
+  id: z.string(),
+  amount: z.number(),
+  method: z.enum(["cash", "electronic"]), // Only cash repayments go into the till
+  notes: z.string().nullable(),
+  paidAt: z.string(),
+  transactionId: z.string(),
+  createdByInitials: z.string().nullable(),
+});
+export type CreditRepayment = z.infer<typeof creditRepaymentSchema>;
+
+// Credit Installment - one scheduled payment of a credit buy-in's payment plan
+export const creditInstallmentSchema = z.object({
+  id: z.string(),
+  dueDate: z.string(),
+  amount: z.number(),
+  paid: z.number(), // Repayments applied to this installment, earliest installment first
+  status: z.enum(["paid", "partial", "due", "overdue"]),
+});
+export type CreditInstallment = z.infer<typeof creditInstallmentSchema>;
+
+// GET /api/players/transaction/:id/repayments - Repayments and payment plan of a credit buy-in
+export const getRepaymentsResponseSchema = z.object({
+  transaction: playerTransactionSchema,
+  repayments: z.array(creditRepaymentSchema),
+  installments: z.array(creditInstallmentSchema),
+  repaid: z.number(),
+  remaining: z.number(),
+});
+export type GetRepaymentsResponse = z.infer<typeof getRepaymentsResponseSchema>;
+
+// POST /api/players/transaction/:id/repayments - Record a (partial) repayment of a credit buy-in
+export const addRepaymentRequestSchema = z.object({
+  amount: positiveMoneyAmountSchema, // Cannot exceed the remaining balance
+  method: z.enum(["cash", "electronic"]),
+  paidAt: z.iso.datetime().optional(), // Defaults to now
+  notes: z.string().optional(),
+});
+export type AddRepaymentRequest = z.infer<typeof addRepaymentRequestSchema>;
+export const addRepaymentResponseSchema = z.object({
+  transaction: playerTransactionSchema,
+  repayment: creditRepaymentSchema,
+});
+export type AddRepaymentResponse = z.infer<typeof addRepaymentResponseSchema>;
+
+// DELETE /api/players/transaction/:id/repayments/:repaymentId - Delete a repayment
+export const deleteRepaymentResponseSchema = z.object({
+  transaction: playerTransactionSchema,
+});
+export type DeleteRepaymentResponse = z.infer<typeof deleteRepaymentResponseSchema>;
+
+// PUT /api/players/transaction/:id/payment-plan - Replace the payment plan of a credit buy-in
+export const setPaymentPlanRequestSchema = z.object({
+  installments: z.array(z.object({
+    dueDate: z.iso.datetime(),
+    amount: positiveMoneyAmountSchema,
+  })).min(1), // Must add up to the remaining balance
+});
+export type SetPaymentPlanRequest = z.infer<typeof setPaymentPlanRequestSchema>;
+export const setPaymentPlanResponseSchema = z.object({
+  installments: z.array(creditInstallmentSchema),
+});
+export type SetPaymentPlanResponse = z.infer<typeof setPaymentPlanResponseSchema>;
+
+// DELETE /api/players/transaction/:id/payment-plan - Remove the payment plan
+export const deletePaymentPlanResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeletePaymentPlanResponse = z.infer<typeof deletePaymentPlanResponseSchema>;
+
+// ============================================
+// PLAYER REGISTRY CONTRACTS
+// ============================================
+
+// Player - a host's registry entry, linking transactions across game sessions
+export const playerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  nickname: z.string().nullable(),
+  aliases: z.array(z.string()),
+  phone: z.string().nullable(),
+  email: z.string().nullable(),
+  notes: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type Player = z.infer<typeof playerSchema>;
+
+// GET /api/players/registry - Get the host's player registry
+export const getPlayersResponseSchema = z.object({
+  players: z.array(playerSchema),
+});
+export type GetPlayersResponse = z.infer<typeof getPlayersResponseSchema>;
+
+// GET /api/players/registry/:id - Get a player with their transactions across all games
+export const getPlayerResponseSchema = z.object({
+  player: playerSchema,
+  transactions: z.array(playerTransactionSchema),
+});
+export type GetPlayerResponse = z.infer<typeof getPlayerResponseSchema>;
+
+// POST /api/players/registry - Add a player to the registry
+export const createPlayerRequestSchema = z.object({
+  name: z.string().trim().min(1),
+  nickname: z.string().optional(),
+  aliases: z.array(z.string().trim().min(1)).optional().default([]),
+  phone: z.string().optional(),
+  email: z.email().optional(),
+  notes: z.string().optional(),
+});
+export type CreatePlayerRequest = z.infer<typeof createPlayerRequestSchema>;
+export const createPlayerResponseSchema = z.object({
+  player: playerSchema,
+});
+export type CreatePlayerResponse = z.infer<typeof createPlayerResponseSchema>;
+
+// PUT /api/players/registry/:id - Update a player
+export const updatePlayerRequestSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  nickname: z.string().nullable().optional(),
+  aliases: z.array(z.string().trim().min(1)).optional(),
+  phone: z.string().nullable().optional(),
+  email: z.email().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+export type UpdatePlayerRequest = z.infer<typeof updatePlayerRequestSchema>;
+export const updatePlayerResponseSchema = z.object({
+  player: playerSchema,
+});
+export type UpdatePlayerResponse = z.infer<typeof updatePlayerResponseSchema>;
+
+// GET /api/players/registry/suggest?q=&gameSessionId= - Fuzzy-match a typed name
+export const suggestPlayersQuerySchema = z.object({
+  q: z.string().min(1),
+  gameSessionId: z.string().optional(), // Suggest from this game's host registry (for members)
+});
+export type SuggestPlayersQuery = z.infer<typeof suggestPlayersQuerySchema>;
+export const playerSuggestionSchema = z.object({
+  player: playerSchema,
+  score: z.number(), // 0..1, 1 = exact match
+  matchedOn: z.string(), // Name, nickname or alias that matched
+});
+export type PlayerSuggestion = z.infer<typeof playerSuggestionSchema>;
+export const suggestPlayersResponseSchema = z.object({
+  suggestions: z.array(playerSuggestionSchema),
+});
+export type SuggestPlayersResponse = z.infer<typeof suggestPlayersResponseSchema>;
+
+// POST /api/players/registry/:id/merge - Merge duplicate players into this one
+export const mergePlayersRequestSchema = z.object({
+  duplicateIds: z.array(z.string()).min(1),
+});
+export type MergePlayersRequest = z.infer<typeof mergePlayersRequestSchema>;
+export const mergePlayersResponseSchema = z.object({
+  player: playerSchema,
+  mergedCount: z.number(),
+  transactionsMoved: z.number(),
+});
+export type MergePlayersResponse = z.infer<typeof mergePlayersResponseSchema>;
+
+// ============================================
+// DEALER ROSTER CONTRACTS
+// ============================================
+
+// Dealer - a host's roster entry, linking dealer downs across game sessions
+export const dealerPayModelSchema = z.enum(["per-down", "hourly", "tips-only"]);
+export type DealerPayModel = z.infer<typeof dealerPayModelSchema>;
+export const dealerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  nickname: z.string().nullable(),
+  phone: z.string().nullable(),
+  email: z.string().nullable(),
+  notes: z.string().nullable(),
+  payModel: dealerPayModelSchema,
+  payRate: z.number(), // Per down or per hour, in the dealer's currency - 0 for tips-only
+  currency: z.string(),
+  active: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type Dealer = z.infer<typeof dealerSchema>;
+
+// GET /api/dealers - Get the host's dealer roster
+export const getDealersResponseSchema = z.object({
+  dealers: z.array(dealerSchema),
+});
+export type GetDealersResponse = z.infer<typeof getDealersResponseSchema>;
+
+// GET /api/dealers/:id - Get a dealer with their downs across all games
+export const getDealerResponseSchema = z.object({
+  dealer: dealerSchema,
+  downs: z.array(dealerDownSchema),
+});
+export type GetDealerResponse = z.infer<typeof getDealerResponseSchema>;
+
+// POST /api/dealers - Add a dealer to the roster
+export const createDealerRequestSchema = z.object({
+  name: z.string().trim().min(1),
+  nickname: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.email().optional(),
+  notes: z.string().optional(),
+  payModel: dealerPayModelSchema.optional().default("tips-only"),
+  payRate: moneyAmountSchema.optional().default(0),
+  currency: z.string().optional().default("USD"),
+});
+export type CreateDealerRequest = z.infer<typeof createDealerRequestSchema>;
+export const createDealerResponseSchema = z.object({
+  dealer: dealerSchema,
+});
+export type CreateDealerResponse = z.infer<typeof createDealerResponseSchema>;
+
+// PUT /api/dealers/:id - Update a dealer
+export const updateDealerRequestSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  nickname: z.string().nullable().optional(),
+  phone: z.string().nullable().optional(),
+  email: z.email().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  payModel: dealerPayModelSchema.optional(),
+  payRate: moneyAmountSchema.optional(),
+  currency: z.string().optional(),
+  active: z.boolean().optional(),
+});
+export type UpdateDealerRequest = z.infer<typeof updateDealerRequestSchema>;
+export const updateDealerResponseSchema = z.object({
+  dealer: dealerSchema,
+});
+export type UpdateDealerResponse = z.infer<typeof updateDealerResponseSchema>;
+
+// DELETE /api/dealers/:id - Remove a dealer (their downs are kept, unlinked)
+export const deleteDealerResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteDealerResponse = z.infer<typeof deleteDealerResponseSchema>;
+
 // POST /api/dealers/down - Add dealer down
 export const addDealerDownRequestSchema = z.object({
   dealerName: z.string().min(1),
-  tips: z.number().min(0),
-  rake: z.number().min(0),
+  tips: moneyAmountSchema,
+  rake: moneyAmountSchema,
   gameSessionId: z.string(),
+  tableId: z.string().optional(), // Defaults to the only open table
+  dealerId: z.string().optional(), // Roster dealer - matched or added from dealerName when omitted
 });
 export type AddDealerDownRequest = z.infer<typeof addDealerDownRequestSchema>;
 export const addDealerDownResponseSchema = z.object({
@@ -188,8 +648,9 @@ export type GetDealerDownsResponse = z.infer<typeof getDealerDownsResponseSchema
 // PUT /api/dealers/down/:id - Update dealer down
 export const updateDealerDownRequestSchema = z.object({
   dealerName: z.string().min(1),
-  tips: z.number().min(0),
-  rake: z.number().min(0),
+  tips: moneyAmountSchema,
+  rake: moneyAmountSchema,
+  dealerId: z.string().optional(), // Roster dealer - re-matched from dealerName when omitted
 });
 export type UpdateDealerDownRequest = z.infer<typeof updateDealerDownRequestSchema>;
 export const updateDealerDownResponseSchema = z.object({
@@ -207,14 +668,17 @@ export type MarkDealerTipsPaidResponse = z.infer<typeof markDealerTipsPaidRespon
 export const claimTipsByDealerRequestSchema = z.object({
   dealerName: z.string().min(1),
   gameSessionId: z.string(),
-  percentage: z.number().min(0).max(100).default(100), // Percentage of tips to claim (for owner's cut)
+  percentage: z.number().min(0).max(100).optional(), // Dealer's share of their tips - overrides the tip policy
+  policyId: z.string().optional(), // Tip policy to apply - defaults to the host's default policy, else 100% to the dealer
+  method: z.enum(["cash", "electronic"]).optional().default("cash"),
 });
 export type ClaimTipsByDealerRequest = z.infer<typeof claimTipsByDealerRequestSchema>;
 export const claimTipsByDealerResponseSchema = z.object({
   updatedCount: z.number(),
   totalTipsClaimed: z.number(),
-  ownerCut: z.number(), // Amount kept by owner (100% - percentage)
+  ownerCut: z.number(), // Amount kept by owner
   dealerPayout: z.number(), // Amount paid to dealer
+  payout: dealerPayoutSchema.nullable(), // null when there were no unpaid tips
 });
 export type ClaimTipsByDealerResponse = z.infer<typeof claimTipsByDealerResponseSchema>;
 
@@ -232,7 +696,7 @@ export type ClaimAllRakeResponse = z.infer<typeof claimAllRakeResponseSchema>;
 // PUT /api/dealers/total-rake - Update total rake for session
 export const updateTotalRakeRequestSchema = z.object({
   gameSessionId: z.string(),
-  totalRake: z.number().min(0),
+  totalRake: moneyAmountSchema,
 });
 export type UpdateTotalRakeRequest = z.infer<typeof updateTotalRakeRequestSchema>;
 export const updateTotalRakeResponseSchema = z.object({
@@ -244,11 +708,20 @@ export type UpdateTotalRakeResponse = z.infer<typeof updateTotalRakeResponseSche
 // POST /api/expenses - Add expense
 export const addExpenseRequestSchema = z.object({
   description: z.string().min(1),
-  amount: z.number().positive(),
-  category: z.enum(["food", "drinks", "other"]),
+  amount: positiveMoneyAmountSchema,
+  categoryId: z.string(), // One of the host's active expense categories
   paymentMethod: z.enum(["cash", "electronic"]),
+  paidBy: expensePayerSchema.optional().default("house"),
+  paidByUserId: z.string().optional(), // Required when a member paid - the owner or a member of the game
+  paidByName: z.string().min(1).optional(), // Required when someone outside the game paid
   notes: z.string().optional(),
   gameSessionId: z.string(),
+}).refine((data) => data.paidBy !== "member" || data.paidByUserId, {
+  message: "Say which member paid",
+  path: ["paidByUserId"],
+}).refine((data) => data.paidBy !== "outside" || data.paidByName, {
+  message: "Say who paid",
+  path: ["paidByName"],
 });
 export type AddExpenseRequest = z.infer<typeof addExpenseRequestSchema>;
 export const addExpenseResponseSchema = z.object({
@@ -265,10 +738,19 @@ export type GetExpensesResponse = z.infer<typeof getExpensesResponseSchema>;
 // PUT /api/expenses/:id - Update an expense
 export const updateExpenseRequestSchema = z.object({
   description: z.string().min(1),
-  amount: z.number().positive(),
-  category: z.enum(["food", "drinks", "other"]),
+  amount: positiveMoneyAmountSchema,
+  categoryId: z.string(), // One of the host's active expense categories
   paymentMethod: z.enum(["cash", "electronic"]),
+  paidBy: expensePayerSchema.optional(), // Leave out to keep who paid
+  paidByUserId: z.string().optional(),
+  paidByName: z.string().min(1).optional(),
   notes: z.string().optional(),
+}).refine((data) => data.paidBy !== "member" || data.paidByUserId, {
+  message: "Say which member paid",
+  path: ["paidByUserId"],
+}).refine((data) => data.paidBy !== "outside" || data.paidByName, {
+  message: "Say who paid",
+  path: ["paidByName"],
 });
 export type UpdateExpenseRequest = z.infer<typeof updateExpenseRequestSchema>;
 export const updateExpenseResponseSchema = z.object({
@@ -276,6 +758,1470 @@ export const updateExpenseResponseSchema = z.object({
 });
 export type UpdateExpenseResponse = z.infer<typeof updateExpenseResponseSchema>;
 
+// PUT /api/expenses/:id/reimburse - Pay back whoever fronted the money for an expense
+// (PUT /api/expenses/:id/unreimburse reverses it and returns the same shape)
+export const reimburseExpenseRequestSchema = z.object({
+  method: z.enum(["cash", "electronic"]), // Cash comes out of the till
+});
+export type ReimburseExpenseRequest = z.infer<typeof reimburseExpenseRequestSchema>;
+export const reimburseExpenseResponseSchema = z.object({
+  expense: expenseSchema,
+});
+export type ReimburseExpenseResponse = z.infer<typeof reimburseExpenseResponseSchema>;
+
+// POST /api/expenses/:id/receipt - Upload (or replace) an expense's receipt photo
+// Multipart form with the image in a "receipt" field
+export const uploadExpenseReceiptResponseSchema = z.object({
+  expense: expenseSchema,
+});
+export type UploadExpenseReceiptResponse = z.infer<typeof uploadExpenseReceiptResponseSchema>;
+
+// GET /api/expenses/:id/receipt - Download an expense's receipt photo (?size=thumbnail for the thumbnail)
+export const getExpenseReceiptQuerySchema = z.object({
+  size: z.enum(["full", "thumbnail"]).default("full"),
+});
+export type GetExpenseReceiptQuery = z.infer<typeof getExpenseReceiptQuerySchema>;
+
+// DELETE /api/expenses/:id/receipt - Remove an expense's receipt photo
+export const deleteExpenseReceiptResponseSchema = z.object({
+  expense: expenseSchema,
+});
+export type DeleteExpenseReceiptResponse = z.infer<typeof deleteExpenseReceiptResponseSchema>;
+
+// ============================================
+// TABLE CONTRACTS
+// ============================================
+
+// GET /api/tables/:sessionId - Get the tables of a game
+export const getTablesResponseSchema = z.object({
+  tables: z.array(gameTableSchema),
+});
+export type GetTablesResponse = z.infer<typeof getTablesResponseSchema>;
+
+// POST /api/tables - Open a table
+export const createTableRequestSchema = z.object({
+  gameSessionId: z.string(),
+  name: z.string().trim().min(1),
+  stakes: z.string().optional(),
+  gameType: z.string().optional(),
+});
+export type CreateTableRequest = z.infer<typeof createTableRequestSchema>;
+export const createTableResponseSchema = z.object({
+  table: gameTableSchema,
+});
+export type CreateTableResponse = z.infer<typeof createTableResponseSchema>;
+
+// PUT /api/tables/:id - Update a table
+export const updateTableRequestSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  stakes: z.string().nullable().optional(),
+  gameType: z.string().optional(),
+});
+export type UpdateTableRequest = z.infer<typeof updateTableRequestSchema>;
+export const updateTableResponseSchema = z.object({
+  table: gameTableSchema,
+});
+export type UpdateTableResponse = z.infer<typeof updateTableResponseSchema>;
+
+// PUT /api/tables/:id/close - Close a table
+// PUT /api/tables/:id/reopen - Reopen a closed table
+export const closeTableResponseSchema = z.object({
+  table: gameTableSchema,
+});
+export type CloseTableResponse = z.infer<typeof closeTableResponseSchema>;
+
+// DELETE /api/tables/:id - Delete a table with no transactions or dealer downs
+export const deleteTableResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteTableResponse = z.infer<typeof deleteTableResponseSchema>;
+
+// Table Move - a player changing tables
+export const tableMoveSchema = z.object({
+  id: z.string(),
+  playerName: z.string(),
+  playerId: z.string().nullable(),
+  fromTableId: z.string().nullable(),
+  toTableId: z.string(),
+  movedAt: z.string(),
+  createdByInitials: z.string().nullable(),
+});
+export type TableMove = z.infer<typeof tableMoveSchema>;
+
+// POST /api/tables/moves - Move a player to another table
+export const moveTableRequestSchema = z.object({
+  gameSessionId: z.string(),
+  playerName: z.string().min(1),
+  playerId: z.string().optional(), // Registry player - matched or created from playerName when omitted
+  toTableId: z.string(),
+});
+export type MoveTableRequest = z.infer<typeof moveTableRequestSchema>;
+export const moveTableResponseSchema = z.object({
+  move: tableMoveSchema,
+});
+export type MoveTableResponse = z.infer<typeof moveTableResponseSchema>;
+
+// GET /api/tables/:sessionId/moves - Get all table moves of a game
+export const getTableMovesResponseSchema = z.object({
+  moves: z.array(tableMoveSchema),
+});
+export type GetTableMovesResponse = z.infer<typeof getTableMovesResponseSchema>;
+
+// ============================================
+// DEALER ROTATION CONTRACTS
+// ============================================
+
+// A dealer in the rotation lineup
+export const rotationDealerSchema = z.object({
+  dealerId: z.string(),
+  dealerName: z.string(),
+});
+export type RotationDealer = z.infer<typeof rotationDealerSchema>;
+
+// Who is in the box at a table, and how long their down has left
+export const dealerBoxSchema = z.object({
+  tableId: z.string(),
+  tableName: z.string(),
+  dealerId: z.string().nullable(),
+  dealerName: z.string(),
+  startedAt: z.string(),
+  endsAt: z.string().nullable(), // null when the game has no rotation set up
+  secondsRemaining: z.number().nullable(), // Negative once the down is overdue
+  overdue: z.boolean(),
+});
+export type DealerBox = z.infer<typeof dealerBoxSchema>;
+
+// Dealer Rotation - the lineup, who is in each box and who is next up
+export const dealerRotationSchema = z.object({
+  downMinutes: z.number().nullable(), // null until a rotation is set up
+  lineup: z.array(rotationDealerSchema),
+  boxes: z.array(dealerBoxSchema),
+  nextUp: rotationDealerSchema.nullable(), // null when every dealer in the lineup is already dealing
+});
+export type DealerRotation = z.infer<typeof dealerRotationSchema>;
+
+// GET /api/rotation/:sessionId - Get the game's dealer rotation
+export const getRotationResponseSchema = z.object({
+  rotation: dealerRotationSchema,
+});
+export type GetRotationResponse = z.infer<typeof getRotationResponseSchema>;
+
+// PUT /api/rotation/:sessionId - Set the dealer lineup and down length
+export const setRotationRequestSchema = z.object({
+  dealerIds: z.array(z.string()).min(1), // Roster dealers in rotation order
+  downMinutes: z.number().int().min(1).max(240),
+});
+export type SetRotationRequest = z.infer<typeof setRotationRequestSchema>;
+export const setRotationResponseSchema = z.object({
+  rotation: dealerRotationSchema,
+});
+export type SetRotationResponse = z.infer<typeof setRotationResponseSchema>;
+
+// POST /api/rotation/:sessionId/push - End the down at a table and send in the next dealer
+export const pushDealerRequestSchema = z.object({
+  tableId: z.string(),
+  dealerId: z.string().optional(), // Send in this roster dealer instead of the next one up
+  tips: moneyAmountSchema.optional().default(0), // Outgoing dealer's down
+  rake: moneyAmountSchema.optional().default(0),
+});
+export type PushDealerRequest = z.infer<typeof pushDealerRequestSchema>;
+export const pushDealerResponseSchema = z.object({
+  dealerDown: dealerDownSchema.nullable(), // The down that just ended - null when the box was empty
+  rotation: dealerRotationSchema,
+});
+export type PushDealerResponse = z.infer<typeof pushDealerResponseSchema>;
+
+// POST /api/rotation/:sessionId/end-down - End the down at a table without sending anyone in
+export const endDealerDownRequestSchema = z.object({
+  tableId: z.string(),
+  tips: moneyAmountSchema.optional().default(0),
+  rake: moneyAmountSchema.optional().default(0),
+});
+export type EndDealerDownRequest = z.infer<typeof endDealerDownRequestSchema>;
+export const endDealerDownResponseSchema = z.object({
+  dealerDown: dealerDownSchema,
+  rotation: dealerRotationSchema,
+});
+export type EndDealerDownResponse = z.infer<typeof endDealerDownResponseSchema>;
+
+// ============================================
+// TIP POLICY & DEALER PAYOUT CONTRACTS
+// ============================================
+
+// Tip Policy - how a host splits dealer tips with the house
+export const tipPolicyTypeSchema = z.enum(["house-percent", "toke-fee", "pooled"]);
+export type TipPolicyType = z.infer<typeof tipPolicyTypeSchema>;
+export const tipPolicySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: tipPolicyTypeSchema,
+  housePercent: z.number(), // house-percent and pooled
+  tokeFee: z.number(), // toke-fee: kept by the house per down, in the policy currency
+  currency: z.string(),
+  poolSplit: z.enum(["downs", "hours"]), // pooled only
+  isDefault: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type TipPolicy = z.infer<typeof tipPolicySchema>;
+
+// GET /api/dealers/tip-policies - Get the host's tip policies
+export const getTipPoliciesResponseSchema = z.object({
+  policies: z.array(tipPolicySchema),
+});
+export type GetTipPoliciesResponse = z.infer<typeof getTipPoliciesResponseSchema>;
+
+// POST /api/dealers/tip-policies - Create a tip policy
+export const createTipPolicyRequestSchema = z.object({
+  name: z.string().trim().min(1),
+  type: tipPolicyTypeSchema,
+  housePercent: z.number().min(0).max(100).optional().default(0),
+  tokeFee: moneyAmountSchema.optional().default(0),
+  currency: z.string().optional().default("USD"),
+  poolSplit: z.enum(["downs", "hours"]).optional().default("downs"),
+  isDefault: z.boolean().optional().default(false), // Replaces the current default
+});
+export type CreateTipPolicyRequest = z.infer<typeof createTipPolicyRequestSchema>;
+export const createTipPolicyResponseSchema = z.object({
+  policy: tipPolicySchema,
+});
+export type CreateTipPolicyResponse = z.infer<typeof createTipPolicyResponseSchema>;
+
+// PUT /api/dealers/tip-policies/:id - Update a tip policy
+export const updateTipPolicyRequestSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  type: tipPolicyTypeSchema.optional(),
+  housePercent: z.number().min(0).max(100).optional(),
+  tokeFee: moneyAmountSchema.optional(),
+  currency: z.string().optional(),
+  poolSplit: z.enum(["downs", "hours"]).optional(),
+  isDefault: z.boolean().optional(),
+});
+export type UpdateTipPolicyRequest = z.infer<typeof updateTipPolicyRequestSchema>;
+export const updateTipPolicyResponseSchema = z.object({
+  policy: tipPolicySchema,
+});
+export type UpdateTipPolicyResponse = z.infer<typeof updateTipPolicyResponseSchema>;
+
+// DELETE /api/dealers/tip-policies/:id - Delete a tip policy (payouts keep its description)
+export const deleteTipPolicyResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteTipPolicyResponse = z.infer<typeof deleteTipPolicyResponseSchema>;
+
+// POST /api/dealers/pay-tip-pool - Pool every unpaid tip in a game and pay each dealer their share
+export const payTipPoolRequestSchema = z.object({
+  gameSessionId: z.string(),
+  policyId: z.string().optional(), // Pooled tip policy - defaults to the host's default policy
+  method: z.enum(["cash", "electronic"]).optional().default("cash"),
+});
+export type PayTipPoolRequest = z.infer<typeof payTipPoolRequestSchema>;
+export const payTipPoolResponseSchema = z.object({
+  totalTips: z.number(),
+  houseCut: z.number(),
+  totalPaid: z.number(),
+  payouts: z.array(dealerPayoutSchema),
+});
+export type PayTipPoolResponse = z.infer<typeof payTipPoolResponseSchema>;
+
+// GET /api/dealers/payouts?gameSessionId=&dealerId= - Get the host's dealer payout history
+export const getDealerPayoutsQuerySchema = z.object({
+  gameSessionId: z.string().optional(),
+  dealerId: z.string().optional(),
+});
+export type GetDealerPayoutsQuery = z.infer<typeof getDealerPayoutsQuerySchema>;
+export const getDealerPayoutsResponseSchema = z.object({
+  payouts: z.array(dealerPayoutSchema),
+});
+export type GetDealerPayoutsResponse = z.infer<typeof getDealerPayoutsResponseSchema>;
+
+// DELETE /api/dealers/payouts/:id - Reverse a payout (its downs go back to unpaid)
+export const deleteDealerPayoutResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteDealerPayoutResponse = z.infer<typeof deleteDealerPayoutResponseSchema>;
+
+// Dealer payroll - one row per dealer and currency
+export const dealerPayrollEntrySchema = z.object({
+  dealerId: z.string().nullable(), // null for names never linked to the roster
+  dealerName: z.string(),
+  currency: z.string(),
+  payModel: dealerPayModelSchema,
+  games: z.number(),
+  downs: z.number(),
+  untimedDowns: z.number(), // Recorded after the fact - not counted in minutesDealt or hourly wages
+  minutesDealt: z.number(),
+  tipsEarned: z.number(), // Tips on the dealer's own downs
+  houseCut: z.number(),
+  tipsPaid: z.number(),
+  tipsOwed: z.number(), // Unpaid tips, before any house cut
+  wages: z.number(), // From the dealer's pay model, in the dealer's currency only
+});
+export type DealerPayrollEntry = z.infer<typeof dealerPayrollEntrySchema>;
+
+// GET /api/dealers/payroll?from=&to=&format= - Dealer payroll across the host's games in a date range
+export const getDealerPayrollQuerySchema = z.object({
+  from: z.iso.date(), // Games started on or after this day (UTC)
+  to: z.iso.date(), // Games started on or before this day (UTC)
+  format: z.enum(["json", "csv"]).optional().default("json"),
+});
+export type GetDealerPayrollQuery = z.infer<typeof getDealerPayrollQuerySchema>;
+export const getDealerPayrollResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  games: z.number(),
+  dealers: z.array(dealerPayrollEntrySchema),
+});
+export type GetDealerPayrollResponse = z.infer<typeof getDealerPayrollResponseSchema>;
+
+// ============================================
+// RAKE CONTRACTS
+// ============================================
+
+// Rake Structure - how pots are raked, game-wide (tableId null) or for one table
+export const rakeStructureSchema = z.object({
+  id: z.string(),
+  tableId: z.string().nullable(),
+  percentage: z.number(),
+  cap: z.number(), // 0 = no cap
+  noFlopNoDrop: z.boolean(),
+  promoDrop: z.number(), // Taken from each raked pot on top of the rake
+  updatedAt: z.string(),
+});
+export type RakeStructure = z.infer<typeof rakeStructureSchema>;
+
+// GET /api/rake/:sessionId/structures - Get the game's rake structures
+export const getRakeStructuresResponseSchema = z.object({
+  structures: z.array(rakeStructureSchema),
+});
+export type GetRakeStructuresResponse = z.infer<typeof getRakeStructuresResponseSchema>;
+
+// PUT /api/rake/:sessionId/structure - Set the game-wide rake structure, or one table's
+export const setRakeStructureRequestSchema = z.object({
+  tableId: z.string().optional(), // Omit for the game-wide structure
+  percentage: z.number().min(0).max(100),
+  cap: moneyAmountSchema.optional().default(0),
+  noFlopNoDrop: z.boolean().optional().default(true),
+  promoDrop: moneyAmountSchema.optional().default(0),
+});
+export type SetRakeStructureRequest = z.infer<typeof setRakeStructureRequestSchema>;
+export const setRakeStructureResponseSchema = z.object({
+  structure: rakeStructureSchema,
+});
+export type SetRakeStructureResponse = z.infer<typeof setRakeStructureResponseSchema>;
+
+// DELETE /api/rake/structure/:id - Delete a rake structure (pots already logged keep their rake)
+export const deleteRakeStructureResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteRakeStructureResponse = z.infer<typeof deleteRakeStructureResponseSchema>;
+
+// Rake Pot - a pot logged against the rake structure
+export const rakePotSchema = z.object({
+  id: z.string(),
+  potSize: z.number(),
+  sawFlop: z.boolean(),
+  rake: z.number(), // Theoretical rake under the structure when logged
+  promoDrop: z.number(),
+  dealerName: z.string().nullable(),
+  dealerId: z.string().nullable(),
+  tableId: z.string().nullable(),
+  timestamp: z.string(),
+  createdByInitials: z.string().nullable(),
+});
+export type RakePot = z.infer<typeof rakePotSchema>;
+
+// POST /api/rake/pots - Log a pot
+export const logRakePotRequestSchema = z.object({
+  gameSessionId: z.string(),
+  tableId: z.string().optional(), // Defaults to the only open table
+  potSize: positiveMoneyAmountSchema,
+  sawFlop: z.boolean().optional().default(true),
+  dealerName: z.string().min(1).optional(), // Defaults to the dealer in the box at the table
+});
+export type LogRakePotRequest = z.infer<typeof logRakePotRequestSchema>;
+export const logRakePotResponseSchema = z.object({
+  pot: rakePotSchema,
+});
+export type LogRakePotResponse = z.infer<typeof logRakePotResponseSchema>;
+
+// GET /api/rake/:sessionId/pots - Get all logged pots
+export const getRakePotsResponseSchema = z.object({
+  pots: z.array(rakePotSchema),
+});
+export type GetRakePotsResponse = z.infer<typeof getRakePotsResponseSchema>;
+
+// DELETE /api/rake/pots/:id - Delete a logged pot
+export const deleteRakePotResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteRakePotResponse = z.infer<typeof deleteRakePotResponseSchema>;
+
+// GET /api/rake/:sessionId/reconciliation - Dropbox count vs dealer-reported vs theoretical rake
+export const rakeReconciliationSchema = z.object({
+  source: z.enum(["dropbox", "dealer-reported"]), // What the summary counts as the game's rake
+  dropboxCount: z.number(), // 0 until counted
+  dealerReported: z.number(),
+  theoretical: z.number(), // From logged pots
+  promoDrops: z.number(),
+  dropboxVsReported: z.number(), // dropboxCount - dealerReported; 0 until counted
+  reportedVsTheoretical: z.number(),
+  dealers: z.array(z.object({
+    dealerName: z.string(),
+    dealerId: z.string().nullable(),
+    downs: z.number(),
+    pots: z.number(),
+    reported: z.number(),
+    theoretical: z.number(),
+    variance: z.number(), // reported - theoretical
+  })),
+});
+export type RakeReconciliation = z.infer<typeof rakeReconciliationSchema>;
+export const getRakeReconciliationResponseSchema = z.object({
+  reconciliation: rakeReconciliationSchema,
+});
+export type GetRakeReconciliationResponse = z.infer<typeof getRakeReconciliationResponseSchema>;
+
+// ============================================
+// TIME COLLECTION CONTRACTS
+// ============================================
+
+// Player Seat - one stretch of a player sitting in a time-mode game
+export const playerSeatSchema = z.object({
+  id: z.string(),
+  playerName: z.string(),
+  playerId: z.string().nullable(),
+  tableId: z.string().nullable(),
+  seatedAt: z.string(),
+  leftAt: z.string().nullable(), // null while still seated
+});
+export type PlayerSeat = z.infer<typeof playerSeatSchema>;
+
+// Time Collection - seat fees collected from a player
+export const timeCollectionSchema = z.object({
+  id: z.string(),
+  playerName: z.string(),
+  playerId: z.string().nullable(),
+  amount: z.number(),
+  method: z.enum(["cash", "electronic"]),
+  collectedAt: z.string(),
+  createdByInitials: z.string().nullable(),
+});
+export type TimeCollection = z.infer<typeof timeCollectionSchema>;
+
+// What each player has run up in seat fees
+export const timeFeeEntrySchema = z.object({
+  playerId: z.string().nullable(),
+  playerName: z.string(),
+  seated: z.boolean(),
+  minutesSeated: z.number(),
+  intervals: z.number(), // Started intervals - any part of an interval is charged in full
+  accrued: z.number(),
+  collected: z.number(),
+  owed: z.number(), // Negative when the player has paid ahead
+});
+export type TimeFeeEntry = z.infer<typeof timeFeeEntrySchema>;
+
+// GET /api/time/:sessionId - Seats, collections and fees owed per player
+export const getTimeStatusResponseSchema = z.object({
+  revenueMode: revenueModeSchema,
+  timeFee: z.number(),
+  timeFeeMinutes: z.number(),
+  seats: z.array(playerSeatSchema),
+  collections: z.array(timeCollectionSchema),
+  players: z.array(timeFeeEntrySchema),
+  totalAccrued: z.number(),
+  totalCollected: z.number(),
+  totalOwed: z.number(),
+});
+export type GetTimeStatusResponse = z.infer<typeof getTimeStatusResponseSchema>;
+
+// PUT /api/time/:sessionId/config - Switch revenue mode and set the seat fee
+export const setTimeConfigRequestSchema = z.object({
+  revenueMode: revenueModeSchema,
+  timeFee: moneyAmountSchema.optional(),
+  timeFeeMinutes: z.number().int().positive().optional(),
+});
+export type SetTimeConfigRequest = z.infer<typeof setTimeConfigRequestSchema>;
+export const setTimeConfigResponseSchema = z.object({
+  session: gameSessionSchema,
+});
+export type SetTimeConfigResponse = z.infer<typeof setTimeConfigResponseSchema>;
+
+// POST /api/time/seat-in - Start a player's seat time
+export const seatInRequestSchema = z.object({
+  gameSessionId: z.string(),
+  playerName: z.string().min(1),
+  tableId: z.string().optional(), // Defaults to the only open table
+});
+export type SeatInRequest = z.infer<typeof seatInRequestSchema>;
+export const seatInResponseSchema = z.object({
+  seat: playerSeatSchema,
+});
+export type SeatInResponse = z.infer<typeof seatInResponseSchema>;
+
+// POST /api/time/seat-out - Stop a player's seat time
+export const seatOutRequestSchema = z.object({
+  seatId: z.string(),
+});
+export type SeatOutRequest = z.infer<typeof seatOutRequestSchema>;
+export const seatOutResponseSchema = z.object({
+  seat: playerSeatSchema,
+});
+export type SeatOutResponse = z.infer<typeof seatOutResponseSchema>;
+
+// POST /api/time/collections - Record seat fees collected from a player
+export const collectTimeRequestSchema = z.object({
+  gameSessionId: z.string(),
+  playerName: z.string().min(1),
+  amount: positiveMoneyAmountSchema.optional(), // Defaults to what the player owes
+  method: z.enum(["cash", "electronic"]).optional().default("cash"),
+});
+export type CollectTimeRequest = z.infer<typeof collectTimeRequestSchema>;
+export const collectTimeResponseSchema = z.object({
+  collection: timeCollectionSchema,
+});
+export type CollectTimeResponse = z.infer<typeof collectTimeResponseSchema>;
+
+// DELETE /api/time/collections/:id - Delete a collection
+export const deleteTimeCollectionResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteTimeCollectionResponse = z.infer<typeof deleteTimeCollectionResponseSchema>;
+
+// ============================================
+// TOURNAMENT CONTRACTS
+// ============================================
+
+// Tournament Entry - a registered player
+export const tournamentEntrySchema = z.object({
+  id: z.string(),
+  playerName: z.string(),
+  playerId: z.string().nullable(),
+  rebuys: z.number(),
+  addOns: z.number(),
+  prizeContributed: z.number(),
+  houseFeesPaid: z.number(),
+  registeredAt: z.string(),
+  bustedAt: z.string().nullable(),
+  finishPosition: z.number().nullable(), // From the bust-out order; 1 = winner once one player is left
+  payout: z.number().nullable(), // Prize paid, once paid
+  payoutTransactionId: z.string().nullable(), // The cashout that paid the prize
+});
+export type TournamentEntry = z.infer<typeof tournamentEntrySchema>;
+
+// One paid place in the payout table
+export const tournamentPayoutSchema = z.object({
+  place: z.number(),
+  percentage: z.number(),
+  amount: z.number(),
+  entryId: z.string().nullable(), // null until someone finishes in this place
+  playerName: z.string().nullable(),
+  paid: z.boolean(),
+});
+export type TournamentPayout = z.infer<typeof tournamentPayoutSchema>;
+
+// Tournament - fees, windows, entries and the payout table
+export const tournamentSchema = z.object({
+  id: z.string(),
+  entryFee: z.number(), // Goes into the prize pool
+  houseFee: z.number(), // Kept by the house on each entry
+  rebuyFee: z.number(), // 0 = no rebuys
+  rebuyHouseFee: z.number(),
+  maxRebuys: z.number(), // Per player; 0 = no limit
+  rebuysUntil: z.string().nullable(),
+  addOnFee: z.number(), // 0 = no add-on
+  addOnHouseFee: z.number(),
+  addOnsFrom: z.string().nullable(),
+  addOnsUntil: z.string().nullable(),
+  payoutPercentages: z.array(z.number()), // Custom payout table; empty = standard table
+  rebuysOpen: z.boolean(),
+  addOnsOpen: z.boolean(),
+  prizePool: z.number(),
+  houseFees: z.number(),
+  playersRegistered: z.number(),
+  playersRemaining: z.number(),
+  entries: z.array(tournamentEntrySchema),
+  payouts: z.array(tournamentPayoutSchema),
+});
+export type Tournament = z.infer<typeof tournamentSchema>;
+
+// GET /api/tournaments/:sessionId - Get the tournament (null for cash games)
+export const getTournamentResponseSchema = z.object({
+  tournament: tournamentSchema.nullable(),
+});
+export type GetTournamentResponse = z.infer<typeof getTournamentResponseSchema>;
+
+// PUT /api/tournaments/:sessionId - Set up the tournament (turns the game into a tournament)
+export const setTournamentRequestSchema = z.object({
+  entryFee: positiveMoneyAmountSchema,
+  houseFee: moneyAmountSchema.optional().default(0),
+  rebuyFee: moneyAmountSchema.optional().default(0),
+  rebuyHouseFee: moneyAmountSchema.optional().default(0),
+  maxRebuys: z.number().int().min(0).optional().default(0),
+  rebuysUntil: z.iso.datetime().nullable().optional().default(null),
+  addOnFee: moneyAmountSchema.optional().default(0),
+  addOnHouseFee: moneyAmountSchema.optional().default(0),
+  addOnsFrom: z.iso.datetime().nullable().optional().default(null),
+  addOnsUntil: z.iso.datetime().nullable().optional().default(null),
+  payoutPercentages: z.array(z.number().positive().max(100)).optional().default([]),
+}).refine((data) => data.payoutPercentages.length === 0 || Math.abs(data.payoutPercentages.reduce((sum, p) => sum + p, 0) - 100) < 0.001, {
+  message: "Payout percentages must add up to 100",
+  path: ["payoutPercentages"],
+});
+export type SetTournamentRequest = z.infer<typeof setTournamentRequestSchema>;
+export const setTournamentResponseSchema = z.object({
+  tournament: tournamentSchema,
+});
+export type SetTournamentResponse = z.infer<typeof setTournamentResponseSchema>;
+
+// POST /api/tournaments/register - Register a player, recording the entry as a buy-in
+export const registerTournamentPlayerRequestSchema = z.object({
+  gameSessionId: z.string(),
+  playerName: z.string().min(1),
+  playerId: z.string().optional(),
+  paymentMethod: z.enum(["cash", "electronic", "credit"]).optional().default("cash"),
+});
+export type RegisterTournamentPlayerRequest = z.infer<typeof registerTournamentPlayerRequestSchema>;
+export const registerTournamentPlayerResponseSchema = z.object({
+  tournament: tournamentSchema,
+});
+export type RegisterTournamentPlayerResponse = z.infer<typeof registerTournamentPlayerResponseSchema>;
+
+// POST /api/tournaments/entries/:id/rebuy - Rebuy, recorded as a buy-in (brings a busted player back)
+// POST /api/tournaments/entries/:id/add-on - Take the add-on, recorded as a buy-in
+export const tournamentBuyInRequestSchema = z.object({
+  paymentMethod: z.enum(["cash", "electronic", "credit"]).optional().default("cash"),
+});
+export type TournamentBuyInRequest = z.infer<typeof tournamentBuyInRequestSchema>;
+export const tournamentBuyInResponseSchema = z.object({
+  tournament: tournamentSchema,
+});
+export type TournamentBuyInResponse = z.infer<typeof tournamentBuyInResponseSchema>;
+
+// POST /api/tournaments/entries/:id/bust - Bust a player out
+export const bustTournamentPlayerResponseSchema = z.object({
+  tournament: tournamentSchema,
+});
+export type BustTournamentPlayerResponse = z.infer<typeof bustTournamentPlayerResponseSchema>;
+
+// POST /api/tournaments/:sessionId/payouts - Pay every finisher in the money not yet paid, as cashouts
+export const payTournamentPrizesRequestSchema = z.object({
+  paymentMethod: z.enum(["cash", "electronic"]).optional().default("cash"),
+});
+export type PayTournamentPrizesRequest = z.infer<typeof payTournamentPrizesRequestSchema>;
+export const payTournamentPrizesResponseSchema = z.object({
+  tournament: tournamentSchema,
+  paid: z.number(), // Prizes paid by this request
+});
+export type PayTournamentPrizesResponse = z.infer<typeof payTournamentPrizesResponseSchema>;
+
+// ============================================
+// BLIND CLOCK CONTRACTS
+// ============================================
+
+// Blind Level - one level of the structure, or a break (blinds are chips, not money)
+export const blindLevelSchema = z.object({
+  smallBlind: z.number().int().min(0),
+  bigBlind: z.number().int().min(0),
+  ante: z.number().int().min(0).default(0),
+  minutes: z.number().int().positive(),
+  isBreak: z.boolean().default(false),
+});
+export type BlindLevel = z.infer<typeof blindLevelSchema>;
+
+// Blind Clock - where the clock is right now, as the server sees it
+export const blindClockSchema = z.object({
+  status: z.enum(["not-started", "running", "paused", "finished"]),
+  levels: z.array(blindLevelSchema),
+  levelIndex: z.number(), // 0-based index into levels
+  currentLevel: blindLevelSchema.nullable(),
+  nextLevel: blindLevelSchema.nullable(),
+  elapsedMs: z.number(), // Time into the current level
+  remainingMs: z.number(),
+  levelEndsAt: z.string().nullable(), // Only while running
+  startedAt: z.string().nullable(),
+  serverTime: z.string(), // Lets devices correct for their own clock drift
+});
+export type BlindClock = z.infer<typeof blindClockSchema>;
+
+// GET /api/clock/:sessionId - Get the blind clock (null until a structure is set)
+export const getBlindClockResponseSchema = z.object({
+  clock: blindClockSchema.nullable(),
+});
+export type GetBlindClockResponse = z.infer<typeof getBlindClockResponseSchema>;
+
+// PUT /api/clock/:sessionId/structure - Set the blind structure (the clock keeps its place)
+export const setBlindStructureRequestSchema = z.object({
+  levels: z.array(blindLevelSchema).min(1),
+});
+export type SetBlindStructureRequest = z.infer<typeof setBlindStructureRequestSchema>;
+
+// POST /api/clock/:sessionId/start - Start the clock from the first level
+// POST /api/clock/:sessionId/pause - Pause the clock
+// POST /api/clock/:sessionId/resume - Resume a paused clock
+export const blindClockResponseSchema = z.object({
+  clock: blindClockSchema,
+});
+export type BlindClockResponse = z.infer<typeof blindClockResponseSchema>;
+
+// POST /api/clock/:sessionId/advance - Jump to the next (or previous) level, keeping the clock running or paused
+export const advanceBlindClockRequestSchema = z.object({
+  direction: z.enum(["next", "previous"]).optional().default("next"),
+});
+export type AdvanceBlindClockRequest = z.infer<typeof advanceBlindClockRequestSchema>;
+
+// ============================================
+// JACKPOT CONTRACTS
+// ============================================
+
+// Jackpot Fund - a bad-beat, high-hand or promotion fund carried across the host's games
+export const jackpotFundSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  currency: z.string(),
+  startingBalance: z.number(),
+  balance: z.number(), // startingBalance + every drop - every payout
+  active: z.boolean(),
+  createdAt: z.string(),
+});
+export type JackpotFund = z.infer<typeof jackpotFundSchema>;
+
+// Jackpot Entry - a drop into a fund or a payout from it
+export const jackpotEntrySchema = z.object({
+  id: z.string(),
+  fundId: z.string(),
+  fundName: z.string(),
+  type: z.enum(["drop", "payout"]),
+  amount: z.number(),
+  dealerDownId: z.string().nullable(), // Drops taken during one down
+  playerName: z.string().nullable(), // Payouts only
+  playerId: z.string().nullable(),
+  hand: z.string().nullable(), // Payouts only - the qualifying hand
+  method: z.enum(["cash", "electronic"]).nullable(), // Payouts only
+  notes: z.string().nullable(),
+  timestamp: z.string(),
+  createdByInitials: z.string().nullable(),
+});
+export type JackpotEntry = z.infer<typeof jackpotEntrySchema>;
+
+// GET /api/jackpots/funds - Get the host's jackpot funds with their balances
+export const getJackpotFundsResponseSchema = z.object({
+  funds: z.array(jackpotFundSchema),
+});
+export type GetJackpotFundsResponse = z.infer<typeof getJackpotFundsResponseSchema>;
+
+// POST /api/jackpots/funds - Create a jackpot fund
+export const createJackpotFundRequestSchema = z.object({
+  name: z.string().min(1),
+  currency: z.string().optional().default("USD"),
+  startingBalance: moneyAmountSchema.optional().default(0), // Money already held before tracking here
+});
+export type CreateJackpotFundRequest = z.infer<typeof createJackpotFundRequestSchema>;
+export const createJackpotFundResponseSchema = z.object({
+  fund: jackpotFundSchema,
+});
+export type CreateJackpotFundResponse = z.infer<typeof createJackpotFundResponseSchema>;
+
+// PUT /api/jackpots/funds/:id - Rename or (de)activate a jackpot fund
+export const updateJackpotFundRequestSchema = z.object({
+  name: z.string().min(1).optional(),
+  active: z.boolean().optional(),
+});
+export type UpdateJackpotFundRequest = z.infer<typeof updateJackpotFundRequestSchema>;
+export const updateJackpotFundResponseSchema = z.object({
+  fund: jackpotFundSchema,
+});
+export type UpdateJackpotFundResponse = z.infer<typeof updateJackpotFundResponseSchema>;
+
+// DELETE /api/jackpots/funds/:id - Delete a jackpot fund with no drops or payouts
+export const deleteJackpotFundResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteJackpotFundResponse = z.infer<typeof deleteJackpotFundResponseSchema>;
+
+// GET /api/jackpots/:sessionId - Get a game's drops and payouts, and the host's funds
+export const getSessionJackpotsResponseSchema = z.object({
+  entries: z.array(jackpotEntrySchema),
+  funds: z.array(jackpotFundSchema),
+  totalDrops: z.number(),
+  totalPayouts: z.number(),
+});
+export type GetSessionJackpotsResponse = z.infer<typeof getSessionJackpotsResponseSchema>;
+
+// POST /api/jackpots/drops - Record a jackpot drop for a down or for the whole game
+export const addJackpotDropRequestSchema = z.object({
+  gameSessionId: z.string(),
+  fundId: z.string(),
+  amount: positiveMoneyAmountSchema,
+  dealerDownId: z.string().optional(),
+  notes: z.string().optional(),
+});
+export type AddJackpotDropRequest = z.infer<typeof addJackpotDropRequestSchema>;
+export const addJackpotDropResponseSchema = z.object({
+  entry: jackpotEntrySchema,
+});
+export type AddJackpotDropResponse = z.infer<typeof addJackpotDropResponseSchema>;
+
+// POST /api/jackpots/payouts - Pay a jackpot to a player for a qualifying hand
+export const payJackpotRequestSchema = z.object({
+  gameSessionId: z.string(),
+  fundId: z.string(),
+  playerName: z.string().min(1),
+  playerId: z.string().optional(),
+  amount: positiveMoneyAmountSchema,
+  hand: z.string().min(1),
+  method: z.enum(["cash", "electronic"]).optional().default("cash"),
+  notes: z.string().optional(),
+});
+export type PayJackpotRequest = z.infer<typeof payJackpotRequestSchema>;
+export const payJackpotResponseSchema = z.object({
+  entry: jackpotEntrySchema,
+});
+export type PayJackpotResponse = z.infer<typeof payJackpotResponseSchema>;
+
+// DELETE /api/jackpots/entries/:id - Delete a drop or payout
+export const deleteJackpotEntryResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteJackpotEntryResponse = z.infer<typeof deleteJackpotEntryResponseSchema>;
+
+// ============================================
+// EXPENSE CATEGORY & BUDGET CONTRACTS
+// ============================================
+
+// A monthly budget - only spend in games of its currency counts against it
+export const expenseBudgetSchema = z.object({
+  monthlyAmount: z.number(),
+  currency: z.string(),
+});
+export type ExpenseBudget = z.infer<typeof expenseBudgetSchema>;
+
+// Expense category - each host defines their own
+export const expenseCategorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  icon: z.string().nullable(),
+  color: z.string().nullable(),
+  budget: expenseBudgetSchema.nullable(),
+  active: z.boolean(),
+  createdAt: z.string(),
+});
+export type ExpenseCategory = z.infer<typeof expenseCategorySchema>;
+
+const expenseCategoryColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color like #22c55e");
+const expenseBudgetRequestSchema = z.object({
+  monthlyAmount: positiveMoneyAmountSchema,
+  currency: z.string().optional().default("USD"),
+});
+
+// GET /api/expenses/categories - Get the host's expense categories (the defaults are created on first use)
+export const getExpenseCategoriesResponseSchema = z.object({
+  categories: z.array(expenseCategorySchema),
+});
+export type GetExpenseCategoriesResponse = z.infer<typeof getExpenseCategoriesResponseSchema>;
+
+// POST /api/expenses/categories - Create an expense category
+export const createExpenseCategoryRequestSchema = z.object({
+  name: z.string().min(1),
+  icon: z.string().min(1).optional(),
+  color: expenseCategoryColorSchema.optional(),
+  budget: expenseBudgetRequestSchema.optional(),
+});
+export type CreateExpenseCategoryRequest = z.infer<typeof createExpenseCategoryRequestSchema>;
+export const createExpenseCategoryResponseSchema = z.object({
+  category: expenseCategorySchema,
+});
+export type CreateExpenseCategoryResponse = z.infer<typeof createExpenseCategoryResponseSchema>;
+
+// PUT /api/expenses/categories/:id - Update an expense category (null clears the icon, color or budget)
+export const updateExpenseCategoryRequestSchema = z.object({
+  name: z.string().min(1).optional(),
+  icon: z.string().min(1).nullable().optional(),
+  color: expenseCategoryColorSchema.nullable().optional(),
+  budget: expenseBudgetRequestSchema.nullable().optional(),
+  active: z.boolean().optional(),
+});
+export type UpdateExpenseCategoryRequest = z.infer<typeof updateExpenseCategoryRequestSchema>;
+export const updateExpenseCategoryResponseSchema = z.object({
+  category: expenseCategorySchema,
+});
+export type UpdateExpenseCategoryResponse = z.infer<typeof updateExpenseCategoryResponseSchema>;
+
+// DELETE /api/expenses/categories/:id - Delete an expense category with no expenses
+export const deleteExpenseCategoryResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteExpenseCategoryResponse = z.infer<typeof deleteExpenseCategoryResponseSchema>;
+
+// Spend against budget - one line per month, category and currency
+export const budgetReportLineSchema = z.object({
+  month: z.string(), // YYYY-MM
+  categoryId: z.string(),
+  categoryName: z.string(),
+  icon: z.string().nullable(),
+  color: z.string().nullable(),
+  currency: z.string(),
+  spent: z.number(),
+  budget: z.number().nullable(), // Only on the line in the budget's currency
+  remaining: z.number().nullable(), // Negative when over budget
+});
+export type BudgetReportLine = z.infer<typeof budgetReportLineSchema>;
+
+// GET /api/expenses/budget-report?from=&to= - Spend vs budget across the host's games, month by month
+const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Must be a month like 2026-10");
+export const getBudgetReportQuerySchema = z.object({
+  from: monthSchema, // Games started in or after this month (UTC)
+  to: monthSchema, // Games started in or before this month (UTC)
+});
+export type GetBudgetReportQuery = z.infer<typeof getBudgetReportQuerySchema>;
+export const getBudgetReportResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  games: z.number(),
+  lines: z.array(budgetReportLineSchema),
+});
+export type GetBudgetReportResponse = z.infer<typeof getBudgetReportResponseSchema>;
+
+// ============================================
+// VENUE COST CONTRACTS
+// ============================================
+
+export const venueCostFrequencySchema = z.enum(["monthly", "one-off"]);
+export const venueCostAllocationSchema = z.enum(["even", "hours", "rake"]);
+
+// Venue cost - rent, cards, chips... shared out across the host's games
+export const venueCostSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  amount: z.number(), // Per month when monthly, in total when one-off
+  currency: z.string(),
+  frequency: venueCostFrequencySchema,
+  allocation: venueCostAllocationSchema,
+  startMonth: z.string(), // YYYY-MM
+  endMonth: z.string().nullable(), // YYYY-MM - null while a monthly cost runs
+  notes: z.string().nullable(),
+  createdAt: z.string(),
+});
+export type VenueCost = z.infer<typeof venueCostSchema>;
+
+// GET /api/costs - Get the host's venue costs
+export const getVenueCostsResponseSchema = z.object({
+  costs: z.array(venueCostSchema),
+});
+export type GetVenueCostsResponse = z.infer<typeof getVenueCostsResponseSchema>;
+
+// POST /api/costs - Add a monthly or one-off venue cost
+export const createVenueCostRequestSchema = z.object({
+  name: z.string().min(1),
+  amount: positiveMoneyAmountSchema,
+  currency: z.string().optional().default("USD"),
+  frequency: venueCostFrequencySchema,
+  allocation: venueCostAllocationSchema.optional().default("even"),
+  startMonth: monthSchema,
+  endMonth: monthSchema.optional(), // Monthly costs only
+  notes: z.string().optional(),
+}).refine((data) => !data.endMonth || (data.frequency === "monthly" && data.endMonth >= data.startMonth), {
+  message: "Only a monthly cost has an end month, on or after its start month",
+  path: ["endMonth"],
+});
+export type CreateVenueCostRequest = z.infer<typeof createVenueCostRequestSchema>;
+export const createVenueCostResponseSchema = z.object({
+  cost: venueCostSchema,
+});
+export type CreateVenueCostResponse = z.infer<typeof createVenueCostResponseSchema>;
+
+// PUT /api/costs/:id - Update a venue cost (endMonth null keeps a monthly cost running)
+export const updateVenueCostRequestSchema = z.object({
+  name: z.string().min(1).optional(),
+  amount: positiveMoneyAmountSchema.optional(),
+  allocation: venueCostAllocationSchema.optional(),
+  startMonth: monthSchema.optional(),
+  endMonth: monthSchema.nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+export type UpdateVenueCostRequest = z.infer<typeof updateVenueCostRequestSchema>;
+export const updateVenueCostResponseSchema = z.object({
+  cost: venueCostSchema,
+});
+export type UpdateVenueCostResponse = z.infer<typeof updateVenueCostResponseSchema>;
+
+// DELETE /api/costs/:id - Delete a venue cost
+export const deleteVenueCostResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteVenueCostResponse = z.infer<typeof deleteVenueCostResponseSchema>;
+
+// A game in the profit report - contribution margin is the ledger's netProfit
+export const profitReportGameSchema = z.object({
+  gameSessionId: z.string(),
+  name: z.string(),
+  startedAt: z.string(),
+  contributionMargin: z.number(),
+  allocatedCosts: z.number(),
+  fullyLoadedProfit: z.number(),
+  costs: z.array(z.object({
+    costId: z.string(),
+    name: z.string(),
+    amount: z.number(),
+  })),
+});
+export type ProfitReportGame = z.infer<typeof profitReportGameSchema>;
+
+// One month in one currency
+export const profitReportPeriodSchema = z.object({
+  month: z.string(), // YYYY-MM
+  currency: z.string(),
+  contributionMargin: z.number(),
+  venueCosts: z.number(), // Every cost charged this month, allocated or not
+  unallocatedCosts: z.number(), // Charged in a month with no games in this currency
+  fullyLoadedProfit: z.number(),
+  games: z.array(profitReportGameSchema),
+});
+export type ProfitReportPeriod = z.infer<typeof profitReportPeriodSchema>;
+
+// GET /api/costs/profit-report?from=&to= - Contribution margin and fully-loaded profit, month by month
+export const getProfitReportQuerySchema = z.object({
+  from: monthSchema, // Games started in or after this month (UTC)
+  to: monthSchema, // Games started in or before this month (UTC)
+});
+export type GetProfitReportQuery = z.infer<typeof getProfitReportQuerySchema>;
+export const getProfitReportResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  periods: z.array(profitReportPeriodSchema),
+});
+export type GetProfitReportResponse = z.infer<typeof getProfitReportResponseSchema>;
+
+// ============================================
+// CONCESSION CONTRACTS
+// ============================================
+
+// Concession item - an entry on the host's price list
+export const concessionItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  price: z.number(),
+  cost: z.number(), // Cost of goods per unit
+  currency: z.string(),
+  active: z.boolean(),
+  createdAt: z.string(),
+});
+export type ConcessionItem = z.infer<typeof concessionItemSchema>;
+
+// Concession sale - paid at once, or on a player's tab until settled
+export const concessionSaleSchema = z.object({
+  id: z.string(),
+  itemId: z.string().nullable(),
+  itemName: z.string(),
+  quantity: z.number(),
+  unitPrice: z.number(),
+  amount: z.number(), // quantity x unitPrice
+  playerName: z.string().nullable(), // Null for walk-up sales
+  playerId: z.string().nullable(),
+  method: z.enum(["cash", "electronic", "tab"]),
+  settledAt: z.string().nullable(), // Null while on an open tab
+  settledMethod: z.enum(["cash", "electronic", "cashout"]).nullable(),
+  settledByCashoutId: z.string().nullable(),
+  notes: z.string().nullable(),
+  timestamp: z.string(),
+  createdByInitials: z.string().nullable(),
+});
+export type ConcessionSale = z.infer<typeof concessionSaleSchema>;
+
+// A player's open tab in one game - pass saleIds as settledTabSaleIds to net it against a cashout
+export const concessionTabSchema = z.object({
+  playerId: z.string().nullable(),
+  playerName: z.string(),
+  amount: z.number(),
+  saleIds: z.array(z.string()),
+});
+export type ConcessionTab = z.infer<typeof concessionTabSchema>;
+
+// GET /api/concessions/items - Get the host's price list
+export const getConcessionItemsResponseSchema = z.object({
+  items: z.array(concessionItemSchema),
+});
+export type GetConcessionItemsResponse = z.infer<typeof getConcessionItemsResponseSchema>;
+
+// POST /api/concessions/items - Add an item to the price list
+export const createConcessionItemRequestSchema = z.object({
+  name: z.string().min(1),
+  price: positiveMoneyAmountSchema,
+  cost: moneyAmountSchema.optional().default(0),
+  currency: z.string().optional().default("USD"),
+});
+export type CreateConcessionItemRequest = z.infer<typeof createConcessionItemRequestSchema>;
+export const createConcessionItemResponseSchema = z.object({
+  item: concessionItemSchema,
+});
+export type CreateConcessionItemResponse = z.infer<typeof createConcessionItemResponseSchema>;
+
+// PUT /api/concessions/items/:id - Update an item (past sales keep the price they were sold at)
+export const updateConcessionItemRequestSchema = z.object({
+  name: z.string().min(1).optional(),
+  price: positiveMoneyAmountSchema.optional(),
+  cost: moneyAmountSchema.optional(),
+  active: z.boolean().optional(),
+});
+export type UpdateConcessionItemRequest = z.infer<typeof updateConcessionItemRequestSchema>;
+export const updateConcessionItemResponseSchema = z.object({
+  item: concessionItemSchema,
+});
+export type UpdateConcessionItemResponse = z.infer<typeof updateConcessionItemResponseSchema>;
+
+// DELETE /api/concessions/items/:id - Remove an item from the price list
+export const deleteConcessionItemResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteConcessionItemResponse = z.infer<typeof deleteConcessionItemResponseSchema>;
+
+// POST /api/concessions/sales - Record a sale to a player or a walk-up cash sale
+export const addConcessionSaleRequestSchema = z.object({
+  gameSessionId: z.string(),
+  itemId: z.string(),
+  quantity: z.number().int().positive().optional().default(1),
+  playerName: z.string().min(1).optional(), // Leave out for a walk-up sale
+  playerId: z.string().optional(),
+  method: z.enum(["cash", "electronic", "tab"]),
+  notes: z.string().optional(),
+}).refine((data) => data.method !== "tab" || data.playerName, {
+  message: "Only a player can run a tab",
+  path: ["playerName"],
+});
+export type AddConcessionSaleRequest = z.infer<typeof addConcessionSaleRequestSchema>;
+export const addConcessionSaleResponseSchema = z.object({
+  sale: concessionSaleSchema,
+});
+export type AddConcessionSaleResponse = z.infer<typeof addConcessionSaleResponseSchema>;
+
+// DELETE /api/concessions/sales/:id - Delete a sale
+export const deleteConcessionSaleResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteConcessionSaleResponse = z.infer<typeof deleteConcessionSaleResponseSchema>;
+
+// POST /api/concessions/tabs/settle - Settle a player's whole open tab in cash or electronically
+export const settleConcessionTabRequestSchema = z.object({
+  gameSessionId: z.string(),
+  playerId: z.string(),
+  method: z.enum(["cash", "electronic"]),
+});
+export type SettleConcessionTabRequest = z.infer<typeof settleConcessionTabRequestSchema>;
+export const settleConcessionTabResponseSchema = z.object({
+  settledSales: z.number(),
+  amount: z.number(),
+});
+export type SettleConcessionTabResponse = z.infer<typeof settleConcessionTabResponseSchema>;
+
+// GET /api/concessions/:sessionId - Get a game's sales, open tabs and totals
+export const getSessionConcessionsResponseSchema = z.object({
+  sales: z.array(concessionSaleSchema),
+  tabs: z.array(concessionTabSchema),
+  totalSales: z.number(),
+  totalCostOfGoods: z.number(),
+  openTabs: z.number(),
+});
+export type GetSessionConcessionsResponse = z.infer<typeof getSessionConcessionsResponseSchema>;
+
+// ============================================
+// CASH MOVEMENT CONTRACTS
+// ============================================
+
+// POST /api/cash/movements - Record an opening float, cash drop or cash add
+export const addCashMovementRequestSchema = z.object({
+  gameSessionId: z.string(),
+  type: z.enum(["float", "drop", "add"]), // A session has at most one opening float
+  amount: positiveMoneyAmountSchema,
+  notes: z.string().optional(),
+});
+export type AddCashMovementRequest = z.infer<typeof addCashMovementRequestSchema>;
+export const addCashMovementResponseSchema = z.object({
+  movement: cashMovementSchema,
+});
+export type AddCashMovementResponse = z.infer<typeof addCashMovementResponseSchema>;
+
+// GET /api/cash/movements/:sessionId - Get all cash movements for a session
+export const getCashMovementsResponseSchema = z.object({
+  movements: z.array(cashMovementSchema),
+});
+export type GetCashMovementsResponse = z.infer<typeof getCashMovementsResponseSchema>;
+
+// PUT /api/cash/movements/:id - Update a cash movement
+export const updateCashMovementRequestSchema = z.object({
+  amount: positiveMoneyAmountSchema,
+  notes: z.string().optional(),
+});
+export type UpdateCashMovementRequest = z.infer<typeof updateCashMovementRequestSchema>;
+export const updateCashMovementResponseSchema = z.object({
+  movement: cashMovementSchema,
+});
+export type UpdateCashMovementResponse = z.infer<typeof updateCashMovementResponseSchema>;
+
+// DELETE /api/cash/movements/:id - Delete a cash movement
+export const deleteCashMovementResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteCashMovementResponse = z.infer<typeof deleteCashMovementResponseSchema>;
+
+// ============================================
+// CHIP BANK CONTRACTS
+// ============================================
+// Chips in play = buy-ins - cashouts - rake - tips - jackpot drops
+// (chips are sold and redeemed whatever the payment method)
+
+export const chipBankItemSchema = z.object({
+  value: z.number(), // Face value in the session currency
+  quantity: z.number(),
+  color: z.string().nullable(),
+});
+export type ChipBankItem = z.infer<typeof chipBankItemSchema>;
+
+export const chipBankSchema = z.object({
+  items: z.array(chipBankItemSchema), // Largest denomination first
+  bankTotal: z.number(),
+  chipsInPlay: z.number(),
+});
+export type ChipBank = z.infer<typeof chipBankSchema>;
+
+// GET /api/chips/:sessionId - Get the chip bank and chips in play
+export const getChipBankResponseSchema = chipBankSchema;
+export type GetChipBankResponse = z.infer<typeof getChipBankResponseSchema>;
+
+// PUT /api/chips/:sessionId - Replace the chip bank
+export const setChipBankRequestSchema = z.object({
+  items: z.array(z.object({
+    value: positiveMoneyAmountSchema,
+    quantity: z.number().int().min(0),
+    color: z.string().optional(),
+  })),
+});
+export type SetChipBankRequest = z.infer<typeof setChipBankRequestSchema>;
+export const setChipBankResponseSchema = chipBankSchema;
+export type SetChipBankResponse = z.infer<typeof setChipBankResponseSchema>;
+
+// GET /api/chips/:sessionId/reconciliation - End-of-game chip reconciliation
+export const chipReconciliationSchema = z.object({
+  bankTotal: z.number(),
+  chipsSold: z.number(), // Total buy-ins
+  chipsRedeemed: z.number(), // Total cashouts
+  chipsRaked: z.number(), // Dropbox count, else dealer-reported rake
+  chipsTipped: z.number(), // Dealer tips
+  chipsDropped: z.number(), // Jackpot drops
+  chipsInPlay: z.number(),
+  chipsInBank: z.number(), // What should be left in the chip bank
+  status: z.enum(["balanced", "chips-outstanding", "over-redeemed"]),
+  players: z.array(z.object({
+    playerId: z.string().nullable(),
+    playerName: z.string(),
+    chipsBought: z.number(),
+    chipsRedeemed: z.number(),
+    chipsInPlay: z.number(), // Chips this player still holds (negative = cashed out more than bought)
+  })),
+});
+export type ChipReconciliation = z.infer<typeof chipReconciliationSchema>;
+export const getChipReconciliationResponseSchema = z.object({
+  reconciliation: chipReconciliationSchema,
+});
+export type GetChipReconciliationResponse = z.infer<typeof getChipReconciliationResponseSchema>;
+
+// ============================================
+// TILL COUNT CONTRACTS
+// ============================================
+
+export const denominationSchema = z.object({
+  value: z.number(), // Major units (20 = a $20 bill)
+  kind: z.enum(["bill", "coin"]),
+});
+export type Denomination = z.infer<typeof denominationSchema>;
+
+export const tillCountItemSchema = z.object({
+  value: z.number(),
+  quantity: z.number(),
+  subtotal: z.number(),
+});
+export type TillCountItem = z.infer<typeof tillCountItemSchema>;
+
+export const tillCountSchema = z.object({
+  id: z.string(),
+  total: z.number(),
+  expected: z.number(), // Ledger till balance when the count was taken
+  variance: z.number(), // total - expected, negative = till is short
+  isClosing: z.boolean(),
+  notes: z.string().nullable(),
+  countedAt: z.string(),
+  gameSessionId: z.string(),
+  createdByInitials: z.string().nullable(),
+  items: z.array(tillCountItemSchema),
+});
+export type TillCount = z.infer<typeof tillCountSchema>;
+
+// GET /api/till/denominations/:sessionId - Bills and coins of the session currency
+export const getDenominationsResponseSchema = z.object({
+  currency: z.string(),
+  denominations: z.array(denominationSchema),
+});
+export type GetDenominationsResponse = z.infer<typeof getDenominationsResponseSchema>;
+
+// GET /api/till/:sessionId/counts - Timeline of till counts for a session
+export const getTillCountsResponseSchema = z.object({
+  counts: z.array(tillCountSchema), // Oldest first
+  closingCount: tillCountSchema.nullable(),
+});
+export type GetTillCountsResponse = z.infer<typeof getTillCountsResponseSchema>;
+
+// POST /api/till/counts - Record a till count
+export const addTillCountRequestSchema = z.object({
+  gameSessionId: z.string(),
+  items: z.array(z.object({
+    value: positiveMoneyAmountSchema, // Must be one of the session currency's denominations
+    quantity: z.number().int().min(0),
+  })).min(1),
+  isClosing: z.boolean().optional().default(false), // Replaces any earlier closing count
+  notes: z.string().optional(),
+});
+export type AddTillCountRequest = z.infer<typeof addTillCountRequestSchema>;
+export const addTillCountResponseSchema = z.object({
+  count: tillCountSchema,
+});
+export type AddTillCountResponse = z.infer<typeof addTillCountResponseSchema>;
+
+// DELETE /api/till/counts/:id - Delete a till count
+export const deleteTillCountResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteTillCountResponse = z.infer<typeof deleteTillCountResponseSchema>;
+
+// ============================================
+// SETTLEMENT CONTRACTS
+// ============================================
+// Electronic transfers that settle a game: electronic buy-ins are collected and
+// electronic cashouts paid out at the end of the night.
+
+export const settlementModeSchema = z.enum(["bank", "peer-to-peer"]); // bank = everyone settles with the house
+export type SettlementMode = z.infer<typeof settlementModeSchema>;
+
+export const settlementPartySchema = z.object({
+  playerId: z.string().nullable(), // null = the house
+  name: z.string(),
+  isHouse: z.boolean(),
+});
+export type SettlementParty = z.infer<typeof settlementPartySchema>;
+
+export const settlementTransferSchema = z.object({
+  id: z.string(),
+  mode: settlementModeSchema,
+  from: settlementPartySchema,
+  to: settlementPartySchema,
+  amount: z.number(),
+  completed: z.boolean(),
+  completedAt: z.string().nullable(),
+  createdAt: z.string(),
+  gameSessionId: z.string(),
+});
+export type SettlementTransfer = z.infer<typeof settlementTransferSchema>;
+
+// GET /api/settlements/:sessionId - Get the settlement transfers for a game
+export const getSettlementResponseSchema = z.object({
+  transfers: z.array(settlementTransferSchema),
+});
+export type GetSettlementResponse = z.infer<typeof getSettlementResponseSchema>;
+
+// POST /api/settlements/:sessionId - Work out the transfers still needed (completed ones are kept)
+// Peer-to-peer plans use the fewest transfers for up to 16 parties (players plus the house);
+// larger games get a greedy plan that may need a few more
+export const planSettlementRequestSchema = z.object({
+  mode: settlementModeSchema.optional().default("peer-to-peer"),
+});
+export type PlanSettlementRequest = z.infer<typeof planSettlementRequestSchema>;
+export const planSettlementResponseSchema = z.object({
+  transfers: z.array(settlementTransferSchema),
+});
+export type PlanSettlementResponse = z.infer<typeof planSettlementResponseSchema>;
+
+// PUT /api/settlements/transfer/:id - Mark a transfer as completed (or not)
+export const updateSettlementTransferRequestSchema = z.object({
+  completed: z.boolean(),
+});
+export type UpdateSettlementTransferRequest = z.infer<typeof updateSettlementTransferRequestSchema>;
+export const updateSettlementTransferResponseSchema = z.object({
+  transfer: settlementTransferSchema,
+});
+export type UpdateSettlementTransferResponse = z.infer<typeof updateSettlementTransferResponseSchema>;
+
+// ============================================
+// CREDIT (RECEIVABLES) CONTRACTS
+// ============================================
+// Unpaid credit is carried forward out of each ended game as a "marker";
+// "repayment" entries pay markers down oldest-first.
+
+export const creditEntrySchema = z.object({
+  id: z.string(),
+  type: z.enum(["marker", "repayment"]),
+  amount: z.number(),
+  currency: z.string(),
+  method: z.enum(["cash", "electronic"]).nullable(), // Repayments only
+  notes: z.string().nullable(),
+  occurredAt: z.string(),
+  playerId: z.string(),
+  gameSessionId: z.string().nullable(), // Game the marker came from / the repayment was taken in
+  createdByInitials: z.string().nullable(),
+});
+export type CreditEntry = z.infer<typeof creditEntrySchema>;
+
+export const creditAgingSchema = z.object({
+  days0to7: z.number(),
+  days8to30: z.number(),
+  days30plus: z.number(),
+});
+export type CreditAging = z.infer<typeof creditAgingSchema>;
+
+export const debtorSchema = z.object({
+  player: playerSchema,
+  currency: z.string(),
+  balance: z.number(),
+  aging: creditAgingSchema,
+  oldestOutstandingAt: z.string().nullable(),
+  lastRepaymentAt: z.string().nullable(),
+});
+export type Debtor = z.infer<typeof debtorSchema>;
+
+// GET /api/credit/debtors - Everyone who still owes the host, largest balance first
+export const getDebtorsResponseSchema = z.object({
+  debtors: z.array(debtorSchema),
+});
+export type GetDebtorsResponse = z.infer<typeof getDebtorsResponseSchema>;
+
+// GET /api/credit/players/:playerId - A player's credit history and balances
+export const getPlayerCreditResponseSchema = z.object({
+  player: playerSchema,
+  entries: z.array(creditEntrySchema),
+  balances: z.array(debtorSchema.omit({ player: true })), // One per currency
+});
+export type GetPlayerCreditResponse = z.infer<typeof getPlayerCreditResponseSchema>;
+
+// POST /api/credit/repayments - Record a repayment of carried credit (never more than the outstanding balance)
+export const addCreditRepaymentRequestSchema = z.object({
+  playerId: z.string(),
+  amount: positiveMoneyAmountSchema,
+  method: z.enum(["cash", "electronic"]),
+  gameSessionId: z.string().optional(), // Taken during this game - cash counts in its till
+  currency: z.string().optional(), // Must match the game's currency; defaults to it, else the player's markers
+  notes: z.string().optional(),
+});
+export type AddCreditRepaymentRequest = z.infer<typeof addCreditRepaymentRequestSchema>;
+export const addCreditRepaymentResponseSchema = z.object({
+  entry: creditEntrySchema,
+  balance: z.number(),
+});
+export type AddCreditRepaymentResponse = z.infer<typeof addCreditRepaymentResponseSchema>;
+
+// DELETE /api/credit/entries/:id - Delete a credit entry
+export const deleteCreditEntryResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type DeleteCreditEntryResponse = z.infer<typeof deleteCreditEntryResponseSchema>;
+
 // ============================================
 // AI TILL ANALYST CONTRACTS
 // ============================================
@@ -283,7 +2229,11 @@ export type UpdateExpenseResponse = z.infer<typeof updateExpenseResponseSchema>;
 // POST /api/ai/analyze-till - AI analysis of till discrepancy
 export const analyzeTillRequestSchema = z.object({
   sessionId: z.string(),
-  actualTillAmount: z.number(),
+  actualTillAmount: moneyAmountSchema.optional(),
+  tillCountId: z.string().optional(), // Analyze a recorded till count instead of a typed amount
+}).refine((data) => data.actualTillAmount !== undefined || data.tillCountId !== undefined, {
+  message: "Either actualTillAmount or tillCountId is required",
+  path: ["actualTillAmount"],
 });
 export type AnalyzeTillRequest = z.infer<typeof analyzeTillRequestSchema>;
 
@@ -21,6 +21,20 @@ import { dealersRouter } from "./routes/dealers";
 import { expensesRouter } from "./routes/expenses";
 import { shareRouter } from "./routes/share";
 import { aiRouter } from "./routes/ai";
+import { creditRouter } from "./routes/credit";
+import { settlementsRouter } from "./routes/settlements";
+import { tillRouter } from "./routes/till";
+import { cashRouter } from "./routes/cash";
+import { chipsRouter } from "./routes/chips";
+import { tablesRouter } from "./routes/tables";
+import { rotationRouter } from "./routes/rotation";
+import { rakeRouter } from "./routes/rake";
+import { timeRouter } from "./routes/time";
+import { tournamentsRouter } from "./routes/tournaments";
+import { clockRouter } from "./routes/clock";
+import { jackpotsRouter } from "./routes/jackpots";
+import { costsRouter } from "./routes/costs";
+import { concessionsRouter } from "./routes/concessions";
 import { type AppType } from "./types";
 
 // AppType context adds user and session to the context, will be null if the user or session is null
@@ -97,6 +111,48 @@ app.route("/api/share", shareRouter);
 console.log("🤖 Mounting AI routes at /api/ai");
 app.route("/api/ai", aiRouter);
 
+console.log("🧾 Mounting credit routes at /api/credit");
+app.route("/api/credit", creditRouter);
+
+console.log("🤝 Mounting settlement routes at /api/settlements");
+app.route("/api/settlements", settlementsRouter);
+
+console.log("🧮 Mounting till routes at /api/till");
+app.route("/api/till", tillRouter);
+
+console.log("💵 Mounting cash routes at /api/cash");
+app.route("/api/cash", cashRouter);
+
+console.log("🪙 Mounting chip routes at /api/chips");
+app.route("/api/chips", chipsRouter);
+
+console.log("🃏 Mounting table routes at /api/tables");
+app.route("/api/tables", tablesRouter);
+
+console.log("🔄 Mounting rotation routes at /api/rotation");
+app.route("/api/rotation", rotationRouter);
+
+console.log("📐 Mounting rake routes at /api/rake");
+app.route("/api/rake", rakeRouter);
+
+console.log("⏱️ Mounting time collection routes at /api/time");
+app.route("/api/time", timeRouter);
+
+console.log("🏆 Mounting tournament routes at /api/tournaments");
+app.route("/api/tournaments", tournamentsRouter);
+
+console.log("⏰ Mounting blind clock routes at /api/clock");
+app.route("/api/clock", clockRouter);
+
+console.log("🎰 Mounting jackpot routes at /api/jackpots");
+app.route("/api/jackpots", jackpotsRouter);
+
+console.log("🏢 Mounting venue cost routes at /api/costs");
+app.route("/api/costs", costsRouter);
+
+console.log("🍔 Mounting concession routes at /api/concessions");
+app.route("/api/concessions", concessionsRouter);
+
 // Health check endpoint
 // Used by load balancers and monitoring tools to verify service is running
 app.get("/health", (c) => {
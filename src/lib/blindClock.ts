@@ -0,0 +1,54 @@
+// ============================================
+// Blind clock
+// ============================================
+// The server owns the tournament clock so every device shows the same time.
+// Only the last pause is stored (level and time into it) along with when the
+// clock was set running; where the clock is now is worked out from that on
+// every read, rolling over into later levels as their time runs out. The
+// clock stops by itself at the end of the last level.
+//
+// Usage:
+//   const position = clockPosition(clock.levels, clock, new Date());
+//   await db.blindClock.update({ where: { id }, data: pausedAt(position) });
+import { type BlindClock, type BlindLevel } from "../../generated/prisma";
+
+export type ClockPosition = {
+  levelIndex: number;
+  elapsedMs: number; // Time into the level
+  remainingMs: number;
+  finished: boolean; // Ran past the end of the last level
+};
+
+const levelMs = (level: Pick<BlindLevel, "minutes">) => level.minutes * 60_000;
+
+/**
+ * Where the clock is at a given time
+ */
+export function clockPosition(
+  levels: Pick<BlindLevel, "minutes">[],
+  clock: Pick<BlindClock, "currentLevel" | "elapsedMs" | "runningSince">,
+  now: Date,
+): ClockPosition {
+  if (levels.length === 0) return { levelIndex: 0, elapsedMs: 0, remainingMs: 0, finished: true };
+
+  let levelIndex = Math.min(clock.currentLevel, levels.length - 1);
+  let elapsedMs = clock.elapsedMs + (clock.runningSince ? Math.max(0, now.getTime() - clock.runningSince.getTime()) : 0);
+
+  // Roll over into the next level each time one runs out
+  while (elapsedMs >= levelMs(levels[levelIndex]!)) {
+    if (levelIndex === levels.length - 1) {
+      return { levelIndex, elapsedMs: levelMs(levels[levelIndex]!), remainingMs: 0, finished: true };
+    }
+    elapsedMs -= levelMs(levels[levelIndex]!);
+    levelIndex += 1;
+  }
+
+  return { levelIndex, elapsedMs, remainingMs: levelMs(levels[levelIndex]!) - elapsedMs, finished: false };
+}
+
+/**
+ * The stored clock fields for a clock stopped at a position
+ */
+export function pausedAt(position: ClockPosition): Pick<BlindClock, "currentLevel" | "elapsedMs" | "runningSince"> {
+  return { currentLevel: position.levelIndex, elapsedMs: Math.round(position.elapsedMs), runningSince: null };
+}
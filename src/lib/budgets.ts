@@ -0,0 +1,91 @@
+// ============================================
+// Expense budgets
+// ============================================
+// Spend against each expense category's monthly budget across a host's games.
+// Expenses belong to the month their game started (UTC), like payroll, and
+// games in different currencies are never added together - a budget only
+// covers spend in its own currency, other currencies get a line without one.
+// Categories with no budget and no spend in a month are left out.
+// Pure - minor units in and out.
+//
+// Usage:
+//   const lines = budgetReport(categories, sessions, monthsBetween(from, to));
+import { type Expense, type ExpenseCategory, type GameSession } from "../../generated/prisma";
+
+export type BudgetSession = Pick<GameSession, "currency" | "startedAt"> & {
+  expenses: Pick<Expense, "categoryId" | "amount">[];
+};
+
+export type BudgetLine = {
+  month: string; // YYYY-MM
+  categoryId: string;
+  currency: string;
+  spent: number;
+  budget: number | null;
+  remaining: number | null; // Negative when over budget
+};
+
+/**
+ * The month (YYYY-MM, UTC) a date falls in
+ */
+export function monthOf(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Every month from one YYYY-MM to another, inclusive
+ */
+export function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  const cursor = new Date(`${from}-01T00:00:00.000Z`);
+  while (monthOf(cursor) <= to) {
+    months.push(monthOf(cursor));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+}
+
+/**
+ * Spend vs budget per month, category and currency - in month order, then the categories' order
+ */
+export function budgetReport(
+  categories: Pick<ExpenseCategory, "id" | "monthlyBudget" | "budgetCurrency">[],
+  sessions: BudgetSession[],
+  months: string[],
+): BudgetLine[] {
+  // month -> category -> currency -> spent
+  const spent = new Map<string, Map<string, Map<string, number>>>();
+  for (const session of sessions) {
+    const month = monthOf(session.startedAt);
+    for (const e of session.expenses) {
+      const byCategory = spent.get(month) ?? new Map<string, Map<string, number>>();
+      const byCurrency = byCategory.get(e.categoryId) ?? new Map<string, number>();
+      byCurrency.set(session.currency, (byCurrency.get(session.currency) ?? 0) + e.amount);
+      byCategory.set(e.categoryId, byCurrency);
+      spent.set(month, byCategory);
+    }
+  }
+
+  const lines: BudgetLine[] = [];
+  for (const month of months) {
+    for (const category of categories) {
+      const byCurrency = new Map(spent.get(month)?.get(category.id));
+      const budgetCurrency = category.monthlyBudget !== null ? category.budgetCurrency : null;
+      if (budgetCurrency && !byCurrency.has(budgetCurrency)) byCurrency.set(budgetCurrency, 0);
+
+      for (const currency of [...byCurrency.keys()].sort()) {
+        const amount = byCurrency.get(currency)!;
+        const budget = currency === budgetCurrency ? category.monthlyBudget : null;
+        lines.push({
+          month,
+          categoryId: category.id,
+          currency,
+          spent: amount,
+          budget,
+          remaining: budget !== null ? budget - amount : null,
+        });
+      }
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { needsNewSettlement, settlementAddsUp } from "./cashouts";
+
+const unsettled = { amount: 8000, cashPaid: null, electronicPaid: null, creditOffset: null, tabOffset: null };
+const settled = { amount: 8000, cashPaid: 5000, electronicPaid: 0, creditOffset: 2500, tabOffset: 500 };
+
+describe("settlementAddsUp", () => {
+  test.each<[string, number, boolean]>([
+    ["every part counted", 8000, true],
+    ["short of the cashout", 9000, false],
+    ["more than the cashout", 7000, false],
+  ])("%s", (_, amount, expected) => {
+    expect(settlementAddsUp({ cashPaid: 5000, electronicPaid: 0, creditOffset: 2500, tabOffset: 500 }, amount)).toBe(expected);
+  });
+});
+
+describe("editing a cashout's amount", () => {
+  test.each<[string, typeof settled | typeof unsettled, number, boolean]>([
+    ["an unsettled cashout can change freely", unsettled, 9000, false],
+    ["a settled cashout keeps its amount", settled, 8000, false],
+    ["a settled cashout can't grow without a new settlement", settled, 9000, true],
+    ["a settled cashout can't shrink without a new settlement", settled, 6000, true],
+  ])("%s", (_, cashout, amount, expected) => {
+    expect(needsNewSettlement(cashout, amount)).toBe(expected);
+  });
+});
@@ -0,0 +1,42 @@
+// ============================================
+// Cashout settlement
+// ============================================
+// How a cashout was paid: cash from the till, sent electronically, applied
+// against the player's credit buy-ins, or netted against their concession
+// tab. The parts must always add up to the cashout, so a settled cashout
+// can't change amount without a new settlement.
+// Pure - minor units in and out.
+//
+// Usage:
+//   if (!settlementAddsUp(settlement, amount)) return c.json({ error }, 400);
+//   if (!settlement && needsNewSettlement(existingTransaction, amount)) return c.json({ error }, 400);
+import { type PlayerTransaction } from "../../generated/prisma";
+
+type SettlementParts = Pick<PlayerTransaction, "cashPaid" | "electronicPaid" | "creditOffset" | "tabOffset">;
+
+/**
+ * Whether a settlement accounts for every chip cashed out
+ */
+export function settlementAddsUp(
+  settlement: { cashPaid: number; electronicPaid: number; creditOffset: number; tabOffset: number },
+  amount: number,
+): boolean {
+  return settlement.cashPaid + settlement.electronicPaid + settlement.creditOffset + settlement.tabOffset === amount;
+}
+
+/**
+ * Whether changing a cashout to a new amount leaves its recorded settlement short or over
+ */
+export function needsNewSettlement(cashout: SettlementParts & Pick<PlayerTransaction, "amount">, amount: number): boolean {
+  const settled = cashout.cashPaid !== null || cashout.electronicPaid !== null || cashout.creditOffset !== null || cashout.tabOffset !== null;
+  if (!settled || amount === cashout.amount) return false;
+  return !settlementAddsUp(
+    {
+      cashPaid: cashout.cashPaid ?? 0,
+      electronicPaid: cashout.electronicPaid ?? 0,
+      creditOffset: cashout.creditOffset ?? 0,
+      tabOffset: cashout.tabOffset ?? 0,
+    },
+    amount,
+  );
+}
@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { chipsOffTable, reconcileChips } from "./chips";
+
+const bank = [{ value: 100, quantity: 100 }];
+const transactions = [
+  { type: "buy-in", amount: 5000 },
+  { type: "buy-in", amount: 3000 },
+  { type: "cashout", amount: 6500 },
+];
+
+describe("reconcileChips", () => {
+  test.each<[string, { rake: number; tips: number; jackpotDrops: number }, number, string]>([
+    ["chips still with the players", { rake: 0, tips: 0, jackpotDrops: 0 }, 1500, "chips-outstanding"],
+    ["everything left the table as rake, tips and drops", { rake: 1000, tips: 300, jackpotDrops: 200 }, 0, "balanced"],
+    ["more taken off the table than was left", { rake: 1000, tips: 600, jackpotDrops: 200 }, -300, "over-redeemed"],
+  ])("%s", (_, offTable, inPlay, status) => {
+    const report = reconcileChips(bank, transactions, offTable);
+    expect(report.chipsInPlay).toBe(inPlay);
+    expect(report.status).toBe(status as typeof report.status);
+    expect(report.chipsInBank).toBe(8500);
+  });
+});
+
+describe("chipsOffTable", () => {
+  const downs = [{ tips: 200, rake: 700 }, { tips: 100, rake: 400 }];
+  const entries = [{ type: "drop", amount: 150 }, { type: "payout", amount: 5000 }, { type: "drop", amount: 50 }];
+
+  test("dealer-reported rake until the dropbox is counted", () => {
+    expect(chipsOffTable({ totalRake: 0, dealerDowns: downs, jackpotEntries: entries })).toEqual({
+      rake: 1100,
+      tips: 300,
+      jackpotDrops: 200,
+    });
+    expect(chipsOffTable({ totalRake: 1000, dealerDowns: downs, jackpotEntries: entries }).rake).toBe(1000);
+  });
+});
@@ -0,0 +1,142 @@
+// ============================================
+// Chip bank
+// ============================================
+// Chips are sold on buy-ins and redeemed on cashouts, whatever the payment
+// method. Rake, dealer tips and jackpot drops also leave the table - into the
+// dropbox and the dealers' boxes - so chips in play = buy-ins - cashouts -
+// rake - tips - jackpot drops. The chip bank is what the host issued for the
+// game; chips in play can never exceed it and should be back to zero once
+// every player has cashed out. Pure - minor units in and out (warning
+// messages are worded in the session currency).
+//
+// Usage:
+//   const offTable = chipsOffTable(session);
+//   const warnings = chipWarnings(session.playerTransactions, offTable, bankTotal(session.chipBank), { type, amount }, currency);
+//   const report = reconcileChips(session.chipBank, session.playerTransactions, offTable);
+import {
+  type ChipBankItem,
+  type DealerDown,
+  type GameSession,
+  type JackpotEntry,
+  type PlayerTransaction,
+} from "../../generated/prisma";
+import { type ChipWarning } from "@/shared/contracts";
+import { fundMovement } from "./jackpots";
+import { fromMinorUnits } from "./money";
+
+type ChipTransaction = Pick<PlayerTransaction, "type" | "amount">;
+
+// Chips taken out of pots rather than cashed out
+export type ChipsOffTable = {
+  rake: number;
+  tips: number;
+  jackpotDrops: number;
+};
+
+const NOTHING_OFF_TABLE: ChipsOffTable = { rake: 0, tips: 0, jackpotDrops: 0 };
+
+export type ChipReconciliation = {
+  bankTotal: number;
+  chipsSold: number;
+  chipsRedeemed: number;
+  chipsRaked: number;
+  chipsTipped: number;
+  chipsDropped: number; // Into jackpot funds
+  chipsInPlay: number;
+  chipsInBank: number; // What should be left in the chip bank right now
+  status: "balanced" | "chips-outstanding" | "over-redeemed";
+};
+
+/**
+ * Face value of every chip issued for the game
+ */
+export function bankTotal(bank: Pick<ChipBankItem, "value" | "quantity">[]): number {
+  return bank.reduce((sum, item) => sum + item.value * item.quantity, 0);
+}
+
+/**
+ * Rake, tips and jackpot drops taken off the table
+ * Rake is the dropbox count when there is one, else what the dealers reported - as in the ledger
+ */
+export function chipsOffTable(
+  session: Pick<GameSession, "totalRake"> & {
+    dealerDowns: Pick<DealerDown, "tips" | "rake">[];
+    jackpotEntries: Pick<JackpotEntry, "type" | "amount">[];
+  },
+): ChipsOffTable {
+  const dealerRake = session.dealerDowns.reduce((sum, d) => sum + d.rake, 0);
+  return {
+    rake: session.totalRake > 0 ? session.totalRake : dealerRake,
+    tips: session.dealerDowns.reduce((sum, d) => sum + d.tips, 0),
+    jackpotDrops: fundMovement(session.jackpotEntries).drops,
+  };
+}
+
+/**
+ * Chips currently in players' hands
+ */
+export function chipsInPlay(transactions: ChipTransaction[], offTable: ChipsOffTable = NOTHING_OFF_TABLE): number {
+  const traded = transactions.reduce(
+    (sum, t) => sum + (t.type === "buy-in" ? t.amount : t.type === "cashout" ? -t.amount : 0),
+    0,
+  );
+  return traded - offTable.rake - offTable.tips - offTable.jackpotDrops;
+}
+
+/**
+ * Warnings for a transaction about to be recorded - these never block it
+ */
+export function chipWarnings(
+  transactions: ChipTransaction[],
+  offTable: ChipsOffTable,
+  bank: number,
+  transaction: ChipTransaction,
+  currency: string,
+): ChipWarning[] {
+  const major = (minor: number) => fromMinorUnits(minor, currency);
+  const inPlay = chipsInPlay(transactions, offTable);
+  const outOfBank = chipsInPlay(transactions); // Raked, tipped and dropped chips haven't gone back either
+
+  if (transaction.type === "cashout" && transaction.amount > inPlay) {
+    return [{
+      code: "cashout-exceeds-chips-in-play",
+      message: `Cashout is ${major(transaction.amount - inPlay)} more than the ${major(inPlay)} in chips in play`,
+    }];
+  }
+  // Only once the host has set up a chip bank
+  if (transaction.type === "buy-in" && bank > 0 && outOfBank + transaction.amount > bank) {
+    return [{
+      code: "buy-in-exceeds-chip-bank",
+      message: `Chips out of the bank would be ${major(outOfBank + transaction.amount - bank)} more than the ${major(bank)} chip bank`,
+    }];
+  }
+  return [];
+}
+
+/**
+ * End-of-game chip reconciliation
+ * Outstanding chips mean a cashout is missing; over-redeemed means more was cashed out than sold
+ * (or rake, tips or drops were over-reported)
+ */
+export function reconcileChips(
+  bank: Pick<ChipBankItem, "value" | "quantity">[],
+  transactions: ChipTransaction[],
+  offTable: ChipsOffTable,
+): ChipReconciliation {
+  const chipsSold = transactions.filter((t) => t.type === "buy-in").reduce((sum, t) => sum + t.amount, 0);
+  const chipsRedeemed = transactions.filter((t) => t.type === "cashout").reduce((sum, t) => sum + t.amount, 0);
+  const inPlay = chipsInPlay(transactions, offTable);
+  const total = bankTotal(bank);
+
+  return {
+    bankTotal: total,
+    chipsSold,
+    chipsRedeemed,
+    chipsRaked: offTable.rake,
+    chipsTipped: offTable.tips,
+    chipsDropped: offTable.jackpotDrops,
+    chipsInPlay: inPlay,
+    chipsInBank: total - chipsSold + chipsRedeemed, // Raked, tipped and dropped chips are in the boxes, not the bank
+    status: inPlay === 0 ? "balanced" : inPlay > 0 ? "chips-outstanding" : "over-redeemed",
+  };
+}
@@ -0,0 +1,72 @@
+// ============================================
+// Concessions
+// ============================================
+// Food and drinks sold to players. A sale is paid at once - cash into the
+// till or electronic - or goes on the player's tab. A tab is settled later in
+// cash or electronically, or netted against the player's cashout (the chips
+// for it stay in the till, so less cash is paid out). Sales count as revenue
+// when made, tab or not; their cost of goods is shown separately.
+// Pure - minor units in and out.
+//
+// Usage:
+//   const totals = concessionTotals(session.concessionSales);
+//   const tabs = openTabs(session.concessionSales);
+import { type ConcessionSale } from "../../generated/prisma";
+
+type SaleAmounts = Pick<ConcessionSale, "quantity" | "unitPrice" | "unitCost" | "settledAt" | "settledMethod">;
+
+export type ConcessionTotals = {
+  sales: number;
+  costOfGoods: number;
+  cashSales: number; // Paid into the till - at the sale, or when a tab was settled in cash
+  openTabs: number;
+};
+
+export type OpenTab = {
+  playerId: string | null;
+  playerName: string;
+  amount: number;
+  saleIds: string[];
+};
+
+/**
+ * What a sale charged the player
+ */
+export function saleAmount(sale: Pick<ConcessionSale, "quantity" | "unitPrice">): number {
+  return sale.quantity * sale.unitPrice;
+}
+
+/**
+ * Revenue, cost of goods, cash taken and what's still on tabs
+ */
+export function concessionTotals(sales: SaleAmounts[]): ConcessionTotals {
+  return sales.reduce(
+    (totals, s) => {
+      totals.sales += saleAmount(s);
+      totals.costOfGoods += s.quantity * s.unitCost;
+      if (s.settledMethod === "cash") totals.cashSales += saleAmount(s);
+      if (!s.settledAt) totals.openTabs += saleAmount(s);
+      return totals;
+    },
+    { sales: 0, costOfGoods: 0, cashSales: 0, openTabs: 0 },
+  );
+}
+
+/**
+ * Each player's open tab, largest first
+ */
+export function openTabs(
+  sales: Pick<ConcessionSale, "id" | "quantity" | "unitPrice" | "settledAt" | "playerId" | "playerName">[],
+): OpenTab[] {
+  const tabs = new Map<string, OpenTab>();
+  sales
+    .filter((s) => !s.settledAt && s.playerName)
+    .forEach((s) => {
+      const key = s.playerId ?? `name:${s.playerName!.trim().toLowerCase()}`;
+      const tab = tabs.get(key) ?? { playerId: s.playerId, playerName: s.playerName!, amount: 0, saleIds: [] };
+      tab.amount += saleAmount(s);
+      tab.saleIds.push(s.id);
+      tabs.set(key, tab);
+    });
+  return Array.from(tabs.values()).sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,91 @@
+// ============================================
+// Venue cost allocation
+// ============================================
+// Rent, new cards and chip purchases aren't spent in any one game, so each
+// game's ledger profit (its contribution margin) leaves them out. Here they're
+// shared out across the host's games: a monthly cost over the games started
+// in each month it runs, a one-off cost over the games started in its month.
+// Only games in the cost's currency take a share. The split is even, by hours
+// played, or by rake; when every game weighs nothing (no rake yet) it falls
+// back to even. A cost in a month with no games stays unallocated - it still
+// comes off the month's fully-loaded profit.
+// Pure - minor units in and out.
+//
+// Usage:
+//   const { shares, unallocated } = allocateCosts(costs, sessions, monthsBetween(from, to), new Date());
+import { type VenueCost } from "../../generated/prisma";
+import { monthOf } from "./budgets";
+import { allocateByWeight } from "./money";
+
+export type AllocationCost = Pick<
+  VenueCost,
+  "id" | "amount" | "currency" | "frequency" | "allocation" | "startMonth" | "endMonth"
+>;
+
+export type AllocationSession = {
+  id: string;
+  currency: string;
+  startedAt: Date;
+  endedAt: Date | null; // Still running games count up to now
+  rake: number; // Minor units
+};
+
+export type CostShare = {
+  costId: string;
+  sessionId: string;
+  month: string;
+  amount: number;
+};
+
+export type UnallocatedCost = {
+  costId: string;
+  month: string;
+  currency: string;
+  amount: number;
+};
+
+/**
+ * Whether a cost is charged in a month (YYYY-MM)
+ */
+export function chargedIn(cost: Pick<VenueCost, "frequency" | "startMonth" | "endMonth">, month: string): boolean {
+  if (cost.frequency === "one-off") return month === cost.startMonth;
+  return month >= cost.startMonth && (!cost.endMonth || month <= cost.endMonth);
+}
+
+function sessionWeight(allocation: string, session: AllocationSession, now: Date): number {
+  if (allocation === "hours") return Math.max(0, (session.endedAt ?? now).getTime() - session.startedAt.getTime());
+  if (allocation === "rake") return Math.max(0, session.rake);
+  return 1;
+}
+
+/**
+ * Share every cost charged in the given months across the games started in those months
+ */
+export function allocateCosts(
+  costs: AllocationCost[],
+  sessions: AllocationSession[],
+  months: string[],
+  now: Date,
+): { shares: CostShare[]; unallocated: UnallocatedCost[] } {
+  const shares: CostShare[] = [];
+  const unallocated: UnallocatedCost[] = [];
+
+  for (const month of months) {
+    for (const cost of costs.filter((c) => chargedIn(c, month))) {
+      const games = sessions.filter((s) => s.currency === cost.currency && monthOf(s.startedAt) === month);
+      if (games.length === 0) {
+        unallocated.push({ costId: cost.id, month, currency: cost.currency, amount: cost.amount });
+        continue;
+      }
+
+      let weights = games.map((s) => sessionWeight(cost.allocation, s, now));
+      if (weights.every((w) => w === 0)) weights = games.map(() => 1);
+
+      allocateByWeight(cost.amount, weights).forEach((amount, i) => {
+        shares.push({ costId: cost.id, sessionId: games[i]!.id, month, amount });
+      });
+    }
+  }
+
+  return { shares, unallocated };
+}
@@ -0,0 +1,35 @@
+// ============================================
+// Dealer roster
+// ============================================
+// Every dealer down belongs to a dealer on the host's roster. Names typed at
+// the table are matched to an existing dealer or add a new tips-only dealer.
+//
+// Usage:
+//   const dealerId = await resolveDealerId(gameSession.userId, data.dealerName, data.dealerId);
+import { db } from "../db";
+import { normalizePlayerName } from "./playerMatching";
+
+/**
+ * Link a dealer down to the host's roster dealer:
+ * the explicit dealerId, else a dealer whose name/nickname matches, else a new dealer.
+ * Returns null when an explicit dealerId isn't on the host's roster.
+ */
+export async function resolveDealerId(hostId: string, dealerName: string, dealerId?: string): Promise<string | null> {
+  if (dealerId) {
+    const dealer = await db.dealer.findFirst({ where: { id: dealerId, userId: hostId } });
+    return dealer?.id ?? null;
+  }
+
+  const typed = normalizePlayerName(dealerName);
+  const dealers = await db.dealer.findMany({ where: { userId: hostId } });
+  const match = dealers.find((d) =>
+    [d.name, d.nickname].some((n) => !!n && normalizePlayerName(n) === typed),
+  );
+  if (match) return match.id;
+
+  const created = await db.dealer.create({
+    data: { name: dealerName.trim(), userId: hostId },
+  });
+  console.log(`🎲 [Dealers] Added new dealer to roster: ${created.name} (${created.id})`);
+  return created.id;
+}
@@ -0,0 +1,55 @@
+// ============================================
+// Cash denominations
+// ============================================
+// The bills and coins a till is counted in, per currency, in minor units.
+// Currencies not listed fall back to a 1-2-5 series that fits their exponent.
+//
+// Usage:
+//   const denominations = denominationsFor(session.currency);
+//   const total = countTotal([{ value: 2000, quantity: 12 }, { value: 500, quantity: 3 }]);
+import { currencyExponent } from "./money";
+
+export type Denomination = {
+  value: number; // Minor units
+  kind: "bill" | "coin";
+};
+
+const bills = (...values: number[]) => values.map((value): Denomination => ({ value, kind: "bill" }));
+const coins = (...values: number[]) => values.map((value): Denomination => ({ value, kind: "coin" }));
+
+const DENOMINATIONS: Record<string, Denomination[]> = {
+  USD: [...bills(10000, 5000, 2000, 1000, 500, 200, 100), ...coins(25, 10, 5, 1)],
+  CAD: [...bills(10000, 5000, 2000, 1000, 500), ...coins(200, 100, 25, 10, 5)],
+  AUD: [...bills(10000, 5000, 2000, 1000, 500), ...coins(200, 100, 50, 20, 10, 5)],
+  EUR: [...bills(50000, 20000, 10000, 5000, 2000, 1000, 500), ...coins(200, 100, 50, 20, 10, 5, 2, 1)],
+  GBP: [...bills(5000, 2000, 1000, 500), ...coins(200, 100, 50, 20, 10, 5, 2, 1)],
+  JPY: [...bills(10000, 5000, 2000, 1000), ...coins(500, 100, 50, 10, 5, 1)],
+  MXN: [...bills(100000, 50000, 20000, 10000, 5000, 2000), ...coins(1000, 500, 200, 100, 50)],
+};
+
+/**
+ * Bills and coins for the currency, largest first
+ * Unknown currencies get 100 down to the smallest minor unit (bills from 5 up)
+ */
+export function denominationsFor(currency: string): Denomination[] {
+  const known = DENOMINATIONS[currency.toUpperCase()];
+  if (known) return known;
+
+  const minorPerMajor = 10 ** currencyExponent(currency);
+  const values = [100, 50, 20, 10, 5, 2, 1]
+    .map((major) => major * minorPerMajor)
+    .concat([50, 20, 10, 5, 2, 1].map((minor) => minor * (minorPerMajor / 100)))
+    .filter((value) => Number.isInteger(value) && value >= 1);
+
+  return [...new Set(values)].map((value) => ({
+    value,
+    kind: value >= 5 * minorPerMajor ? "bill" : "coin",
+  }));
+}
+
+/**
+ * Total of a count in minor units
+ */
+export function countTotal(items: { value: number; quantity: number }[]): number {
+  return items.reduce((sum, item) => sum + item.value * item.quantity, 0);
+}
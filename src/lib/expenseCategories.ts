@@ -0,0 +1,37 @@
+// ============================================
+// Expense categories
+// ============================================
+// Each host keeps their own expense categories. A host starts with the three
+// that used to be fixed (food, drinks, other), created the first time their
+// categories are read; after that they're the host's to rename or retire.
+//
+// Usage:
+//   const categories = await hostExpenseCategories(user.id);
+import { db } from "../db";
+
+export const DEFAULT_EXPENSE_CATEGORIES = [
+  { name: "Food", icon: "utensils", color: "#f97316" },
+  { name: "Drinks", icon: "cup-soda", color: "#3b82f6" },
+  { name: "Other", icon: "receipt", color: "#6b7280" },
+];
+
+/**
+ * A host's expense categories by name - creating the defaults for a host with none
+ */
+export async function hostExpenseCategories(hostId: string) {
+  const categories = await db.expenseCategory.findMany({
+    where: { userId: hostId },
+    orderBy: { name: "asc" },
+  });
+  if (categories.length > 0) return categories;
+
+  await db.expenseCategory.createMany({
+    data: DEFAULT_EXPENSE_CATEGORIES.map((c) => ({ ...c, userId: hostId })),
+  });
+  console.log(`💸 [Expenses] Created default expense categories for host: ${hostId}`);
+
+  return db.expenseCategory.findMany({
+    where: { userId: hostId },
+    orderBy: { name: "asc" },
+  });
+}
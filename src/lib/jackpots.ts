@@ -0,0 +1,43 @@
+// ============================================
+// Jackpot funds
+// ============================================
+// A jackpot fund belongs to the host and carries across their games: each
+// game's drops go in, qualifying-hand payouts come out. Jackpot money is
+// held for the players, so it never counts as house profit - the drop comes
+// out of pots like rake and sits in the till until paid or taken away, and
+// a cash payout leaves the till like a cashout.
+// Pure - minor units in and out.
+//
+// Usage:
+//   const balance = fundBalance(fund, fund.entries);
+import { type JackpotEntry, type JackpotFund } from "../../generated/prisma";
+
+export type FundMovement = {
+  drops: number;
+  payouts: number;
+};
+
+/**
+ * Total dropped into and paid out of a fund (or a game's share of it)
+ */
+export function fundMovement(entries: Pick<JackpotEntry, "type" | "amount">[]): FundMovement {
+  return entries.reduce(
+    (totals, e) => {
+      if (e.type === "drop") totals.drops += e.amount;
+      else if (e.type === "payout") totals.payouts += e.amount;
+      return totals;
+    },
+    { drops: 0, payouts: 0 },
+  );
+}
+
+/**
+ * What a fund holds now
+ */
+export function fundBalance(
+  fund: Pick<JackpotFund, "startingBalance">,
+  entries: Pick<JackpotEntry, "type" | "amount">[],
+): number {
+  const { drops, payouts } = fundMovement(entries);
+  return fund.startingBalance + drops - payouts;
+}
@@ -0,0 +1,220 @@
+import { describe, expect, test } from "bun:test";
+import { calculateSessionLedger, type LedgerInput } from "./ledger";
+
+// JPY has no minor unit, so amounts in and out of the ledger read the same
+type Transaction = LedgerInput["playerTransactions"][number];
+type Expense = LedgerInput["expenses"][number];
+
+function session(overrides: Partial<LedgerInput> = {}): LedgerInput {
+  return {
+    totalRake: 0,
+    currency: "JPY",
+    revenueMode: "rake",
+    sessionType: "cash",
+    playerTransactions: [],
+    dealerDowns: [],
+    expenses: [],
+    ...overrides,
+  };
+}
+
+function buyIn(amount: number, paymentMethod = "cash", overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    playerName: "Alice",
+    playerId: "p1",
+    type: "buy-in",
+    amount,
+    paymentMethod,
+    isPaid: paymentMethod !== "credit",
+    cashPaid: null,
+    creditOffset: null,
+    tableId: null,
+    ...overrides,
+  };
+}
+
+function cashout(amount: number, paymentMethod = "cash", overrides: Partial<Transaction> = {}): Transaction {
+  return { ...buyIn(amount, paymentMethod), type: "cashout", isPaid: true, ...overrides };
+}
+
+function expense(amount: number, paidOut: boolean, paidOutMethod: string | null = paidOut ? "cash" : null): Expense {
+  return { amount, paidOut, paidOutMethod };
+}
+
+function down(tips: number, rake: number, overrides: Partial<LedgerInput["dealerDowns"][number]> = {}) {
+  return { dealerName: "Dana", tips, rake, tipsPaid: false, rakeClaimed: false, tableId: null, payoutId: null, ...overrides };
+}
+
+describe("till balance", () => {
+  test.each<[string, Partial<LedgerInput>, number]>([
+    ["starts empty", {}, 0],
+    [
+      "cash buy-ins in, cash cashouts out",
+      { playerTransactions: [buyIn(10000), cashout(6000)] },
+      4000,
+    ],
+    [
+      "a credit cashout pays no cash",
+      { playerTransactions: [buyIn(10000), cashout(3000, "credit")] },
+      10000,
+    ],
+    [
+      "a settled cashout only takes out its cash portion",
+      { playerTransactions: [buyIn(10000), cashout(8000, "cash", { cashPaid: 5000, creditOffset: 0 })] },
+      5000,
+    ],
+    [
+      "credit auto-settled by a cashout brings no cash in",
+      {
+        playerTransactions: [
+          buyIn(10000),
+          buyIn(3000, "credit", { isPaid: true }),
+          cashout(8000, "cash", { cashPaid: 5000, creditOffset: 3000 }),
+        ],
+      },
+      5000,
+    ],
+    [
+      "credit marked paid by hand is treated as cash",
+      { playerTransactions: [buyIn(3000, "credit", { isPaid: true })] },
+      3000,
+    ],
+    [
+      "unpaid credit brings no cash in",
+      { playerTransactions: [buyIn(3000, "credit")] },
+      0,
+    ],
+    [
+      "only cash repayments go into the till",
+      {
+        playerTransactions: [
+          buyIn(5000, "credit", { repayments: [{ amount: 2000, method: "cash" }, { amount: 1000, method: "electronic" }] }),
+        ],
+      },
+      2000,
+    ],
+    [
+      "earlier games' credit repaid in cash",
+      { creditEntries: [{ type: "repayment", amount: 4000, method: "cash" }, { type: "repayment", amount: 1000, method: "electronic" }] },
+      4000,
+    ],
+    [
+      "float and cash added in, drops to the safe out",
+      { cashMovements: [{ type: "float", amount: 20000 }, { type: "add", amount: 5000 }, { type: "drop", amount: 8000 }] },
+      17000,
+    ],
+    [
+      "only expenses paid out in cash leave the till",
+      { expenses: [expense(1000, true), expense(2000, true, "electronic"), expense(4000, false)] },
+      -1000,
+    ],
+    [
+      "paid tips and claimed rake leave the till",
+      {
+        playerTransactions: [buyIn(10000)],
+        dealerDowns: [down(500, 1000, { tipsPaid: true, rakeClaimed: true }), down(300, 800)],
+      },
+      8500,
+    ],
+    [
+      "tips paid through a payout leave only the dealer's net, and only in cash",
+      {
+        playerTransactions: [buyIn(10000)],
+        dealerDowns: [down(1000, 0, { tipsPaid: true, payoutId: "po1" }), down(1000, 0, { tipsPaid: true, payoutId: "po2" })],
+        dealerPayouts: [{ houseCut: 100, netPaid: 900, method: "cash" }, { houseCut: 100, netPaid: 900, method: "electronic" }],
+      },
+      9100,
+    ],
+    [
+      "concession sales in cash, and tabs settled in cash",
+      {
+        concessionSales: [
+          { quantity: 2, unitPrice: 500, unitCost: 200, settledAt: new Date(), settledMethod: "cash" },
+          { quantity: 1, unitPrice: 800, unitCost: 300, settledAt: new Date(), settledMethod: "electronic" },
+          { quantity: 1, unitPrice: 600, unitCost: 200, settledAt: null, settledMethod: null },
+        ],
+      },
+      1000,
+    ],
+  ])("%s", (_, overrides, expected) => {
+    expect(calculateSessionLedger(session(overrides)).tillBalance).toBe(expected);
+  });
+});
+
+describe("house profit", () => {
+  test.each<[string, Partial<LedgerInput>, number]>([
+    ["starts at zero", {}, 0],
+    [
+      "only claimed rake counts",
+      { dealerDowns: [down(0, 1000, { rakeClaimed: true }), down(0, 800)] },
+      1000,
+    ],
+    [
+      "time collected in time mode, whatever the method",
+      {
+        revenueMode: "time",
+        dealerDowns: [down(0, 1000, { rakeClaimed: true })],
+        timeCollections: [{ amount: 3000, method: "cash" }, { amount: 2000, method: "electronic" }],
+      },
+      5000,
+    ],
+    [
+      "every expense is a cost, paid out or still owed",
+      { expenses: [expense(1000, true), expense(2000, true, "electronic"), expense(4000, false)] },
+      -7000,
+    ],
+    [
+      "the house cut of tips",
+      { dealerPayouts: [{ houseCut: 150, netPaid: 850, method: "cash" }] },
+      150,
+    ],
+    [
+      "concession sales less their cost of goods, open tabs included",
+      {
+        concessionSales: [
+          { quantity: 2, unitPrice: 500, unitCost: 200, settledAt: new Date(), settledMethod: "cash" },
+          { quantity: 1, unitPrice: 600, unitCost: 200, settledAt: null, settledMethod: null },
+        ],
+      },
+      1000,
+    ],
+    [
+      "player money is never profit",
+      { playerTransactions: [buyIn(10000), buyIn(3000, "credit"), cashout(7000, "cash", { cashPaid: 4000, creditOffset: 3000 })] },
+      0,
+    ],
+  ])("%s", (_, overrides, expected) => {
+    expect(calculateSessionLedger(session(overrides)).netProfit).toBe(expected);
+  });
+
+  test("tournament house fees count in tournaments only", () => {
+    const tournament = { entries: [{ houseFeesPaid: 2000 }, { houseFeesPaid: 2000 }] };
+    expect(calculateSessionLedger(session({ sessionType: "tournament", tournament })).netProfit).toBe(4000);
+    expect(calculateSessionLedger(session({ tournament })).netProfit).toBe(0);
+  });
+});
+
+describe("credit owed", () => {
+  test("unpaid credit less credit cashouts and repayments, per player", () => {
+    const ledger = calculateSessionLedger(session({
+      playerTransactions: [
+        buyIn(5000, "credit", { repayments: [{ amount: 1000, method: "cash" }] }),
+        cashout(1500, "credit"),
+        buyIn(2000, "credit", { playerName: "Bob", playerId: "p2" }),
+        buyIn(3000, "credit", { playerName: "Cara", playerId: "p3", isPaid: true }),
+      ],
+    }));
+
+    expect(ledger.creditBalance).toBe(4500);
+    expect(ledger.breakdown.creditBalance).toEqual([
+      { label: "Alice", amount: 2500 },
+      { label: "Bob", amount: 2000 },
+    ]);
+  });
+});
+
+test("amounts come out in major units of the session currency", () => {
+  const ledger = calculateSessionLedger(session({ currency: "USD", playerTransactions: [buyIn(12345)] }));
+  expect(ledger.tillBalance).toBe(123.45);
+  expect(ledger.totalBuyIns).toBe(123.45);
+});
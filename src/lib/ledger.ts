@@ -0,0 +1,356 @@
+// ============================================
+// Session Ledger
+// ============================================
+// The single place where a session's till, credit, profit, per-player and
+// per-dealer figures are calculated. Pure - takes rows, returns numbers -
+// so the summary, history and AI analyst always agree.
+// All arithmetic is done on integer minor units; results are converted to
+// major units of the session currency only on the way out.
+//
+// Usage:
+//   const session = await db.gameSession.findFirst({ where, include: ledgerInclude });
+//   const ledger = calculateSessionLedger(session);
+import {
+  type CashMovement,
+  type ConcessionSale,
+  type CreditEntry,
+  type CreditRepayment,
+  type DealerDown,
+  type DealerPayout,
+  type Expense,
+  type GameSession,
+  type GameTable,
+  type JackpotEntry,
+  type PlayerTransaction,
+  type TimeCollection,
+  type TournamentEntry,
+} from "../../generated/prisma";
+import {
+  type DealerLedgerEntry,
+  type LedgerLine,
+  type PlayerLedgerEntry,
+  type SessionLedger,
+  type TableLedgerEntry,
+} from "@/shared/contracts";
+import { concessionTotals } from "./concessions";
+import { fundMovement } from "./jackpots";
+import { fromMinorUnits } from "./money";
+import { normalizePlayerName } from "./playerMatching";
+
+export type LedgerInput = Pick<GameSession, "totalRake" | "currency" | "revenueMode" | "sessionType"> & {
+  playerTransactions: (Pick<
+    PlayerTransaction,
+    "playerName" | "playerId" | "type" | "amount" | "paymentMethod" | "isPaid" | "cashPaid" | "creditOffset" | "tableId"
+  > & {
+    player?: { name: string } | null;
+    repayments?: Pick<CreditRepayment, "amount" | "method">[]; // Credit buy-ins only
+  })[];
+  dealerDowns: Pick<DealerDown, "dealerName" | "tips" | "rake" | "tipsPaid" | "rakeClaimed" | "tableId" | "payoutId">[];
+  dealerPayouts?: Pick<DealerPayout, "houseCut" | "netPaid" | "method">[];
+  expenses: Pick<Expense, "amount" | "paidOut" | "paidOutMethod">[];
+  creditEntries?: Pick<CreditEntry, "type" | "amount" | "method">[]; // Carried credit repaid during this game
+  cashMovements?: Pick<CashMovement, "type" | "amount">[];
+  tables?: Pick<GameTable, "id" | "name" | "stakes" | "gameType">[];
+  timeCollections?: Pick<TimeCollection, "amount" | "method">[];
+  tournament?: { entries: Pick<TournamentEntry, "houseFeesPaid">[] } | null;
+  jackpotEntries?: Pick<JackpotEntry, "type" | "amount" | "method">[];
+  concessionSales?: Pick<ConcessionSale, "quantity" | "unitPrice" | "unitCost" | "settledAt" | "settledMethod">[];
+};
+
+// Everything the ledger reads from a session
+export const ledgerInclude = {
+  playerTransactions: { include: { player: { select: { name: true } }, repayments: true } },
+  dealerDowns: true,
+  dealerPayouts: true,
+  expenses: true,
+  creditEntries: true,
+  cashMovements: true,
+  tables: { orderBy: { openedAt: "asc" } },
+  timeCollections: true,
+  tournament: { include: { entries: true } },
+  jackpotEntries: true,
+  concessionSales: true,
+} as const;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const sumLines = (lines: LedgerLine[]) => sum(lines.map((line) => line.amount));
+const repaidOn = (t: LedgerInput["playerTransactions"][number], method?: string) =>
+  sum((t.repayments ?? []).filter((r) => !method || r.method === method).map((r) => r.amount));
+
+/**
+ * Calculate every derived figure for a session along with the lines that produced it
+ */
+export function calculateSessionLedger(input: LedgerInput): SessionLedger {
+  const transactions = input.playerTransactions;
+  const buyIns = transactions.filter((t) => t.type === "buy-in");
+  const cashouts = transactions.filter((t) => t.type === "cashout");
+
+  const totalBuyIns = sum(buyIns.map((t) => t.amount));
+  const totalCashouts = sum(cashouts.map((t) => t.amount));
+  const totalTips = sum(input.dealerDowns.map((d) => d.tips));
+  const totalExpenses = sum(input.expenses.map((e) => e.amount));
+
+  // Every expense is a cost to the house, but only those paid (or reimbursed) in cash left the till.
+  // Fronted expenses are owed back until reimbursed
+  const cashExpenses = sum(input.expenses.filter((e) => e.paidOut && e.paidOutMethod === "cash").map((e) => e.amount));
+  const expensesOwed = sum(input.expenses.filter((e) => !e.paidOut).map((e) => e.amount));
+
+  // Use totalRake from session (logged via dropbox count), fallback to dealer downs sum
+  const dealerRake = sum(input.dealerDowns.map((d) => d.rake));
+  const rakeLines: LedgerLine[] = input.totalRake > 0
+    ? [{ label: "Dropbox count", amount: input.totalRake }]
+    : [{ label: "Dealer-reported rake", amount: dealerRake }];
+
+  // Only paid tips and claimed rake have physically left the till
+  // Tips paid through a payout leave it as the dealer's net, and only when paid in cash;
+  // tips marked paid by hand leave it in full
+  const payouts = input.dealerPayouts ?? [];
+  const totalPaidTips =
+    sum(input.dealerDowns.filter((d) => d.tipsPaid && !d.payoutId).map((d) => d.tips)) +
+    sum(payouts.filter((p) => p.method === "cash").map((p) => p.netPaid));
+  const totalClaimedRake = sum(input.dealerDowns.filter((d) => d.rakeClaimed).map((d) => d.rake));
+
+  // Seat fees collected in time mode - only cash collections go into the till
+  const collections = input.timeCollections ?? [];
+  const totalTimeCollected = sum(collections.map((t) => t.amount));
+  const cashTimeCollected = sum(collections.filter((t) => t.method === "cash").map((t) => t.amount));
+
+  // Jackpot drops are held for the players - never profit. They stay in the till with the
+  // chips they came from (like unclaimed rake); only payouts made in cash take money out
+  const jackpotEntries = input.jackpotEntries ?? [];
+  const jackpot = fundMovement(jackpotEntries);
+  const cashJackpotPayouts = sum(
+    jackpotEntries.filter((e) => e.type === "payout" && e.method === "cash").map((e) => e.amount),
+  );
+
+  // The house part of tournament entries - the prize part goes back out as payout cashouts
+  const totalTournamentFees = sum((input.tournament?.entries ?? []).map((e) => e.houseFeesPaid));
+
+  // Food and drink sold - tabs count as revenue when the sale is made; only cash sales
+  // and tabs settled in cash go into the till (tabs netted against a cashout reduce its cash paid)
+  const concessions = concessionTotals(input.concessionSales ?? []);
+
+  // House profit = Claimed Rake (or Time collected in time mode) + Tournament fees + House cut of tips
+  //   + Concession sales - Concession cost of goods - Expenses
+  // Only claimed rake counts as realized profit
+  const profitLines: LedgerLine[] = [
+    input.revenueMode === "time"
+      ? { label: "Time collected", amount: totalTimeCollected }
+      : { label: "Claimed rake", amount: totalClaimedRake },
+    ...(input.sessionType === "tournament" ? [{ label: "Tournament house fees", amount: totalTournamentFees }] : []),
+    { label: "House cut of tips", amount: sum(payouts.map((p) => p.houseCut)) },
+    { label: "Concession sales", amount: concessions.sales },
+    { label: "Concession cost of goods", amount: -concessions.costOfGoods },
+    { label: "Expenses", amount: -totalExpenses },
+  ];
+
+  // Till balance = Physical cash in the till
+  // The till starts with the opening float; cash added tops it up and drops to the safe take cash out
+  // Cash buy-ins add money, cash paid on cashouts removes it (settlement cash portion when recorded)
+  // Paid tips, claimed rake and expenses paid in cash remove money
+  // Credit repayments add money ONLY when paid in cash - electronic repayments never touch the till
+  // Auto-settled credit does NOT add to till (chips applied against the marker, no cash changes hands)
+  // Paid credit buy-ins without repayment records (marked paid before repayments were recorded)
+  // are treated as cash, less whatever cashouts auto-settled
+  const cashBuyIns = sum(buyIns.filter((t) => t.paymentMethod === "cash").map((t) => t.amount));
+  const cashCashouts = sum(cashouts.map((t) => t.cashPaid ?? (t.paymentMethod === "cash" ? t.amount : 0)));
+  const autoSettledCredit = sum(cashouts.map((t) => t.creditOffset ?? 0));
+  const creditBuyInsList = buyIns.filter((t) => t.paymentMethod === "credit");
+  const unrecordedPaidCredit = sum(
+    creditBuyInsList.filter((t) => t.isPaid).map((t) => Math.max(0, t.amount - repaidOn(t))),
+  );
+  const cashRepayments = sum(creditBuyInsList.map((t) => repaidOn(t, "cash")));
+  const manuallyPaidCredit = Math.max(0, unrecordedPaidCredit - autoSettledCredit) + cashRepayments;
+
+  // Credit carried from earlier games and repaid in cash during this one
+  const carriedCreditRepaid = sum(
+    (input.creditEntries ?? [])
+      .filter((e) => e.type === "repayment" && e.method === "cash")
+      .map((e) => e.amount),
+  );
+
+  const movements = input.cashMovements ?? [];
+  const movementTotal = (type: string) => sum(movements.filter((m) => m.type === type).map((m) => m.amount));
+
+  const tillLines: LedgerLine[] = [
+    { label: "Opening float", amount: movementTotal("float") },
+    { label: "Cash added", amount: movementTotal("add") },
+    { label: "Cash dropped to safe", amount: -movementTotal("drop") },
+    { label: "Cash buy-ins", amount: cashBuyIns },
+    { label: "Credit repaid in cash", amount: manuallyPaidCredit },
+    { label: "Earlier games' credit repaid in cash", amount: carriedCreditRepaid },
+    { label: "Time collected in cash", amount: cashTimeCollected },
+    { label: "Concession sales in cash", amount: concessions.cashSales },
+    { label: "Cash paid on cashouts", amount: -cashCashouts },
+    { label: "Tips paid to dealers", amount: -totalPaidTips },
+    { label: "Rake claimed by house", amount: -totalClaimedRake },
+    { label: "Jackpots paid in cash", amount: -cashJackpotPayouts },
+    { label: "Expenses paid in cash", amount: -cashExpenses },
+  ];
+
+  // Per-player figures, grouped by registry player (or by typed name when unlinked)
+  // Credit owed = what remains of unpaid credit buy-ins minus credit cashouts, never negative
+  // When a player buys in $500 on credit and cashes out $300 on credit, they still owe $200
+  const playerMap = new Map<string, PlayerLedgerEntry & { creditBuyIns: number; creditCashouts: number }>();
+  transactions.forEach((t) => {
+    const key = t.playerId ?? `name:${normalizePlayerName(t.playerName)}`;
+    const entry = playerMap.get(key) ?? {
+      playerId: t.playerId,
+      playerName: t.player?.name ?? t.playerName,
+      buyIns: 0,
+      cashouts: 0,
+      net: 0,
+      creditOwed: 0,
+      creditBuyIns: 0,
+      creditCashouts: 0,
+    };
+    if (t.type === "buy-in") {
+      entry.buyIns += t.amount;
+      if (t.paymentMethod === "credit" && !t.isPaid) entry.creditBuyIns += Math.max(0, t.amount - repaidOn(t));
+    } else if (t.type === "cashout") {
+      entry.cashouts += t.amount;
+      if (t.paymentMethod === "credit") entry.creditCashouts += t.amount;
+    }
+    playerMap.set(key, entry);
+  });
+
+  const players: PlayerLedgerEntry[] = Array.from(playerMap.values()).map(
+    ({ creditBuyIns, creditCashouts, ...entry }) => ({
+      ...entry,
+      net: entry.cashouts - entry.buyIns,
+      creditOwed: Math.max(0, creditBuyIns - creditCashouts),
+    }),
+  );
+
+  const creditLines: LedgerLine[] = players
+    .filter((p) => p.creditOwed > 0)
+    .map((p) => ({ label: p.playerName, amount: p.creditOwed }));
+
+  // Per-dealer figures
+  const dealerMap = new Map<string, DealerLedgerEntry>();
+  input.dealerDowns.forEach((d) => {
+    const entry = dealerMap.get(d.dealerName) ?? {
+      dealerName: d.dealerName,
+      downs: 0,
+      tips: 0,
+      tipsPaid: 0,
+      tipsUnpaid: 0,
+      rake: 0,
+      rakeClaimed: 0,
+    };
+    entry.downs += 1;
+    entry.tips += d.tips;
+    entry.rake += d.rake;
+    if (d.tipsPaid) entry.tipsPaid += d.tips;
+    else entry.tipsUnpaid += d.tips;
+    if (d.rakeClaimed) entry.rakeClaimed += d.rake;
+    dealerMap.set(d.dealerName, entry);
+  });
+
+  // Per-table figures - every table shares the one till, so there is no per-table till balance
+  // Entries not tagged to a table are grouped under tableId null
+  const tableMap = new Map<string | null, TableLedgerEntry & { players: Set<string> }>(
+    (input.tables ?? []).map((table) => [table.id, {
+      tableId: table.id,
+      tableName: table.name,
+      stakes: table.stakes,
+      gameType: table.gameType,
+      totalBuyIns: 0,
+      totalCashouts: 0,
+      totalTips: 0,
+      totalRake: 0,
+      downs: 0,
+      playerCount: 0,
+      players: new Set<string>(),
+    }]),
+  );
+  const tableEntry = (tableId: string | null) => {
+    const entry = tableMap.get(tableId) ?? {
+      tableId,
+      tableName: tableId ? "Table" : "Unassigned",
+      stakes: null,
+      gameType: null,
+      totalBuyIns: 0,
+      totalCashouts: 0,
+      totalTips: 0,
+      totalRake: 0,
+      downs: 0,
+      playerCount: 0,
+      players: new Set<string>(),
+    };
+    tableMap.set(tableId, entry);
+    return entry;
+  };
+  transactions.forEach((t) => {
+    const entry = tableEntry(t.tableId);
+    if (t.type === "buy-in") entry.totalBuyIns += t.amount;
+    else if (t.type === "cashout") entry.totalCashouts += t.amount;
+    entry.players.add(t.playerId ?? `name:${normalizePlayerName(t.playerName)}`);
+  });
+  input.dealerDowns.forEach((d) => {
+    const entry = tableEntry(d.tableId);
+    entry.downs += 1;
+    entry.totalTips += d.tips;
+    entry.totalRake += d.rake;
+  });
+
+  const major = (minor: number) => fromMinorUnits(minor, input.currency);
+  const majorLines = (lines: LedgerLine[]) => lines.map((line) => ({ ...line, amount: major(line.amount) }));
+
+  return {
+    totalBuyIns: major(totalBuyIns),
+    totalCashouts: major(totalCashouts),
+    totalTips: major(totalTips),
+    totalRake: major(sumLines(rakeLines)),
+    totalTimeCollected: major(totalTimeCollected),
+    totalTournamentFees: major(totalTournamentFees),
+    totalJackpotDrops: major(jackpot.drops),
+    totalJackpotPayouts: major(jackpot.payouts),
+    totalExpenses: major(totalExpenses),
+    totalExpensesOwed: major(expensesOwed),
+    totalConcessionSales: major(concessions.sales),
+    totalConcessionCost: major(concessions.costOfGoods),
+    concessionTabsOpen: major(concessions.openTabs),
+    netProfit: major(sumLines(profitLines)),
+    tillBalance: major(sumLines(tillLines)),
+    playerCount: playerMap.size,
+    creditBalance: major(sumLines(creditLines)),
+    players: players.map((p) => ({
+      ...p,
+      buyIns: major(p.buyIns),
+      cashouts: major(p.cashouts),
+      net: major(p.net),
+      creditOwed: major(p.creditOwed),
+    })),
+    dealers: Array.from(dealerMap.values()).map((d) => ({
+      ...d,
+      tips: major(d.tips),
+      tipsPaid: major(d.tipsPaid),
+      tipsUnpaid: major(d.tipsUnpaid),
+      rake: major(d.rake),
+      rakeClaimed: major(d.rakeClaimed),
+    })),
+    tables: Array.from(tableMap.values()).map(({ players: tablePlayers, ...t }) => ({
+      ...t,
+      totalBuyIns: major(t.totalBuyIns),
+      totalCashouts: major(t.totalCashouts),
+      totalTips: major(t.totalTips),
+      totalRake: major(t.totalRake),
+      playerCount: tablePlayers.size,
+    })),
+    breakdown: {
+      tillBalance: majorLines(tillLines),
+      netProfit: majorLines(profitLines),
+      creditBalance: majorLines(creditLines),
+      totalRake: majorLines(rakeLines),
+    },
+  };
+}
+
+/**
+ * Just the headline figures, for lists where the full breakdown is too heavy (e.g. history)
+ */
+export function calculateSessionTotals(input: LedgerInput) {
+  const { players, dealers, tables, breakdown, ...totals } = calculateSessionLedger(input);
+  return totals;
+}
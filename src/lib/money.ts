@@ -0,0 +1,105 @@
+// ============================================
+// Money helpers
+// ============================================
+// Amounts are stored as integers in the minor unit of the session currency
+// (cents for USD, yen for JPY, fils for KWD) so sums never drift.
+// Convert at the API edge only:
+//   - incoming amounts (number or decimal string) -> toMinorUnits
+//   - outgoing amounts -> fromMinorUnits
+//
+// Keep the exponent table in sync with prisma/migrations/*_money_minor_units.
+
+// ISO 4217 currencies without a minor unit
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  "BIF", "CLP", "DJF", "GNF", "ISK", "JPY", "KMF", "KRW", "PYG",
+  "RWF", "UGX", "UYI", "VND", "VUV", "XAF", "XOF", "XPF",
+]);
+
+// ISO 4217 currencies with three decimal places
+const THREE_DECIMAL_CURRENCIES = new Set(["BHD", "IQD", "JOD", "KWD", "LYD", "OMR", "TND"]);
+
+/**
+ * Number of decimal places in the currency's minor unit (USD = 2, JPY = 0, KWD = 3)
+ * Unknown codes fall back to 2
+ */
+export function currencyExponent(currency: string): number {
+  const code = currency.toUpperCase();
+  if (ZERO_DECIMAL_CURRENCIES.has(code)) return 0;
+  if (THREE_DECIMAL_CURRENCIES.has(code)) return 3;
+  return 2;
+}
+
+/**
+ * Parse a decimal string exactly into minor units, rounding half away from zero
+ * past the currency's precision ("12.345" USD -> 1235)
+ */
+function parseDecimal(value: string, exponent: number): number {
+  const match = value.trim().match(/^(-)?(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: "${value}"`);
+  }
+
+  const [, sign, whole = "", fraction = ""] = match;
+  const kept = fraction.slice(0, exponent).padEnd(exponent, "0");
+  const roundUp = (fraction[exponent] ?? "0") >= "5";
+  const minor = Number(whole || "0") * 10 ** exponent + Number(kept || "0") + (roundUp ? 1 : 0);
+
+  if (!Number.isSafeInteger(minor)) {
+    throw new Error(`Amount out of range: "${value}"`);
+  }
+  return sign && minor !== 0 ? -minor : minor;
+}
+
+/**
+ * Convert an amount in major units (number or decimal string) to integer minor units
+ * Numbers go through their 15-significant-digit form so 1.005 rounds like "1.005", not 1.00499...
+ */
+export function toMinorUnits(value: number | string, currency: string): number {
+  const exponent = currencyExponent(currency);
+
+  if (typeof value === "string") {
+    return parseDecimal(value, exponent);
+  }
+
+  const precise = value.toPrecision(15);
+  if (precise.includes("e")) {
+    return Math.round(value * 10 ** exponent);
+  }
+  return parseDecimal(precise, exponent);
+}
+
+/**
+ * Convert integer minor units back to a major-unit number
+ * The result serializes to exactly the decimal it represents (1250 USD -> 12.5)
+ */
+export function fromMinorUnits(minor: number, currency: string): number {
+  return minor / 10 ** currencyExponent(currency);
+}
+
+/**
+ * Take a percentage of a minor-unit amount, rounding half away from zero
+ */
+export function percentOf(minor: number, percentage: number): number {
+  const raw = Number(((minor * percentage) / 100).toPrecision(15));
+  return Math.sign(raw) * Math.round(Math.abs(raw));
+}
+
+/**
+ * Split a minor-unit amount in proportion to weights so the shares add up exactly
+ * Largest remainder: floor every share, then hand out the leftover minor units
+ */
+export function allocateByWeight(total: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const exact = weights.map((w) => (totalWeight > 0 ? (total * w) / totalWeight : 0));
+  const shares = exact.map(Math.floor);
+  let leftover = total - shares.reduce((sum, share) => sum + share, 0);
+  exact
+    .map((value, i) => ({ i, remainder: value - shares[i]! }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ i }) => {
+      if (leftover <= 0) return;
+      shares[i]! += 1;
+      leftover -= 1;
+    });
+  return shares;
+}
@@ -0,0 +1,133 @@
+// ============================================
+// Dealer payroll
+// ============================================
+// What each dealer earned and is still owed across a host's games, for paying
+// dealers weekly. Downs are grouped by roster dealer (or by typed name when
+// unlinked) and by currency - games in different currencies are never added
+// together. Tips count as paid through a payout (its net) or when marked paid
+// by hand; unpaid tips are owed in full, before any house cut. Wages come from
+// the dealer's pay model and are only worked out in the dealer's own currency.
+// Pure - minor units in and out.
+//
+// Usage:
+//   const entries = calculatePayroll(sessions, roster);
+//   return c.body(payrollCsv(entries), 200, { "Content-Type": "text/csv; charset=utf-8" });
+import { type Dealer, type DealerDown, type DealerPayout, type GameSession } from "../../generated/prisma";
+import { fromMinorUnits } from "./money";
+
+export type PayrollSession = Pick<GameSession, "id" | "currency"> & {
+  dealerDowns: Pick<DealerDown, "dealerName" | "dealerId" | "tips" | "tipsPaid" | "payoutId" | "startedAt" | "endedAt">[];
+  dealerPayouts: Pick<DealerPayout, "dealerName" | "dealerId" | "houseCut" | "netPaid">[];
+};
+
+export type PayrollEntry = {
+  dealerId: string | null;
+  dealerName: string;
+  currency: string;
+  payModel: string; // "tips-only" for dealers not on the roster
+  games: number;
+  downs: number;
+  untimedDowns: number; // Recorded after the fact - not counted in minutesDealt
+  minutesDealt: number;
+  tipsEarned: number;
+  houseCut: number;
+  tipsPaid: number;
+  tipsOwed: number;
+  wages: number;
+};
+
+const dealerKey = (d: { dealerId: string | null; dealerName: string }, currency: string) =>
+  `${d.dealerId ?? `name:${d.dealerName.trim().toLowerCase()}`}|${currency}`;
+
+/**
+ * Per-dealer payroll for a set of games, sorted by dealer name then currency
+ */
+export function calculatePayroll(
+  sessions: PayrollSession[],
+  roster: Pick<Dealer, "id" | "name" | "payModel" | "payRate" | "currency">[],
+): PayrollEntry[] {
+  const dealers = new Map(roster.map((d) => [d.id, d]));
+  const entries = new Map<string, PayrollEntry & { gameIds: Set<string> }>();
+
+  const entryFor = (d: { dealerId: string | null; dealerName: string }, currency: string) => {
+    const key = dealerKey(d, currency);
+    const dealer = d.dealerId ? dealers.get(d.dealerId) : undefined;
+    const entry = entries.get(key) ?? {
+      dealerId: d.dealerId,
+      dealerName: dealer?.name ?? d.dealerName,
+      currency,
+      payModel: dealer?.payModel ?? "tips-only",
+      games: 0,
+      downs: 0,
+      untimedDowns: 0,
+      minutesDealt: 0,
+      tipsEarned: 0,
+      houseCut: 0,
+      tipsPaid: 0,
+      tipsOwed: 0,
+      wages: 0,
+      gameIds: new Set<string>(),
+    };
+    entries.set(key, entry);
+    return entry;
+  };
+
+  sessions.forEach((session) => {
+    session.dealerDowns.forEach((d) => {
+      const entry = entryFor(d, session.currency);
+      entry.gameIds.add(session.id);
+      entry.downs += 1;
+      entry.tipsEarned += d.tips;
+      if (d.startedAt && d.endedAt) entry.minutesDealt += (d.endedAt.getTime() - d.startedAt.getTime()) / 60_000;
+      else entry.untimedDowns += 1;
+      // Tips covered by a payout are counted from the payout below
+      if (!d.tipsPaid) entry.tipsOwed += d.tips;
+      else if (!d.payoutId) entry.tipsPaid += d.tips;
+    });
+    session.dealerPayouts.forEach((p) => {
+      const entry = entryFor(p, session.currency);
+      entry.houseCut += p.houseCut;
+      entry.tipsPaid += p.netPaid;
+    });
+  });
+
+  return Array.from(entries.values())
+    .map(({ gameIds, ...entry }) => {
+      const dealer = entry.dealerId ? dealers.get(entry.dealerId) : undefined;
+      const paysInCurrency = !!dealer && dealer.currency === entry.currency;
+      const wages = !paysInCurrency
+        ? 0
+        : dealer.payModel === "per-down"
+          ? dealer.payRate * entry.downs
+          : dealer.payModel === "hourly"
+            ? Math.round((dealer.payRate * entry.minutesDealt) / 60)
+            : 0;
+      return { ...entry, games: gameIds.size, minutesDealt: Math.round(entry.minutesDealt), wages };
+    })
+    .sort((a, b) => a.dealerName.localeCompare(b.dealerName) || a.currency.localeCompare(b.currency));
+}
+
+// Quote a CSV field when it contains a separator, quote or line break
+// Text that a spreadsheet would run as a formula (a dealer called "=SUM(...)") gets a leading '
+const csvField = (value: string | number) => {
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Payroll as CSV - one row per dealer and currency, amounts in major units
+ */
+export function payrollCsv(entries: PayrollEntry[]): string {
+  const header = [
+    "Dealer", "Currency", "Pay model", "Games", "Downs", "Untimed downs", "Hours dealt",
+    "Tips earned", "House cut", "Tips paid", "Tips owed", "Wages",
+  ];
+  const rows = entries.map((e) => {
+    const major = (minor: number) => fromMinorUnits(minor, e.currency);
+    return [
+      e.dealerName, e.currency, e.payModel, e.games, e.downs, e.untimedDowns, Math.round(e.minutesDealt / 6) / 10,
+      major(e.tipsEarned), major(e.houseCut), major(e.tipsPaid), major(e.tipsOwed), major(e.wages),
+    ];
+  });
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,95 @@
+// ============================================
+// Player name matching
+// ============================================
+// Resolves typed names ("mike ", "Mike R.") to registry players and ranks
+// fuzzy suggestions while a name is being typed. Pure - no database access.
+
+export type MatchablePlayer = {
+  id: string;
+  name: string;
+  nickname: string | null;
+  aliases: string[];
+};
+
+export type PlayerSuggestion<T extends MatchablePlayer> = {
+  player: T;
+  score: number; // 0..1, 1 = exact match
+  matchedOn: string; // The name, nickname or alias that matched best
+};
+
+// Suggestions scoring below this are noise
+const MIN_SUGGESTION_SCORE = 0.5;
+
+/**
+ * Normalize a name for comparison: case, punctuation and extra spaces don't matter
+ */
+export function normalizePlayerName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[.,'"`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Every name a player is known by
+function namesOf(player: MatchablePlayer): string[] {
+  return [player.name, player.nickname, ...player.aliases].filter((n): n is string => !!n);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Similarity of two names between 0 and 1
+ * Prefix matches ("mike" vs "mike r") score high so partially typed names still suggest
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const x = normalizePlayerName(a);
+  const y = normalizePlayerName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+
+  const distanceScore = 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+  const [shorter, longer] = x.length <= y.length ? [x, y] : [y, x];
+  const prefixScore = longer.startsWith(shorter) ? 0.7 + 0.3 * (shorter.length / longer.length) : 0;
+
+  return Math.max(distanceScore, prefixScore);
+}
+
+/**
+ * Find the player whose name, nickname or alias matches exactly (after normalization)
+ */
+export function findExactPlayerMatch<T extends MatchablePlayer>(name: string, players: T[]): T | undefined {
+  const target = normalizePlayerName(name);
+  return players.find((player) => namesOf(player).some((n) => normalizePlayerName(n) === target));
+}
+
+/**
+ * Rank players by how closely any of their names matches the query
+ */
+export function suggestPlayers<T extends MatchablePlayer>(
+  query: string,
+  players: T[],
+  limit = 5,
+): PlayerSuggestion<T>[] {
+  return players
+    .map((player) => {
+      const best = namesOf(player)
+        .map((n) => ({ matchedOn: n, score: nameSimilarity(query, n) }))
+        .reduce((a, b) => (b.score > a.score ? b : a));
+      return { player, ...best };
+    })
+    .filter((s) => s.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
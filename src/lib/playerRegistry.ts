@@ -0,0 +1,32 @@
+// ============================================
+// Player registry
+// ============================================
+// Every transaction belongs to a player in the host's registry. Names typed at
+// the table are matched to an existing player or register a new one.
+//
+// Usage:
+//   const playerId = await resolvePlayerId(gameSession.userId, data.playerName, data.playerId);
+import { db } from "../db";
+import { findExactPlayerMatch } from "./playerMatching";
+
+/**
+ * Link a transaction to the host's registry player:
+ * the explicit playerId, else a player whose name/nickname/alias matches, else a new player.
+ * Returns null when an explicit playerId isn't in the host's registry.
+ */
+export async function resolvePlayerId(hostId: string, playerName: string, playerId?: string): Promise<string | null> {
+  if (playerId) {
+    const player = await db.player.findFirst({ where: { id: playerId, userId: hostId } });
+    return player?.id ?? null;
+  }
+
+  const players = await db.player.findMany({ where: { userId: hostId } });
+  const match = findExactPlayerMatch(playerName, players);
+  if (match) return match.id;
+
+  const created = await db.player.create({
+    data: { name: playerName.trim(), userId: hostId },
+  });
+  console.log(`📇 [Players] Registered new player: ${created.name} (${created.id})`);
+  return created.id;
+}
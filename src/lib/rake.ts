@@ -0,0 +1,103 @@
+// ============================================
+// Rake
+// ============================================
+// A rake structure says how pots are raked: a percentage of the pot up to a
+// cap, nothing for hands that end preflop (no flop, no drop) and an optional
+// promo drop taken on top of the rake. Logged pots give the theoretical rake,
+// which reconciliation sets against the dealers' reported rake and the
+// dropbox count. The summary uses the dropbox count once it's entered, else
+// the dealer-reported rake - reconciliation shows the gap between the two.
+// Pure - minor units in and out.
+//
+// Usage:
+//   const { rake, promoDrop } = rakeForPot(structure, potSize, sawFlop);
+//   const report = reconcileRake({ totalRake: session.totalRake, dealerDowns: session.dealerDowns, pots: session.rakePots });
+import { type DealerDown, type RakePot, type RakeStructure } from "../../generated/prisma";
+import { percentOf } from "./money";
+
+export type RakeRule = Pick<RakeStructure, "percentage" | "cap" | "noFlopNoDrop" | "promoDrop">;
+
+export type DealerRakeEntry = {
+  dealerName: string;
+  dealerId: string | null;
+  downs: number;
+  pots: number;
+  reported: number; // Rake the dealer reported on their downs
+  theoretical: number; // Rake the pots logged while they dealt should have produced
+  variance: number; // reported - theoretical
+};
+
+export type RakeReconciliation = {
+  source: "dropbox" | "dealer-reported"; // What the summary counts as the game's rake
+  dropboxCount: number; // 0 until counted
+  dealerReported: number;
+  theoretical: number;
+  promoDrops: number;
+  dropboxVsReported: number; // dropboxCount - dealerReported; 0 until counted
+  reportedVsTheoretical: number;
+  dealers: DealerRakeEntry[];
+};
+
+/**
+ * Rake and promo drop for one pot
+ */
+export function rakeForPot(rule: RakeRule, potSize: number, sawFlop: boolean): { rake: number; promoDrop: number } {
+  if (rule.noFlopNoDrop && !sawFlop) return { rake: 0, promoDrop: 0 };
+
+  const raw = percentOf(potSize, rule.percentage);
+  const rake = rule.cap > 0 ? Math.min(raw, rule.cap) : raw;
+  // The promo drop only comes out of raked pots, and never more than is left in them
+  const promoDrop = rake > 0 ? Math.min(rule.promoDrop, potSize - rake) : 0;
+  return { rake, promoDrop };
+}
+
+/**
+ * Dropbox count vs dealer-reported rake vs theoretical rake, overall and per dealer
+ */
+export function reconcileRake(input: {
+  totalRake: number;
+  dealerDowns: Pick<DealerDown, "dealerName" | "dealerId" | "rake">[];
+  pots: Pick<RakePot, "dealerName" | "dealerId" | "rake" | "promoDrop">[];
+}): RakeReconciliation {
+  const dealers = new Map<string, DealerRakeEntry>();
+  const entryFor = (dealerName: string | null, dealerId: string | null) => {
+    const key = dealerId ?? `name:${(dealerName ?? "").trim().toLowerCase()}`;
+    const entry = dealers.get(key) ?? {
+      dealerName: dealerName ?? "Unassigned",
+      dealerId,
+      downs: 0,
+      pots: 0,
+      reported: 0,
+      theoretical: 0,
+      variance: 0,
+    };
+    dealers.set(key, entry);
+    return entry;
+  };
+
+  input.dealerDowns.forEach((d) => {
+    const entry = entryFor(d.dealerName, d.dealerId);
+    entry.downs += 1;
+    entry.reported += d.rake;
+  });
+  input.pots.forEach((p) => {
+    const entry = entryFor(p.dealerName, p.dealerId);
+    entry.pots += 1;
+    entry.theoretical += p.rake;
+  });
+
+  const dealerReported = input.dealerDowns.reduce((sum, d) => sum + d.rake, 0);
+  const theoretical = input.pots.reduce((sum, p) => sum + p.rake, 0);
+  const counted = input.totalRake > 0;
+
+  return {
+    source: counted ? "dropbox" : "dealer-reported",
+    dropboxCount: input.totalRake,
+    dealerReported,
+    theoretical,
+    promoDrops: input.pots.reduce((sum, p) => sum + p.promoDrop, 0),
+    dropboxVsReported: counted ? input.totalRake - dealerReported : 0,
+    reportedVsTheoretical: dealerReported - theoretical,
+    dealers: Array.from(dealers.values()).map((d) => ({ ...d, variance: d.reported - d.theoretical })),
+  };
+}
@@ -0,0 +1,125 @@
+// ============================================
+// Expense receipts
+// ============================================
+// Receipt photos live on disk under uploads/receipts, named after the expense
+// so they can be found again when the expense or its game is deleted. They
+// are never served statically - downloads go through the expenses router,
+// which checks the user can see the game. The file type is checked from the
+// image itself, not from what the client says it is.
+//
+// Usage:
+//   const saved = await saveReceipt(expense.id, file);
+//   await deleteReceiptFiles(expense);
+import { mkdir, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import { type Expense } from "../../generated/prisma";
+
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+
+// Image formats accepted, as sharp reports them, with the content type they're served as
+const RECEIPT_FORMATS: Record<string, { contentType: string; extension: string }> = {
+  jpeg: { contentType: "image/jpeg", extension: "jpg" },
+  png: { contentType: "image/png", extension: "png" },
+  webp: { contentType: "image/webp", extension: "webp" },
+  gif: { contentType: "image/gif", extension: "gif" },
+};
+
+const THUMBNAIL_WIDTH = 320;
+
+const receiptsDir = path.resolve(import.meta.dir, "../../uploads/receipts");
+
+export type StoredReceipt = Pick<
+  Expense,
+  "receiptFile" | "receiptThumbnail" | "receiptContentType" | "receiptSize" | "receiptUploadedAt"
+>;
+
+export type SaveReceiptResult =
+  | { receipt: StoredReceipt; error?: never }
+  | { receipt?: never; error: string; status: 400 | 413 | 415 };
+
+/**
+ * Check and store a receipt photo with its thumbnail
+ * Returns an error (with its HTTP status) when the file is too large, isn't a supported image,
+ * or is an image too damaged to read
+ */
+export async function saveReceipt(expenseId: string, file: File): Promise<SaveReceiptResult> {
+  if (file.size > MAX_RECEIPT_BYTES) {
+    return { error: `Receipts can be at most ${MAX_RECEIPT_BYTES / 1024 / 1024} MB`, status: 413 };
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const format = await sharp(buffer)
+    .metadata()
+    .then((m) => (m.format ? RECEIPT_FORMATS[m.format] : undefined))
+    .catch(() => undefined);
+  if (!format) {
+    return { error: "Receipts must be JPEG, PNG, WebP or GIF images", status: 415 };
+  }
+
+  // A fresh name per upload, so a replaced receipt is never served from a cache
+  const stem = `${expenseId}-${Date.now()}`;
+  const receiptFile = `${stem}.${format.extension}`;
+  const receiptThumbnail = `${stem}-thumb.jpg`;
+
+  // Phone photos carry their orientation in EXIF - apply it before shrinking.
+  // A truncated or corrupt file can have a good header and still fail to decode
+  const thumbnail = await sharp(buffer)
+    .rotate()
+    .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer()
+    .catch(() => undefined);
+  if (!thumbnail) {
+    return { error: "This receipt image is damaged and can't be read", status: 400 };
+  }
+
+  await mkdir(receiptsDir, { recursive: true });
+  await Promise.all([
+    writeFile(path.join(receiptsDir, receiptFile), buffer),
+    writeFile(path.join(receiptsDir, receiptThumbnail), thumbnail),
+  ]);
+
+  return {
+    receipt: {
+      receiptFile,
+      receiptThumbnail,
+      receiptContentType: format.contentType,
+      receiptSize: buffer.length,
+      receiptUploadedAt: new Date(),
+    },
+  };
+}
+
+/**
+ * Read a stored receipt, or its thumbnail
+ */
+export async function readReceipt(
+  receipt: Pick<Expense, "receiptFile" | "receiptThumbnail" | "receiptContentType">,
+  thumbnail: boolean,
+): Promise<{ body: ArrayBuffer; contentType: string } | null> {
+  const name = thumbnail ? receipt.receiptThumbnail : receipt.receiptFile;
+  if (!name) return null;
+
+  const file = Bun.file(path.join(receiptsDir, name));
+  if (!(await file.exists())) return null;
+
+  return {
+    body: await file.arrayBuffer(),
+    contentType: thumbnail ? "image/jpeg" : receipt.receiptContentType ?? "application/octet-stream",
+  };
+}
+
+/**
+ * Remove a receipt's files from disk - files already gone are ignored
+ */
+export async function deleteReceiptFiles(receipt: Pick<Expense, "receiptFile" | "receiptThumbnail">): Promise<void> {
+  const files = [receipt.receiptFile, receipt.receiptThumbnail].filter((f): f is string => !!f);
+  await Promise.all(
+    files.map((f) =>
+      unlink(path.join(receiptsDir, f)).catch((error) => {
+        if (error.code !== "ENOENT") console.error(`❌ [Expenses] Failed to delete receipt file ${f}:`, error);
+      }),
+    ),
+  );
+}
@@ -0,0 +1,135 @@
+// ============================================
+// Receivables (cross-session credit ledger)
+// ============================================
+// Credit still owed when a game ends is carried forward as a "marker" entry;
+// "repayment" entries pay markers down oldest-first, in any later game or
+// outside a game. Balances and aging are derived from the entries alone.
+//
+// A debt can be repaid against its buy-in or against the carried balance, so
+// both paths check repayableAmount - neither can repay what the other already did.
+//
+// Usage:
+//   await rollSessionCreditForward(sessionId);        // when a game ends
+//   const receivable = calculateReceivable(entries);  // balance + aging buckets
+//   const limit = await repayableAmount({ hostId, playerId, currency, buyIn });
+import { type CreditEntry, type CreditRepayment, type GameSession, type PlayerTransaction } from "../../generated/prisma";
+import { db } from "../db";
+import { calculateSessionLedger, ledgerInclude } from "./ledger";
+import { toMinorUnits } from "./money";
+import { remainingBalance } from "./repayments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReceivableEntry = Pick<CreditEntry, "type" | "amount" | "occurredAt">;
+
+export type Receivable = {
+  balance: number; // Minor units; negative when the player has overpaid
+  aging: {
+    days0to7: number;
+    days8to30: number;
+    days30plus: number;
+  };
+  oldestOutstandingAt: Date | null;
+  lastRepaymentAt: Date | null;
+};
+
+/**
+ * Outstanding balance for one player and currency, with the unpaid part of each
+ * marker aged by when it was given (repayments settle the oldest markers first)
+ */
+export function calculateReceivable(entries: ReceivableEntry[], now = new Date()): Receivable {
+  const markers = entries
+    .filter((e) => e.type === "marker")
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  const repayments = entries.filter((e) => e.type === "repayment");
+
+  let repaid = repayments.reduce((sum, e) => sum + e.amount, 0);
+  const aging = { days0to7: 0, days8to30: 0, days30plus: 0 };
+  let oldestOutstandingAt: Date | null = null;
+
+  markers.forEach((marker) => {
+    const applied = Math.min(repaid, marker.amount);
+    repaid -= applied;
+    const outstanding = marker.amount - applied;
+    if (outstanding <= 0) return;
+
+    oldestOutstandingAt ??= marker.occurredAt;
+    const ageDays = Math.floor((now.getTime() - marker.occurredAt.getTime()) / DAY_MS);
+    if (ageDays <= 7) aging.days0to7 += outstanding;
+    else if (ageDays <= 30) aging.days8to30 += outstanding;
+    else aging.days30plus += outstanding;
+  });
+
+  const lastRepaymentAt = repayments.reduce<Date | null>(
+    (latest, e) => (!latest || e.occurredAt > latest ? e.occurredAt : latest),
+    null,
+  );
+
+  return {
+    balance: aging.days0to7 + aging.days8to30 + aging.days30plus - repaid,
+    aging,
+    oldestOutstandingAt,
+    lastRepaymentAt,
+  };
+}
+
+/**
+ * Carry each player's unpaid credit out of an ended game as a marker
+ * Safe to call more than once - a game only rolls forward the first time
+ * Returns the number of markers created
+ */
+export async function rollSessionCreditForward(sessionId: string): Promise<number> {
+  const alreadyRolled = await db.creditEntry.findFirst({
+    where: { gameSessionId: sessionId, type: "marker" },
+  });
+  if (alreadyRolled) return 0;
+
+  const session = await db.gameSession.findUnique({
+    where: { id: sessionId },
+    include: ledgerInclude,
+  });
+  if (!session) return 0;
+
+  const ledger = calculateSessionLedger(session);
+  const markers = ledger.players
+    .filter((p) => p.creditOwed > 0 && p.playerId)
+    .map((p) => ({
+      type: "marker",
+      amount: toMinorUnits(p.creditOwed, session.currency),
+      currency: session.currency,
+      notes: `Unpaid credit from ${session.name}`,
+      occurredAt: session.endedAt ?? new Date(),
+      userId: session.userId,
+      playerId: p.playerId!,
+      gameSessionId: session.id,
+    }));
+
+  if (markers.length === 0) return 0;
+
+  const result = await db.creditEntry.createMany({ data: markers });
+  console.log(`🧾 [Credit] Carried ${result.count} credit markers forward from session ${session.id}`);
+  return result.count;
+}
+
+/**
+ * Most that can be repaid on a player's credit in one currency
+ * Against a buy-in: what's left on it, and once its game has ended (its credit was carried
+ * forward) no more than the player's carried balance. Otherwise: the carried balance.
+ */
+export async function repayableAmount(debt: {
+  hostId: string;
+  playerId: string | null;
+  currency: string;
+  buyIn?: Pick<PlayerTransaction, "amount" | "isPaid"> & {
+    repayments: Pick<CreditRepayment, "amount">[];
+    gameSession: Pick<GameSession, "isActive">;
+  };
+}): Promise<number> {
+  const onBuyIn = debt.buyIn ? remainingBalance(debt.buyIn, debt.buyIn.repayments) : Infinity;
+  if (debt.buyIn?.gameSession.isActive || !debt.playerId) return onBuyIn === Infinity ? 0 : onBuyIn;
+
+  const entries = await db.creditEntry.findMany({
+    where: { userId: debt.hostId, playerId: debt.playerId, currency: debt.currency },
+  });
+  return Math.max(0, Math.min(onBuyIn, calculateReceivable(entries).balance));
+}
@@ -0,0 +1,81 @@
+// ============================================
+// Credit buy-in repayments
+// ============================================
+// A credit buy-in is paid back by any number of repayment records, optionally
+// against an installment schedule. Pure - takes rows, returns minor units.
+//
+// A buy-in already marked paid with no repayment records was settled by a
+// cashout (or paid before repayments were recorded), so nothing remains.
+//
+// Usage:
+//   const plan = calculateRepaymentPlan(buyIn, buyIn.repayments, buyIn.installments);
+import {
+  type CreditInstallment,
+  type CreditRepayment,
+  type PlayerTransaction,
+} from "../../generated/prisma";
+
+export type InstallmentStatus = "paid" | "partial" | "due" | "overdue";
+
+export type InstallmentProgress = {
+  installment: CreditInstallment;
+  paid: number;
+  status: InstallmentStatus;
+};
+
+export type RepaymentPlan = {
+  repaid: number;
+  remaining: number;
+  installments: InstallmentProgress[];
+};
+
+/**
+ * Amount still owed on a credit buy-in
+ */
+export function remainingBalance(
+  buyIn: Pick<PlayerTransaction, "amount" | "isPaid">,
+  repayments: Pick<CreditRepayment, "amount">[],
+): number {
+  if (buyIn.isPaid) return 0;
+  return Math.max(0, buyIn.amount - repayments.reduce((sum, r) => sum + r.amount, 0));
+}
+
+/**
+ * Repaid and remaining amounts, with each installment's progress
+ * A schedule covers the balance remaining when it was agreed, so only repayments
+ * made since then count towards it - applied to the earliest installment first
+ */
+export function calculateRepaymentPlan(
+  buyIn: Pick<PlayerTransaction, "amount" | "isPaid">,
+  repayments: Pick<CreditRepayment, "amount" | "createdAt">[],
+  installments: CreditInstallment[],
+  now = new Date(),
+): RepaymentPlan {
+  const repaid = repayments.reduce((sum, r) => sum + r.amount, 0);
+  const remaining = remainingBalance(buyIn, repayments);
+
+  const sorted = [...installments].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  const agreedAt = sorted.reduce<Date | null>(
+    (earliest, i) => (!earliest || i.createdAt < earliest ? i.createdAt : earliest),
+    null,
+  );
+  // A paid-off buy-in (e.g. settled by a cashout) has met every installment
+  let available = buyIn.isPaid
+    ? Infinity
+    : repayments.filter((r) => agreedAt && r.createdAt >= agreedAt).reduce((sum, r) => sum + r.amount, 0);
+
+  const progress = sorted.map((installment) => {
+    const paid = Math.min(available, installment.amount);
+    available -= paid;
+
+    let status: InstallmentStatus;
+    if (paid >= installment.amount) status = "paid";
+    else if (installment.dueDate < now) status = "overdue";
+    else if (paid > 0) status = "partial";
+    else status = "due";
+
+    return { installment, paid, status };
+  });
+
+  return { repaid, remaining, installments: progress };
+}
@@ -0,0 +1,87 @@
+// ============================================
+// Dealer rotation
+// ============================================
+// A game's rotation is a lineup of roster dealers and a down length. Each
+// table has at most one dealer in the box; pushing a table ends that dealer's
+// down - recording a timed DealerDown - and sends in the next dealer in the
+// lineup who isn't already dealing somewhere else.
+//
+// Usage:
+//   const next = nextInLineup(rotation.lineup, rotation.nextIndex, (id) => !busy.has(id));
+//   await endDown(tx, box, { tips, rake, endedAt: new Date(), createdById: user.id, createdByInitials: initials });
+import { type DealerBox, type Prisma } from "../../generated/prisma";
+import { db } from "../db";
+
+export type DownClock = {
+  endsAt: Date;
+  secondsRemaining: number; // Negative once the down is overdue
+};
+
+/**
+ * The dealer due next: the first available dealer from nextIndex onwards, wrapping round the lineup
+ */
+export function nextInLineup(
+  lineup: string[],
+  nextIndex: number,
+  isAvailable: (dealerId: string) => boolean,
+): { dealerId: string; position: number } | null {
+  for (let i = 0; i < lineup.length; i++) {
+    const position = (nextIndex + i) % lineup.length;
+    if (isAvailable(lineup[position]!)) return { dealerId: lineup[position]!, position };
+  }
+  return null;
+}
+
+/**
+ * When a down that started at startedAt is due to end, and how long is left
+ */
+export function downClock(startedAt: Date, downMinutes: number, now: Date): DownClock {
+  const endsAt = new Date(startedAt.getTime() + downMinutes * 60_000);
+  return {
+    endsAt,
+    secondsRemaining: Math.round((endsAt.getTime() - now.getTime()) / 1000),
+  };
+}
+
+/**
+ * Take the dealer out of the box, recording their down with its actual start and end
+ */
+export async function endDown(
+  tx: Prisma.TransactionClient,
+  box: DealerBox,
+  down: { tips: number; rake: number; endedAt: Date; createdById?: string; createdByInitials?: string },
+) {
+  await tx.dealerBox.delete({ where: { id: box.id } });
+  return tx.dealerDown.create({
+    data: {
+      dealerName: box.dealerName,
+      dealerId: box.dealerId,
+      tableId: box.tableId,
+      tips: down.tips,
+      rake: down.rake,
+      timestamp: down.endedAt,
+      startedAt: box.startedAt,
+      endedAt: down.endedAt,
+      gameSessionId: box.gameSessionId,
+      createdById: down.createdById ?? null,
+      createdByInitials: down.createdByInitials ?? null,
+    },
+  });
+}
+
+/**
+ * End every down still running in a game (or at one table) - tips and rake
+ * are recorded as 0 and can be filled in on the down afterwards
+ */
+export async function closeDealerBoxes(gameSessionId: string, endedAt: Date, tableId?: string): Promise<void> {
+  const boxes = await db.dealerBox.findMany({
+    where: { gameSessionId, ...(tableId ? { tableId } : {}) },
+  });
+  if (boxes.length === 0) return;
+
+  await db.$transaction(async (tx) => {
+    for (const box of boxes) {
+      await endDown(tx, box, { tips: 0, rake: 0, endedAt });
+    }
+  });
+}
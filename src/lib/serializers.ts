@@ -0,0 +1,605 @@
+// ============================================
+// Response serializers
+// ============================================
+// Convert database rows into the API contract shapes. Money is stored in
+// minor units, so every amount is converted here using the session currency.
+//
+// Usage:
+//   const t = await db.playerTransaction.findUnique({ where: { id }, include: transactionInclude });
+//   return c.json({ transaction: formatPlayerTransaction(t, gameSession.currency) });
+import {
+  type CashMovement as CashMovementRow,
+  type ConcessionItem as ConcessionItemRow,
+  type ConcessionSale as ConcessionSaleRow,
+  type CreditEntry as CreditEntryRow,
+  type CreditRepayment as CreditRepaymentRow,
+  type Dealer as DealerRow,
+  type DealerDown as DealerDownRow,
+  type DealerPayout as DealerPayoutRow,
+  type Expense as ExpenseRow,
+  type ExpenseCategory as ExpenseCategoryRow,
+  type GameSession as GameSessionRow,
+  type GameTable as GameTableRow,
+  type JackpotEntry as JackpotEntryRow,
+  type JackpotFund as JackpotFundRow,
+  type Player as PlayerRow,
+  type PlayerSeat as PlayerSeatRow,
+  type PlayerTransaction as PlayerTransactionRow,
+  type RakePot as RakePotRow,
+  type RakeStructure as RakeStructureRow,
+  type SettlementTransfer as SettlementTransferRow,
+  type TableMove as TableMoveRow,
+  type TillCount as TillCountRow,
+  type TillCountItem as TillCountItemRow,
+  type TimeCollection as TimeCollectionRow,
+  type TipPolicy as TipPolicyRow,
+  type TournamentEntry as TournamentEntryRow,
+  type VenueCost as VenueCostRow,
+} from "../../generated/prisma";
+import {
+  type CashMovement,
+  type ConcessionItem,
+  type ConcessionSale,
+  type CreditEntry,
+  type CreditInstallment,
+  type CreditRepayment,
+  type Dealer,
+  type DealerDown,
+  type DealerPayout,
+  type Expense,
+  type ExpenseCategory,
+  type GameSession,
+  type GameTable,
+  type JackpotEntry,
+  type JackpotFund,
+  type Player,
+  type PlayerSeat,
+  type PlayerTransaction,
+  type RakePot,
+  type RakeStructure,
+  type SettlementTransfer,
+  type TableMove,
+  type TillCount,
+  type TimeCollection,
+  type TipPolicy,
+  type TournamentEntry,
+  type VenueCost,
+} from "@/shared/contracts";
+import { currencyExponent, fromMinorUnits } from "./money";
+import { type InstallmentProgress, remainingBalance } from "./repayments";
+
+// Include the ids of the credit buy-ins and tab sales a cashout settled, and what was repaid on a credit buy-in
+export const transactionInclude = {
+  settledBuyIns: { select: { id: true } },
+  settledTabSales: { select: { id: true } },
+  repayments: { select: { amount: true, method: true } },
+} as const;
+
+type TransactionWithSettlement = PlayerTransactionRow & {
+  settledBuyIns?: { id: string }[];
+  settledTabSales?: { id: string }[];
+  repayments?: { amount: number }[];
+};
+
+/**
+ * Convert a game session row (without relations) into the API contract shape
+ */
+export function formatGameSession(session: GameSessionRow): GameSession {
+  return {
+    id: session.id,
+    name: session.name,
+    tableName: session.tableName,
+    startedAt: session.startedAt.toISOString(),
+    endedAt: session.endedAt?.toISOString() ?? null,
+    isActive: session.isActive,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+    currency: session.currency,
+    currencyExponent: currencyExponent(session.currency),
+    language: session.language,
+    totalRake: fromMinorUnits(session.totalRake, session.currency),
+    revenueMode: session.revenueMode as "rake" | "time",
+    timeFee: fromMinorUnits(session.timeFee, session.currency),
+    timeFeeMinutes: session.timeFeeMinutes,
+    sessionType: session.sessionType as "cash" | "tournament",
+  };
+}
+
+/**
+ * Convert a transaction row into the API contract shape
+ * A cashout only carries a settlement when one was recorded - otherwise it was paid in full via paymentMethod
+ */
+export function formatPlayerTransaction(t: TransactionWithSettlement, currency: string): PlayerTransaction {
+  const hasSettlement = t.cashPaid !== null || t.electronicPaid !== null || t.creditOffset !== null || t.tabOffset !== null;
+
+  return {
+    id: t.id,
+    playerName: t.playerName,
+    playerId: t.playerId,
+    type: t.type as "buy-in" | "cashout",
+    amount: fromMinorUnits(t.amount, currency),
+    paymentMethod: t.paymentMethod as "cash" | "electronic" | "credit",
+    notes: t.notes,
+    isPaid: t.isPaid,
+    timestamp: t.timestamp.toISOString(),
+    gameSessionId: t.gameSessionId,
+    createdByInitials: t.createdByInitials,
+    settlement: hasSettlement
+      ? {
+          cashPaid: fromMinorUnits(t.cashPaid ?? 0, currency),
+          electronicPaid: fromMinorUnits(t.electronicPaid ?? 0, currency),
+          creditOffset: fromMinorUnits(t.creditOffset ?? 0, currency),
+          tabOffset: fromMinorUnits(t.tabOffset ?? 0, currency),
+          settledBuyInIds: t.settledBuyIns?.map((b) => b.id) ?? [],
+          settledTabSaleIds: t.settledTabSales?.map((s) => s.id) ?? [],
+        }
+      : null,
+    settledByCashoutId: t.settledByCashoutId,
+    remainingBalance: t.type === "buy-in" && t.paymentMethod === "credit"
+      ? fromMinorUnits(remainingBalance(t, t.repayments ?? []), currency)
+      : null,
+    tableId: t.tableId,
+  };
+}
+
+/**
+ * Convert a game table row into the API contract shape
+ */
+export function formatGameTable(t: GameTableRow): GameTable {
+  return {
+    id: t.id,
+    name: t.name,
+    stakes: t.stakes,
+    gameType: t.gameType,
+    openedAt: t.openedAt.toISOString(),
+    closedAt: t.closedAt?.toISOString() ?? null,
+    isOpen: t.closedAt === null,
+    gameSessionId: t.gameSessionId,
+  };
+}
+
+/**
+ * Convert a table move row into the API contract shape
+ */
+export function formatTableMove(m: TableMoveRow): TableMove {
+  return {
+    id: m.id,
+    playerName: m.playerName,
+    playerId: m.playerId,
+    fromTableId: m.fromTableId,
+    toTableId: m.toTableId,
+    movedAt: m.movedAt.toISOString(),
+    createdByInitials: m.createdByInitials,
+  };
+}
+
+/**
+ * Convert a registry player row into the API contract shape
+ */
+export function formatPlayer(p: PlayerRow): Player {
+  return {
+    id: p.id,
+    name: p.name,
+    nickname: p.nickname,
+    aliases: p.aliases,
+    phone: p.phone,
+    email: p.email,
+    notes: p.notes,
+    createdAt: p.createdAt.toISOString(),
+    updatedAt: p.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a dealer down row into the API contract shape
+ */
+export function formatDealerDown(d: DealerDownRow, currency: string): DealerDown {
+  return {
+    id: d.id,
+    dealerName: d.dealerName,
+    tips: fromMinorUnits(d.tips, currency),
+    rake: fromMinorUnits(d.rake, currency),
+    tipsPaid: d.tipsPaid,
+    rakeClaimed: d.rakeClaimed,
+    timestamp: d.timestamp.toISOString(),
+    gameSessionId: d.gameSessionId,
+    createdByInitials: d.createdByInitials,
+    tableId: d.tableId,
+    dealerId: d.dealerId,
+    startedAt: d.startedAt?.toISOString() ?? null,
+    endedAt: d.endedAt?.toISOString() ?? null,
+    payoutId: d.payoutId,
+  };
+}
+
+/**
+ * Convert a dealer payout row (with the ids of the downs it covered) into the API contract shape
+ */
+export function formatDealerPayout(p: DealerPayoutRow & { downs: { id: string }[] }, currency: string): DealerPayout {
+  return {
+    id: p.id,
+    dealerName: p.dealerName,
+    dealerId: p.dealerId,
+    downIds: p.downs.map((d) => d.id),
+    grossTips: fromMinorUnits(p.grossTips, currency),
+    houseCut: fromMinorUnits(p.houseCut, currency),
+    netPaid: fromMinorUnits(p.netPaid, currency),
+    method: p.method as "cash" | "electronic",
+    policyName: p.policyName,
+    policyId: p.policyId,
+    paidAt: p.paidAt.toISOString(),
+    currency,
+    gameSessionId: p.gameSessionId,
+    createdByInitials: p.createdByInitials,
+  };
+}
+
+/**
+ * Convert a tip policy row into the API contract shape
+ */
+export function formatTipPolicy(p: TipPolicyRow): TipPolicy {
+  return {
+    id: p.id,
+    name: p.name,
+    type: p.type as "house-percent" | "toke-fee" | "pooled",
+    housePercent: p.housePercent,
+    tokeFee: fromMinorUnits(p.tokeFee, p.currency),
+    currency: p.currency,
+    poolSplit: p.poolSplit as "downs" | "hours",
+    isDefault: p.isDefault,
+    createdAt: p.createdAt.toISOString(),
+    updatedAt: p.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a roster dealer row into the API contract shape
+ */
+export function formatDealer(d: DealerRow): Dealer {
+  return {
+    id: d.id,
+    name: d.name,
+    nickname: d.nickname,
+    phone: d.phone,
+    email: d.email,
+    notes: d.notes,
+    payModel: d.payModel as "per-down" | "hourly" | "tips-only",
+    payRate: fromMinorUnits(d.payRate, d.currency),
+    currency: d.currency,
+    active: d.active,
+    createdAt: d.createdAt.toISOString(),
+    updatedAt: d.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Convert an expense row into the API contract shape
+ */
+export function formatExpense(e: ExpenseRow & { category: Pick<ExpenseCategoryRow, "name"> }, currency: string): Expense {
+  return {
+    id: e.id,
+    description: e.description,
+    amount: fromMinorUnits(e.amount, currency),
+    categoryId: e.categoryId,
+    categoryName: e.category.name,
+    paymentMethod: e.paymentMethod as "cash" | "electronic",
+    paidBy: e.paidBy as "house" | "member" | "outside",
+    paidByUserId: e.paidByUserId,
+    paidByName: e.paidByName,
+    paidOut: e.paidOut,
+    paidOutAt: e.paidOutAt?.toISOString() ?? null,
+    paidOutMethod: e.paidOutMethod as "cash" | "electronic" | null,
+    paidOutByInitials: e.paidOutByInitials,
+    notes: e.notes,
+    timestamp: e.timestamp.toISOString(),
+    gameSessionId: e.gameSessionId,
+    createdByInitials: e.createdByInitials,
+    receipt: e.receiptFile && e.receiptUploadedAt
+      ? {
+          contentType: e.receiptContentType ?? "application/octet-stream",
+          size: e.receiptSize ?? 0,
+          uploadedAt: e.receiptUploadedAt.toISOString(),
+          url: `/api/expenses/${e.id}/receipt`,
+          thumbnailUrl: `/api/expenses/${e.id}/receipt?size=thumbnail`,
+        }
+      : null,
+  };
+}
+
+/**
+ * Convert an expense category row into the API contract shape
+ */
+export function formatExpenseCategory(c: ExpenseCategoryRow): ExpenseCategory {
+  return {
+    id: c.id,
+    name: c.name,
+    icon: c.icon,
+    color: c.color,
+    budget: c.monthlyBudget !== null && c.budgetCurrency
+      ? { monthlyAmount: fromMinorUnits(c.monthlyBudget, c.budgetCurrency), currency: c.budgetCurrency }
+      : null,
+    active: c.active,
+    createdAt: c.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a venue cost row into the API contract shape
+ */
+export function formatVenueCost(v: VenueCostRow): VenueCost {
+  return {
+    id: v.id,
+    name: v.name,
+    amount: fromMinorUnits(v.amount, v.currency),
+    currency: v.currency,
+    frequency: v.frequency as "monthly" | "one-off",
+    allocation: v.allocation as "even" | "hours" | "rake",
+    startMonth: v.startMonth,
+    endMonth: v.endMonth,
+    notes: v.notes,
+    createdAt: v.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a concession item row into the API contract shape
+ */
+export function formatConcessionItem(i: ConcessionItemRow): ConcessionItem {
+  return {
+    id: i.id,
+    name: i.name,
+    price: fromMinorUnits(i.price, i.currency),
+    cost: fromMinorUnits(i.cost, i.currency),
+    currency: i.currency,
+    active: i.active,
+    createdAt: i.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a concession sale row into the API contract shape
+ */
+export function formatConcessionSale(s: ConcessionSaleRow, currency: string): ConcessionSale {
+  return {
+    id: s.id,
+    itemId: s.itemId,
+    itemName: s.itemName,
+    quantity: s.quantity,
+    unitPrice: fromMinorUnits(s.unitPrice, currency),
+    amount: fromMinorUnits(s.quantity * s.unitPrice, currency),
+    playerName: s.playerName,
+    playerId: s.playerId,
+    method: s.method as "cash" | "electronic" | "tab",
+    settledAt: s.settledAt?.toISOString() ?? null,
+    settledMethod: s.settledMethod as "cash" | "electronic" | "cashout" | null,
+    settledByCashoutId: s.settledByCashoutId,
+    notes: s.notes,
+    timestamp: s.timestamp.toISOString(),
+    createdByInitials: s.createdByInitials,
+  };
+}
+
+/**
+ * Convert a cash movement row into the API contract shape
+ */
+export function formatCashMovement(m: CashMovementRow, currency: string): CashMovement {
+  return {
+    id: m.id,
+    type: m.type as "float" | "drop" | "add",
+    amount: fromMinorUnits(m.amount, currency),
+    notes: m.notes,
+    timestamp: m.timestamp.toISOString(),
+    gameSessionId: m.gameSessionId,
+    createdByInitials: m.createdByInitials,
+  };
+}
+
+/**
+ * Convert a credit ledger entry into the API contract shape (in the entry's own currency)
+ */
+export function formatCreditEntry(e: CreditEntryRow): CreditEntry {
+  return {
+    id: e.id,
+    type: e.type as "marker" | "repayment",
+    amount: fromMinorUnits(e.amount, e.currency),
+    currency: e.currency,
+    method: e.method as "cash" | "electronic" | null,
+    notes: e.notes,
+    occurredAt: e.occurredAt.toISOString(),
+    playerId: e.playerId,
+    gameSessionId: e.gameSessionId,
+    createdByInitials: e.createdByInitials,
+  };
+}
+
+/**
+ * Convert a credit buy-in repayment row into the API contract shape
+ */
+export function formatCreditRepayment(r: CreditRepaymentRow, currency: string): CreditRepayment {
+  return {
+    id: r.id,
+    amount: fromMinorUnits(r.amount, currency),
+    method: r.method as "cash" | "electronic",
+    notes: r.notes,
+    paidAt: r.paidAt.toISOString(),
+    transactionId: r.transactionId,
+    createdByInitials: r.createdByInitials,
+  };
+}
+
+/**
+ * Convert an installment and its progress into the API contract shape
+ */
+export function formatCreditInstallment(p: InstallmentProgress, currency: string): CreditInstallment {
+  return {
+    id: p.installment.id,
+    dueDate: p.installment.dueDate.toISOString(),
+    amount: fromMinorUnits(p.installment.amount, currency),
+    paid: fromMinorUnits(p.paid, currency),
+    status: p.status,
+  };
+}
+
+/**
+ * Convert a settlement transfer row into the API contract shape
+ */
+export function formatSettlementTransfer(t: SettlementTransferRow, currency: string): SettlementTransfer {
+  return {
+    id: t.id,
+    mode: t.mode as "bank" | "peer-to-peer",
+    from: { playerId: t.fromPlayerId, name: t.fromName, isHouse: t.fromPlayerId === null },
+    to: { playerId: t.toPlayerId, name: t.toName, isHouse: t.toPlayerId === null },
+    amount: fromMinorUnits(t.amount, currency),
+    completed: t.completed,
+    completedAt: t.completedAt?.toISOString() ?? null,
+    createdAt: t.createdAt.toISOString(),
+    gameSessionId: t.gameSessionId,
+  };
+}
+
+/**
+ * Convert a till count row and its denomination lines into the API contract shape
+ */
+export function formatTillCount(t: TillCountRow & { items: TillCountItemRow[] }, currency: string): TillCount {
+  return {
+    id: t.id,
+    total: fromMinorUnits(t.total, currency),
+    expected: fromMinorUnits(t.expected, currency),
+    variance: fromMinorUnits(t.variance, currency),
+    isClosing: t.isClosing,
+    notes: t.notes,
+    countedAt: t.countedAt.toISOString(),
+    gameSessionId: t.gameSessionId,
+    createdByInitials: t.createdByInitials,
+    items: [...t.items]
+      .sort((a, b) => b.value - a.value)
+      .map((item) => ({
+        value: fromMinorUnits(item.value, currency),
+        quantity: item.quantity,
+        subtotal: fromMinorUnits(item.value * item.quantity, currency),
+      })),
+  };
+}
+
+/**
+ * Convert a rake structure row into the API contract shape
+ */
+export function formatRakeStructure(r: RakeStructureRow, currency: string): RakeStructure {
+  return {
+    id: r.id,
+    tableId: r.tableId,
+    percentage: r.percentage,
+    cap: fromMinorUnits(r.cap, currency),
+    noFlopNoDrop: r.noFlopNoDrop,
+    promoDrop: fromMinorUnits(r.promoDrop, currency),
+    updatedAt: r.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a logged pot row into the API contract shape
+ */
+export function formatRakePot(p: RakePotRow, currency: string): RakePot {
+  return {
+    id: p.id,
+    potSize: fromMinorUnits(p.potSize, currency),
+    sawFlop: p.sawFlop,
+    rake: fromMinorUnits(p.rake, currency),
+    promoDrop: fromMinorUnits(p.promoDrop, currency),
+    dealerName: p.dealerName,
+    dealerId: p.dealerId,
+    tableId: p.tableId,
+    timestamp: p.timestamp.toISOString(),
+    createdByInitials: p.createdByInitials,
+  };
+}
+
+/**
+ * Convert a player seat row into the API contract shape
+ */
+export function formatPlayerSeat(s: PlayerSeatRow): PlayerSeat {
+  return {
+    id: s.id,
+    playerName: s.playerName,
+    playerId: s.playerId,
+    tableId: s.tableId,
+    seatedAt: s.seatedAt.toISOString(),
+    leftAt: s.leftAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Convert a time collection row into the API contract shape
+ */
+export function formatTimeCollection(t: TimeCollectionRow, currency: string): TimeCollection {
+  return {
+    id: t.id,
+    playerName: t.playerName,
+    playerId: t.playerId,
+    amount: fromMinorUnits(t.amount, currency),
+    method: t.method as "cash" | "electronic",
+    collectedAt: t.collectedAt.toISOString(),
+    createdByInitials: t.createdByInitials,
+  };
+}
+
+/**
+ * Convert a tournament entry row into the API contract shape
+ */
+export function formatTournamentEntry(
+  e: TournamentEntryRow & { payoutTransaction: Pick<PlayerTransactionRow, "amount"> | null },
+  finishPosition: number | null,
+  currency: string,
+): TournamentEntry {
+  return {
+    id: e.id,
+    playerName: e.playerName,
+    playerId: e.playerId,
+    rebuys: e.rebuys,
+    addOns: e.addOns,
+    prizeContributed: fromMinorUnits(e.prizeContributed, currency),
+    houseFeesPaid: fromMinorUnits(e.houseFeesPaid, currency),
+    registeredAt: e.registeredAt.toISOString(),
+    bustedAt: e.bustedAt?.toISOString() ?? null,
+    finishPosition,
+    payout: e.payoutTransaction ? fromMinorUnits(e.payoutTransaction.amount, currency) : null,
+    payoutTransactionId: e.payoutTransactionId,
+  };
+}
+
+/**
+ * Convert a jackpot fund row into the API contract shape
+ * The balance comes from the fund's entries - see fundBalance
+ */
+export function formatJackpotFund(f: JackpotFundRow, balance: number): JackpotFund {
+  return {
+    id: f.id,
+    name: f.name,
+    currency: f.currency,
+    startingBalance: fromMinorUnits(f.startingBalance, f.currency),
+    balance: fromMinorUnits(balance, f.currency),
+    active: f.active,
+    createdAt: f.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a jackpot entry row into the API contract shape
+ */
+export function formatJackpotEntry(e: JackpotEntryRow & { fund: Pick<JackpotFundRow, "name"> }, currency: string): JackpotEntry {
+  return {
+    id: e.id,
+    fundId: e.fundId,
+    fundName: e.fund.name,
+    type: e.type as "drop" | "payout",
+    amount: fromMinorUnits(e.amount, currency),
+    dealerDownId: e.dealerDownId,
+    playerName: e.playerName,
+    playerId: e.playerId,
+    hand: e.hand,
+    method: e.method as "cash" | "electronic" | null,
+    notes: e.notes,
+    timestamp: e.timestamp.toISOString(),
+    createdByInitials: e.createdByInitials,
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { HOUSE, planSettlement, type PlannedTransfer, type SettlementPosition } from "./settlement";
+
+const position = (name: string, net: number): SettlementPosition => ({ playerId: name.toLowerCase(), name, net });
+
+// What each party ends up with once the transfers are made - everyone should be at zero
+function balances(positions: SettlementPosition[], transfers: PlannedTransfer[]) {
+  const net = new Map<string | null, number>(positions.map((p) => [p.playerId, p.net]));
+  net.set(HOUSE.playerId, -positions.reduce((sum, p) => sum + p.net, 0));
+  transfers.forEach((t) => {
+    net.set(t.from.playerId, (net.get(t.from.playerId) ?? 0) + t.amount);
+    net.set(t.to.playerId, (net.get(t.to.playerId) ?? 0) - t.amount);
+  });
+  return Array.from(net.values()).filter((n) => n !== 0);
+}
+
+describe("peer-to-peer settlement", () => {
+  test.each<[string, SettlementPosition[], number]>([
+    ["nothing to settle", [], 0],
+    ["one debtor, one creditor", [position("Alice", -500), position("Bob", 500)], 1],
+    ["the house covers the difference", [position("Alice", -500), position("Bob", 300)], 2],
+    [
+      "two exact pairs",
+      [position("Alice", -500), position("Bob", 500), position("Cara", -200), position("Dan", 200)],
+      2,
+    ],
+    [
+      "zero-sum groups that aren't pairs",
+      [
+        position("Alice", -700), position("Bob", 300), position("Cara", 400),
+        position("Dan", -600), position("Eve", 100), position("Finn", 500),
+      ],
+      4,
+    ],
+    [
+      "where largest-first would need an extra transfer",
+      [
+        position("Alice", -300), position("Bob", -300), position("Cara", -400), position("Dan", 200),
+        position("Eve", -400), position("Finn", 200), position("Gus", 1000),
+      ],
+      5,
+    ],
+  ])("%s", (_, positions, count) => {
+    const transfers = planSettlement(positions, "peer-to-peer");
+    expect(transfers).toHaveLength(count);
+    expect(balances(positions, transfers)).toEqual([]);
+    expect(transfers.every((t) => t.amount > 0)).toBe(true);
+  });
+
+  test("an exact pair is settled directly", () => {
+    const transfers = planSettlement(
+      [position("Alice", -500), position("Bob", 300), position("Cara", 500), position("Dan", -300)],
+      "peer-to-peer",
+    );
+    expect(transfers.map((t) => `${t.from.name}->${t.to.name}:${t.amount}`).sort()).toEqual([
+      "Alice->Cara:500",
+      "Dan->Bob:300",
+    ]);
+  });
+
+  test("large games still balance", () => {
+    const positions = Array.from({ length: 20 }, (_, i) => position(`P${i}`, (i % 2 ? 1 : -1) * (100 + i * 37)));
+    const transfers = planSettlement(positions, "peer-to-peer");
+    expect(balances(positions, transfers)).toEqual([]);
+    expect(transfers.length).toBeLessThanOrEqual(positions.length);
+  });
+});
+
+describe("bank settlement", () => {
+  test("every player settles with the house", () => {
+    const positions = [position("Alice", -500), position("Bob", 500), position("Cara", 200)];
+    const transfers = planSettlement(positions, "bank");
+    expect(transfers).toHaveLength(3);
+    expect(transfers.every((t) => t.from.playerId === null || t.to.playerId === null)).toBe(true);
+    expect(balances(positions, transfers)).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+// ============================================
+// End-of-night settlement
+// ============================================
+// Works out who sends whom money electronically once a game ends. Electronic
+// buy-ins are collected and electronic cashouts paid out at the end of the
+// night, so each player's position is what they were paid out electronically
+// minus what they bought in electronically. Pure - takes rows, returns minor units.
+//
+// Modes:
+//   - bank: every player settles with the house, one transfer each
+//   - peer-to-peer: players pay each other directly, the house only covers the difference,
+//     in the fewest transfers (exact for up to 16 parties, greedy beyond)
+//
+// Usage:
+//   const transfers = planSettlement(calculateElectronicPositions(session.playerTransactions), "peer-to-peer");
+import { type PlayerTransaction } from "../../generated/prisma";
+
+export type SettlementMode = "bank" | "peer-to-peer";
+
+// A party to a transfer - playerId null is the house
+export type SettlementParty = {
+  playerId: string | null;
+  name: string;
+};
+
+export type SettlementPosition = SettlementParty & {
+  net: number; // Positive = is owed money, negative = owes money
+};
+
+export type PlannedTransfer = {
+  from: SettlementParty;
+  to: SettlementParty;
+  amount: number;
+};
+
+export const HOUSE: SettlementParty = { playerId: null, name: "House" };
+
+/**
+ * Each registry player's electronic position for the game
+ * Transactions without a registry player (it was deleted) can't be settled and are left out
+ */
+export function calculateElectronicPositions(
+  transactions: (Pick<
+    PlayerTransaction,
+    "playerName" | "playerId" | "type" | "amount" | "paymentMethod" | "electronicPaid"
+  > & { player?: { name: string } | null })[],
+): SettlementPosition[] {
+  const positions = new Map<string, SettlementPosition>();
+
+  transactions.forEach((t) => {
+    if (!t.playerId) return;
+    const position = positions.get(t.playerId) ?? { playerId: t.playerId, name: t.player?.name ?? t.playerName, net: 0 };
+
+    if (t.type === "buy-in" && t.paymentMethod === "electronic") {
+      position.net -= t.amount;
+    } else if (t.type === "cashout") {
+      position.net += t.electronicPaid ?? (t.paymentMethod === "electronic" ? t.amount : 0);
+    }
+    positions.set(t.playerId, position);
+  });
+
+  return Array.from(positions.values()).filter((p) => p.net !== 0);
+}
+
+/**
+ * Apply transfers that already happened, leaving what is still to settle
+ */
+export function applyCompletedTransfers(
+  positions: SettlementPosition[],
+  completed: PlannedTransfer[],
+): SettlementPosition[] {
+  const byPlayer = new Map(positions.map((p) => [p.playerId, { ...p }]));
+
+  const adjust = (party: SettlementParty, delta: number) => {
+    if (!party.playerId) return; // The house absorbs the difference in either mode
+    const position = byPlayer.get(party.playerId) ?? { ...party, net: 0 };
+    position.net += delta;
+    byPlayer.set(party.playerId, position);
+  };
+
+  completed.forEach((t) => {
+    adjust(t.from, t.amount);
+    adjust(t.to, -t.amount);
+  });
+
+  return Array.from(byPlayer.values()).filter((p) => p.net !== 0);
+}
+
+// Above this many parties the exact search (2^n subsets) is too slow - the plan falls back to greedy
+const MAX_EXACT_PARTIES = 16;
+
+type Party = SettlementParty & { net: number };
+
+const party = ({ playerId, name }: SettlementParty): SettlementParty => ({ playerId, name });
+
+/**
+ * Settle the largest debtor against the largest creditor until everyone is at zero
+ * Each transfer clears at least one party, so a group of n takes at most n - 1
+ */
+function settleLargestFirst(debtors: Party[], creditors: Party[], transfers: PlannedTransfer[]) {
+  for (;;) {
+    const debtor = debtors.filter((p) => p.net < 0).sort((a, b) => a.net - b.net)[0];
+    const creditor = creditors.filter((p) => p.net > 0).sort((a, b) => b.net - a.net)[0];
+    if (!debtor || !creditor) break;
+
+    const amount = Math.min(-debtor.net, creditor.net);
+    transfers.push({ from: party(debtor), to: party(creditor), amount });
+    debtor.net += amount;
+    creditor.net -= amount;
+  }
+}
+
+/**
+ * Split the parties into as many groups that sum to zero as possible
+ * Settling each group on its own takes (group size - 1) transfers, so the most groups
+ * means the fewest transfers. Dynamic programming over subsets - keep n small.
+ */
+function zeroSumGroups(parties: Party[]): Party[][] {
+  const n = parties.length;
+  const full = (1 << n) - 1;
+  const sums = new Array<number>(full + 1).fill(0);
+  const groups = new Array<number>(full + 1).fill(0);
+  const last = new Array<number>(full + 1).fill(-1); // The party removed to reach the best sub-mask
+
+  for (let mask = 1; mask <= full; mask++) {
+    const low = 31 - Math.clz32(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)]! + parties[low]!.net;
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i))) continue;
+      const candidate = groups[mask ^ (1 << i)]!;
+      if (last[mask] === -1 || candidate > groups[mask]!) {
+        groups[mask] = candidate;
+        last[mask] = i;
+      }
+    }
+    if (sums[mask] === 0) groups[mask]! += 1;
+  }
+
+  // Removing parties one by one walks back through the sub-masks; each zero-sum sub-mask
+  // on the way closes a group
+  const result: Party[][] = [];
+  let current: Party[] = [];
+  for (let mask = full; mask > 0; mask ^= 1 << last[mask]!) {
+    if (sums[mask] === 0 && current.length > 0) {
+      result.push(current);
+      current = [];
+    }
+    current.push(parties[last[mask]!]!);
+  }
+  if (current.length > 0) result.push(current);
+  return result;
+}
+
+/**
+ * The transfers that bring every player and the house to zero
+ * Peer-to-peer uses the fewest transfers possible for up to MAX_EXACT_PARTIES parties
+ * (players plus the house). Beyond that it's a greedy approximation - exact matches first,
+ * then the largest debtor against the largest creditor - at most one transfer fewer than
+ * there are parties, but not always the minimum.
+ */
+export function planSettlement(positions: SettlementPosition[], mode: SettlementMode): PlannedTransfer[] {
+  if (mode === "bank") {
+    return positions
+      .filter((p) => p.net !== 0)
+      .map((p) => (p.net < 0
+        ? { from: party(p), to: HOUSE, amount: -p.net }
+        : { from: HOUSE, to: party(p), amount: p.net }));
+  }
+
+  // The house is owed whatever the players owe overall (and vice versa)
+  const houseNet = -positions.reduce((sum, p) => sum + p.net, 0);
+  const parties = [...positions, { ...HOUSE, net: houseNet }]
+    .filter((p) => p.net !== 0)
+    .map((p) => ({ ...p }));
+  const transfers: PlannedTransfer[] = [];
+
+  if (parties.length <= MAX_EXACT_PARTIES) {
+    zeroSumGroups(parties).forEach((group) => {
+      settleLargestFirst(group.filter((p) => p.net < 0), group.filter((p) => p.net > 0), transfers);
+    });
+    return transfers;
+  }
+
+  const debtors = parties.filter((p) => p.net < 0);
+  const creditors = parties.filter((p) => p.net > 0);
+
+  // Exact matches settle two parties with one transfer
+  debtors.forEach((debtor) => {
+    const match = creditors.find((c) => c.net > 0 && c.net === -debtor.net);
+    if (!match) return;
+    transfers.push({ from: party(debtor), to: party(match), amount: match.net });
+    debtor.net = 0;
+    match.net = 0;
+  });
+
+  settleLargestFirst(debtors, creditors, transfers);
+  return transfers;
+}
@@ -0,0 +1,62 @@
+// ============================================
+// Game tables
+// ============================================
+// A game can run several tables under one till. Transactions and dealer downs
+// are tagged to a table; when the client doesn't say which, we work it out.
+//
+// Usage:
+//   const tableId = await resolveTableId(gameSessionId, data.tableId, playerId);
+//   if (tableId === undefined) return c.json({ error: "Table not found" }, 404);
+import { db } from "../db";
+
+/**
+ * The table to tag an entry with:
+ * the explicit tableId, else the table the player last moved to or played at,
+ * else the game's only open table. null when it can't be told (several tables open).
+ * Returns undefined when an explicit tableId isn't one of this game's tables.
+ */
+export async function resolveTableId(
+  gameSessionId: string,
+  tableId?: string,
+  playerId?: string | null,
+): Promise<string | null | undefined> {
+  if (tableId) {
+    const table = await db.gameTable.findFirst({ where: { id: tableId, gameSessionId } });
+    return table?.id;
+  }
+
+  if (playerId) {
+    const [lastMove, lastTransaction] = await Promise.all([
+      db.tableMove.findFirst({
+        where: { gameSessionId, playerId },
+        orderBy: { movedAt: "desc" },
+      }),
+      db.playerTransaction.findFirst({
+        where: { gameSessionId, playerId, tableId: { not: null } },
+        orderBy: { timestamp: "desc" },
+      }),
+    ]);
+
+    // Whichever happened last tells us where the player is sitting
+    if (lastMove && (!lastTransaction || lastMove.movedAt >= lastTransaction.timestamp)) {
+      return lastMove.toTableId;
+    }
+    if (lastTransaction?.tableId) return lastTransaction.tableId;
+  }
+
+  const openTables = await db.gameTable.findMany({
+    where: { gameSessionId, closedAt: null },
+    select: { id: true },
+  });
+  return openTables.length === 1 ? openTables[0]!.id : null;
+}
+
+/**
+ * Close every table still open in a game (when the game ends)
+ */
+export async function closeOpenTables(gameSessionId: string, closedAt: Date): Promise<void> {
+  await db.gameTable.updateMany({
+    where: { gameSessionId, closedAt: null },
+    data: { closedAt },
+  });
+}
@@ -0,0 +1,95 @@
+// ============================================
+// Time charges
+// ============================================
+// In time mode the house earns a seat fee instead of raking pots: every player
+// pays timeFee for each timeFeeMinutes interval they sit, charged at the start
+// of the interval (so any part of an interval counts in full). A player's
+// seated time is added up across all their seat-ins before it's divided into
+// intervals, so stepping away for a few minutes doesn't start a new charge.
+// Amounts are minor units.
+//
+// Usage:
+//   const players = accrueTimeFees(session.playerSeats, session.timeCollections, session, new Date());
+//   await closeOpenSeats(sessionId, new Date());
+import {
+  type GameSession,
+  type PlayerSeat,
+  type TimeCollection,
+} from "../../generated/prisma";
+import { db } from "../db";
+import { normalizePlayerName } from "./playerMatching";
+
+export type TimeFeeEntry = {
+  playerId: string | null;
+  playerName: string;
+  seated: boolean; // Sitting right now
+  minutesSeated: number;
+  intervals: number;
+  accrued: number;
+  collected: number;
+  owed: number; // Negative when the player has paid ahead
+};
+
+const playerKey = (p: { playerId: string | null; playerName: string }) =>
+  p.playerId ?? `name:${normalizePlayerName(p.playerName)}`;
+
+/**
+ * Seat fees accrued, collected and owed per player
+ */
+export function accrueTimeFees(
+  seats: Pick<PlayerSeat, "playerId" | "playerName" | "seatedAt" | "leftAt">[],
+  collections: Pick<TimeCollection, "playerId" | "playerName" | "amount">[],
+  rate: Pick<GameSession, "timeFee" | "timeFeeMinutes">,
+  now: Date,
+): TimeFeeEntry[] {
+  const players = new Map<string, TimeFeeEntry & { milliseconds: number }>();
+  const entryFor = (p: { playerId: string | null; playerName: string }) => {
+    const key = playerKey(p);
+    const entry = players.get(key) ?? {
+      playerId: p.playerId,
+      playerName: p.playerName,
+      seated: false,
+      minutesSeated: 0,
+      intervals: 0,
+      accrued: 0,
+      collected: 0,
+      owed: 0,
+      milliseconds: 0,
+    };
+    players.set(key, entry);
+    return entry;
+  };
+
+  seats.forEach((s) => {
+    const entry = entryFor(s);
+    const end = s.leftAt ?? now;
+    entry.milliseconds += Math.max(0, end.getTime() - s.seatedAt.getTime());
+    if (!s.leftAt) entry.seated = true;
+  });
+  collections.forEach((c) => {
+    entryFor(c).collected += c.amount;
+  });
+
+  return Array.from(players.values()).map(({ milliseconds, ...entry }) => {
+    const minutes = milliseconds / 60_000;
+    const intervals = rate.timeFeeMinutes > 0 ? Math.ceil(minutes / rate.timeFeeMinutes) : 0;
+    const accrued = intervals * rate.timeFee;
+    return {
+      ...entry,
+      minutesSeated: Math.round(minutes),
+      intervals,
+      accrued,
+      owed: accrued - entry.collected,
+    };
+  });
+}
+
+/**
+ * Seat out every player still seated in a game (when the game ends)
+ */
+export async function closeOpenSeats(gameSessionId: string, leftAt: Date): Promise<void> {
+  await db.playerSeat.updateMany({
+    where: { gameSessionId, leftAt: null },
+    data: { leftAt },
+  });
+}
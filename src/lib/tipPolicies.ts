@@ -0,0 +1,106 @@
+// ============================================
+// Tip policies
+// ============================================
+// How dealer tips are split with the house when they're paid out:
+//   house-percent - the house keeps a fixed % of each dealer's own tips
+//   toke-fee      - the house keeps a flat fee per down dealt (never more than the tips);
+//                   the fee is in the policy's currency, so only games in it can use it
+//   pooled        - every unpaid tip in the game goes into one pool; after the
+//                   house's %, it's shared by downs dealt or by hours dealt
+// Pure - minor units in and out. The house cut absorbs any rounding, and
+// pool shares are allocated by largest remainder so they add up exactly.
+//
+// Usage:
+//   const split = splitDealerTips(policy, downs);
+//   const pool = splitTipPool(policy, session.dealerDowns.filter((d) => !d.tipsPaid));
+import { type DealerDown, type TipPolicy } from "../../generated/prisma";
+import { allocateByWeight, fromMinorUnits, percentOf } from "./money";
+
+export type TipRule = Pick<TipPolicy, "type" | "housePercent" | "tokeFee" | "poolSplit">;
+
+type PoolDown = Pick<DealerDown, "id" | "dealerName" | "dealerId" | "tips" | "startedAt" | "endedAt">;
+
+export type TipSplit = {
+  grossTips: number;
+  houseCut: number;
+  netPaid: number;
+};
+
+export type PoolShare = TipSplit & {
+  dealerName: string;
+  dealerId: string | null;
+  downIds: string[];
+  weight: number; // Downs dealt, or milliseconds dealt for an hours split
+};
+
+/**
+ * The legacy "dealer keeps X%" claim expressed as a rule
+ */
+export function percentageRule(dealerPercentage: number): TipRule {
+  return { type: "house-percent", housePercent: 100 - dealerPercentage, tokeFee: 0, poolSplit: "downs" };
+}
+
+/**
+ * Human-readable description of a rule, stored on each payout
+ */
+export function describeTipRule(rule: TipRule, currency: string): string {
+  if (rule.type === "toke-fee") return `Toke fee of ${fromMinorUnits(rule.tokeFee, currency)} per down`;
+  if (rule.type === "pooled") return `Pooled by ${rule.poolSplit} (${rule.housePercent}% house)`;
+  return `${rule.housePercent}% house cut`;
+}
+
+/**
+ * Split one dealer's own downs (house-percent or toke-fee rules)
+ */
+export function splitDealerTips(rule: TipRule, downs: Pick<DealerDown, "tips">[]): TipSplit {
+  const grossTips = downs.reduce((sum, d) => sum + d.tips, 0);
+  const houseCut = rule.type === "toke-fee"
+    ? Math.min(grossTips, rule.tokeFee * downs.length)
+    : grossTips - percentOf(grossTips, 100 - rule.housePercent);
+  return { grossTips, houseCut, netPaid: grossTips - houseCut };
+}
+
+/**
+ * Downs that can't be used for an hours split because they weren't timed
+ */
+export function untimedDowns<T extends Pick<DealerDown, "startedAt" | "endedAt">>(downs: T[]): T[] {
+  return downs.filter((d) => !d.startedAt || !d.endedAt);
+}
+
+/**
+ * Pool every down's tips and share them out between the dealers who dealt them
+ * An hours split expects timed downs - check untimedDowns first
+ */
+export function splitTipPool(rule: TipRule, downs: PoolDown[]): { pool: TipSplit; shares: PoolShare[] } {
+  const grossTips = downs.reduce((sum, d) => sum + d.tips, 0);
+  const houseCut = grossTips - percentOf(grossTips, 100 - rule.housePercent);
+
+  // One share per dealer - by roster dealer, else by the name typed on the down
+  const byDealer = new Map<string, Pick<PoolShare, "dealerName" | "dealerId" | "downIds" | "weight">>();
+  downs.forEach((d) => {
+    const key = d.dealerId ?? `name:${d.dealerName.trim().toLowerCase()}`;
+    const share = byDealer.get(key) ?? { dealerName: d.dealerName, dealerId: d.dealerId, downIds: [], weight: 0 };
+    share.downIds.push(d.id);
+    if (rule.poolSplit !== "hours") share.weight += 1;
+    else if (d.startedAt && d.endedAt) share.weight += d.endedAt.getTime() - d.startedAt.getTime();
+    byDealer.set(key, share);
+  });
+
+  const dealers = [...byDealer.values()];
+  // Zero-length downs all round - fall back to an even split by downs
+  if (dealers.every((d) => d.weight === 0)) dealers.forEach((d) => { d.weight = d.downIds.length; });
+
+  const weights = dealers.map((d) => d.weight);
+  const netShares = allocateByWeight(grossTips - houseCut, weights);
+  const cutShares = allocateByWeight(houseCut, weights);
+
+  return {
+    pool: { grossTips, houseCut, netPaid: grossTips - houseCut },
+    shares: dealers.map((d, i) => ({
+      ...d,
+      grossTips: netShares[i]! + cutShares[i]!, // The dealer's share of the pool before the house cut
+      houseCut: cutShares[i]!,
+      netPaid: netShares[i]!,
+    })),
+  };
+}
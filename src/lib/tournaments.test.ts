@@ -0,0 +1,12 @@
+import { describe, expect, test } from "bun:test";
+import { prizesPaid } from "./tournaments";
+
+describe("prizesPaid", () => {
+  test.each<[string, { payoutTransactionId: string | null }[], boolean]>([
+    ["no entries yet", [], false],
+    ["prizes not paid yet", [{ payoutTransactionId: null }, { payoutTransactionId: null }], false],
+    ["one place paid", [{ payoutTransactionId: null }, { payoutTransactionId: "tx1" }], true],
+  ])("%s", (_, entries, expected) => {
+    expect(prizesPaid(entries)).toBe(expected);
+  });
+});
@@ -0,0 +1,116 @@
+// ============================================
+// Tournaments
+// ============================================
+// A tournament's prize pool is the prize part of every entry, rebuy and
+// add-on; the house part of each is the house's revenue. The pool is paid
+// out by a payout table - the host's own percentages, or the standard table
+// for the number of players registered. Finishing positions come from the
+// order players bust out - the last out finishes just behind the players
+// still in - so a busted player who rebuys simply drops out of the order.
+// Pure - minor units in and out. Rounding leftovers go to first place.
+//
+// Usage:
+//   const percentages = payoutTable(tournament.payoutPercentages, entries.length);
+//   const prizes = payoutAmounts(prizePool(entries), percentages);
+//   const positions = finishPositions(entries);
+import { type Tournament, type TournamentEntry } from "../../generated/prisma";
+import { percentOf } from "./money";
+
+// Standard payout tables by players registered - the first table whose
+// maximum covers the field is used
+const STANDARD_PAYOUTS: { maxPlayers: number; percentages: number[] }[] = [
+  { maxPlayers: 4, percentages: [100] },
+  { maxPlayers: 7, percentages: [65, 35] },
+  { maxPlayers: 10, percentages: [50, 30, 20] },
+  { maxPlayers: 20, percentages: [40, 25, 18, 10, 7] },
+  { maxPlayers: 30, percentages: [35, 22, 15, 11, 9, 8] },
+  { maxPlayers: Infinity, percentages: [30, 20, 14, 10, 8, 7, 6, 5] },
+];
+
+/**
+ * The payout percentages in use, 1st place first - never more places than players
+ */
+export function payoutTable(custom: number[], players: number): number[] {
+  const percentages = custom.length > 0
+    ? custom
+    : STANDARD_PAYOUTS.find((t) => players <= t.maxPlayers)!.percentages;
+  return percentages.slice(0, Math.max(1, players));
+}
+
+/**
+ * Total prize pool from every entry's contributions
+ */
+export function prizePool(entries: Pick<TournamentEntry, "prizeContributed">[]): number {
+  return entries.reduce((sum, e) => sum + e.prizeContributed, 0);
+}
+
+/**
+ * Prize for each paid place, 1st place first
+ * Places cut off by a small field pass their share up to 1st, so the whole pool is always paid
+ */
+export function payoutAmounts(pool: number, percentages: number[]): number[] {
+  const prizes = percentages.map((p) => percentOf(pool, p));
+  prizes[0]! += pool - prizes.reduce((sum, prize) => sum + prize, 0);
+  return prizes;
+}
+
+/**
+ * Finishing position per entry id - busted players by bust-out order, and the
+ * last player standing as 1st once everyone else is out
+ */
+export function finishPositions(entries: Pick<TournamentEntry, "id" | "bustedAt">[]): Map<string, number> {
+  const stillIn = entries.filter((e) => !e.bustedAt);
+  const busted = entries
+    .filter((e) => e.bustedAt)
+    .sort((a, b) => b.bustedAt!.getTime() - a.bustedAt!.getTime());
+
+  const positions = new Map(busted.map((e, i) => [e.id, stillIn.length + i + 1]));
+  if (stillIn.length === 1 && busted.length > 0) positions.set(stillIn[0]!.id, 1);
+  return positions;
+}
+
+/**
+ * Whether a window is open at a given time - missing ends are open-ended
+ */
+export function windowOpen(from: Date | null, until: Date | null, now: Date): boolean {
+  return (!from || now >= from) && (!until || now <= until);
+}
+
+/**
+ * Whether any prizes have been paid - paid places are final, so no one can
+ * register, rebuy or take the add-on after that
+ */
+export function prizesPaid(entries: Pick<TournamentEntry, "payoutTransactionId">[]): boolean {
+  return entries.some((e) => e.payoutTransactionId);
+}
+
+/**
+ * Whether a player can rebuy right now
+ */
+export function canRebuy(
+  tournament: Pick<Tournament, "rebuyFee" | "maxRebuys" | "rebuysUntil">,
+  entry: Pick<TournamentEntry, "rebuys">,
+  now: Date,
+): boolean {
+  return (
+    tournament.rebuyFee > 0 &&
+    (tournament.maxRebuys === 0 || entry.rebuys < tournament.maxRebuys) &&
+    windowOpen(null, tournament.rebuysUntil, now)
+  );
+}
+
+/**
+ * Whether a player can take the add-on right now
+ */
+export function canAddOn(
+  tournament: Pick<Tournament, "addOnFee" | "addOnsFrom" | "addOnsUntil">,
+  entry: Pick<TournamentEntry, "addOns" | "bustedAt">,
+  now: Date,
+): boolean {
+  return (
+    tournament.addOnFee > 0 &&
+    entry.addOns === 0 &&
+    !entry.bustedAt &&
+    windowOpen(tournament.addOnsFrom, tournament.addOnsUntil, now)
+  );
+}
@@ -0,0 +1,23 @@
+// ============================================
+// User initials
+// ============================================
+// Entries record the initials of whoever made them. A user's own initials win;
+// otherwise they're taken from their name, or failing that their email.
+//
+// Usage:
+//   const initials = userInitials(user);
+
+type InitialsUser = {
+  name?: string | null;
+  email: string;
+  initials?: string | null; // Not on the auth session's user type, but set on the user record
+};
+
+/**
+ * The initials to record an entry under
+ */
+export function userInitials(user: InitialsUser): string {
+  if (user.initials) return user.initials;
+  if (user.name) return user.name.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2);
+  return user.email.slice(0, 2).toUpperCase();
+}
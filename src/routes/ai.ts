@@ -10,6 +10,8 @@ import {
 import { type AppType } from "../types";
 import { db } from "../db";
 import { requireAuth } from "../middleware/requireAuth";
+import { calculateSessionLedger } from "../lib/ledger";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
 
 const aiRouter = new Hono<AppType>();
 
@@ -21,10 +23,10 @@ aiRouter.use("*", requireAuth);
 // ============================================
 aiRouter.post("/analyze-till", zValidator("json", analyzeTillRequestSchema), async (c) => {
   const user = c.get("user")!;
-  const { sessionId, actualTillAmount } = c.req.valid("json");
+  const { sessionId, actualTillAmount, tillCountId } = c.req.valid("json");
 
   console.log(`🤖 [AI] Analyzing till discrepancy for session: ${sessionId}, user: ${user.email}`);
-  console.log(`🤖 [AI] Actual till amount reported: $${actualTillAmount}`);
+  console.log(`🤖 [AI] Actual till ${tillCountId ? `from till count: ${tillCountId}` : `amount reported: $${actualTillAmount}`}`);
 
   // Check if OpenAI API key is configured
   const openaiApiKey = process.env.OPENAI_API_KEY;
@@ -45,13 +47,27 @@ aiRouter.post("/analyze-till", zValidator("json", analyzeTillRequestSchema), asy
     include: {
       playerTransactions: {
         orderBy: { timestamp: "asc" },
+        include: { player: { select: { name: true } }, repayments: true },
       },
       dealerDowns: {
         orderBy: { timestamp: "asc" },
       },
+      dealerPayouts: true,
       expenses: {
         orderBy: { timestamp: "asc" },
+        include: { category: { select: { name: true } } },
       },
+      creditEntries: true,
+      tillCounts: {
+        orderBy: { countedAt: "asc" },
+      },
+      cashMovements: {
+        orderBy: { timestamp: "asc" },
+      },
+      timeCollections: true,
+      tournament: { include: { entries: true } },
+      jackpotEntries: true,
+      concessionSales: true,
     },
   });
 
@@ -60,59 +76,35 @@ aiRouter.post("/analyze-till", zValidator("json", analyzeTillRequestSchema), asy
     return c.json({ error: "Session not found" }, 404);
   }
 
-  // Calculate expected till balance (same logic as summary endpoint)
-  const cashBuyIns = session.playerTransactions
-    .filter((t) => t.type === "buy-in" && t.paymentMethod === "cash")
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const cashCashouts = session.playerTransactions
-    .filter((t) => t.type === "cashout" && t.paymentMethod === "cash")
-    .reduce((sum, t) => {
-      if (t.notes) {
-        const newMatch = t.notes.match(/received \$(\d+(?:\.\d{2})?) cash/);
-        if (newMatch?.[1]) return sum + parseFloat(newMatch[1]);
-        const oldMatch = t.notes.match(/cash paid: \$(\d+(?:\.\d{2})?)\)/);
-        if (oldMatch?.[1]) return sum + parseFloat(oldMatch[1]);
-      }
-      return sum + t.amount;
-    }, 0);
-
-  const autoSettledCredit = session.playerTransactions
-    .filter((t) => t.type === "cashout" && (t.notes?.includes("credit settled:") || t.notes?.includes("paid $")))
-    .reduce((sum, t) => {
-      const oldMatch = t.notes?.match(/credit settled: \$(\d+(?:\.\d{2})?)/);
-      if (oldMatch?.[1]) return sum + parseFloat(oldMatch[1]);
-      const newMatch = t.notes?.match(/paid \$(\d+(?:\.\d{2})?) credit/);
-      return sum + (newMatch?.[1] ? parseFloat(newMatch[1]) : 0);
-    }, 0);
-
-  const paidCreditBuyIns = session.playerTransactions
-    .filter((t) => t.type === "buy-in" && t.paymentMethod === "credit" && t.isPaid === true)
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const manuallyPaidCredit = Math.max(0, paidCreditBuyIns - autoSettledCredit);
-
-  const totalPaidTips = session.dealerDowns
-    .filter((d) => d.tipsPaid)
-    .reduce((sum, d) => sum + d.tips, 0);
-
-  const totalClaimedRake = session.dealerDowns
-    .filter((d) => d.rakeClaimed)
-    .reduce((sum, d) => sum + d.rake, 0);
-
-  const totalExpenses = session.expenses.reduce((sum, e) => sum + e.amount, 0);
-
-  const expectedTill = cashBuyIns + manuallyPaidCredit - cashCashouts - totalPaidTips - totalClaimedRake - totalExpenses;
-  const discrepancyAmount = actualTillAmount - expectedTill;
-
-  console.log(`🤖 [AI] Expected till: $${expectedTill.toFixed(2)}, Actual: $${actualTillAmount}, Discrepancy: $${discrepancyAmount.toFixed(2)}`);
+  // Expected till comes from the same ledger as the summary endpoint
+  // Compare in minor units so the discrepancy is exact
+  const currency = session.currency;
+  const ledger = calculateSessionLedger(session);
+  const expectedTill = ledger.tillBalance;
+
+  // A recorded till count stands in for a typed amount
+  let actualTillMinor: number;
+  if (tillCountId) {
+    const tillCount = session.tillCounts.find((t) => t.id === tillCountId);
+    if (!tillCount) {
+      return c.json({ error: "Till count not found" }, 404);
+    }
+    actualTillMinor = tillCount.total;
+  } else {
+    actualTillMinor = toMinorUnits(actualTillAmount!, currency);
+  }
+
+  const actualTill = fromMinorUnits(actualTillMinor, currency);
+  const discrepancyAmount = fromMinorUnits(actualTillMinor - toMinorUnits(expectedTill, currency), currency);
+
+  console.log(`🤖 [AI] Expected till: $${expectedTill.toFixed(2)}, Actual: $${actualTill}, Discrepancy: $${discrepancyAmount.toFixed(2)}`);
 
   // If there's no significant discrepancy, return early
   if (Math.abs(discrepancyAmount) < 1) {
     return c.json({
       discrepancyAmount: 0,
       expectedTill,
-      actualTill: actualTillAmount,
+      actualTill,
       summary: "Your till matches the expected amount. No discrepancy detected.",
       possibleCauses: [],
       transactionsToReview: [],
@@ -125,9 +117,14 @@ aiRouter.post("/analyze-till", zValidator("json", analyzeTillRequestSchema), asy
     id: t.id,
     player: t.playerName,
     type: t.type,
-    amount: t.amount,
+    amount: fromMinorUnits(t.amount, currency),
     paymentMethod: t.paymentMethod,
     isPaid: t.isPaid,
+    cashPaid: t.cashPaid === null ? null : fromMinorUnits(t.cashPaid, currency),
+    electronicPaid: t.electronicPaid === null ? null : fromMinorUnits(t.electronicPaid, currency),
+    creditOffset: t.creditOffset === null ? null : fromMinorUnits(t.creditOffset, currency),
+    settledByCashoutId: t.settledByCashoutId,
+    repayments: t.repayments.map((r) => ({ amount: fromMinorUnits(r.amount, currency), method: r.method })),
     notes: t.notes,
     timestamp: t.timestamp.toISOString(),
     createdBy: t.createdByInitials || "unknown",
@@ -136,8 +133,8 @@ aiRouter.post("/analyze-till", zValidator("json", analyzeTillRequestSchema), asy
   const formattedDealerDowns = session.dealerDowns.map((d) => ({
     id: d.id,
     dealer: d.dealerName,
-    tips: d.tips,
-    rake: d.rake,
+    tips: fromMinorUnits(d.tips, currency),
+    rake: fromMinorUnits(d.rake, currency),
     tipsPaid: d.tipsPaid,
     rakeClaimed: d.rakeClaimed,
     timestamp: d.timestamp.toISOString(),
@@ -147,15 +144,26 @@ aiRouter.post("/analyze-till", zValidator("json", analyzeTillRequestSchema), asy
   const formattedExpenses = session.expenses.map((e) => ({
     id: e.id,
     description: e.description,
-    amount: e.amount,
-    category: e.category,
+    amount: fromMinorUnits(e.amount, currency),
+    category: e.category.name,
     paymentMethod: e.paymentMethod,
+    paidBy: e.paidByName ? `${e.paidBy} (${e.paidByName})` : e.paidBy,
     paidOut: e.paidOut,
+    paidOutMethod: e.paidOutMethod,
     notes: e.notes,
     timestamp: e.timestamp.toISOString(),
     createdBy: e.createdByInitials || "unknown",
   }));
 
+  const formattedCashMovements = session.cashMovements.map((m) => ({
+    id: m.id,
+    type: m.type,
+    amount: fromMinorUnits(m.amount, currency),
+    notes: m.notes,
+    timestamp: m.timestamp.toISOString(),
+    createdBy: m.createdByInitials || "unknown",
+  }));
+
   // Build the AI prompt
   const systemPrompt = `You are an expert poker game financial analyst. You help game managers identify why their physical cash till doesn't match the expected amount calculated by the app.
 
@@ -170,9 +178,12 @@ Always provide:
 Be precise with numbers. Consider these common issues:
 - Unpaid credit buy-ins being counted as cash (credit not marked)
 - Electronic payments miscategorized as cash
+- Credit repayments recorded with the wrong method (only cash repayments go into the till)
 - Tips/rake paid out but not marked as paid in app
-- Cashouts with credit settlements not properly recorded
+- Cashouts with credit settlements not properly recorded (check cashPaid / electronicPaid / creditOffset on cashouts)
 - Expenses not recorded or miscategorized
+- A member reimbursed from the till for an expense they fronted without recording the reimbursement (only expenses paid out in cash leave the till)
+- Opening float not recorded, or cash dropped to the safe / added without a cash movement
 - Simple counting errors or missed entries
 - Potential theft or unauthorized withdrawals
 - Round number patterns that suggest estimation rather than exact counting
@@ -206,7 +217,7 @@ You MUST respond with valid JSON matching this exact structure:
 
 DISCREPANCY:
 - Expected Till: $${expectedTill.toFixed(2)}
-- Actual Till: $${actualTillAmount.toFixed(2)}
+- Actual Till: $${actualTill.toFixed(2)}
 - Discrepancy: $${discrepancyAmount.toFixed(2)} (${discrepancyAmount > 0 ? "OVER - more cash than expected" : "SHORT - less cash than expected"})
 
 SESSION DATA:
@@ -223,14 +234,17 @@ ${JSON.stringify(formattedDealerDowns, null, 2)}
 EXPENSES (${session.expenses.length} total):
 ${JSON.stringify(formattedExpenses, null, 2)}
 
-CALCULATED BREAKDOWN:
-- Cash Buy-ins: $${cashBuyIns.toFixed(2)}
-- Manually Paid Credit: $${manuallyPaidCredit.toFixed(2)}
-- Auto-Settled Credit: $${autoSettledCredit.toFixed(2)}
-- Cash Cashouts: $${cashCashouts.toFixed(2)}
-- Paid Tips: $${totalPaidTips.toFixed(2)}
-- Claimed Rake: $${totalClaimedRake.toFixed(2)}
-- Expenses: $${totalExpenses.toFixed(2)}
+CASH MOVEMENTS - opening float, drops to the safe, cash added (${session.cashMovements.length} total):
+${JSON.stringify(formattedCashMovements, null, 2)}
+
+CALCULATED BREAKDOWN (expected till):
+${ledger.breakdown.tillBalance.map((line) => `- ${line.label}: $${line.amount.toFixed(2)}`).join("\n")}
+
+OUTSTANDING CREDIT (not in till):
+${ledger.breakdown.creditBalance.map((line) => `- ${line.label}: $${line.amount.toFixed(2)}`).join("\n") || "- None"}
+
+EARLIER TILL COUNTS (when a count's variance first appears narrows down when the problem happened):
+${session.tillCounts.map((t) => `- ${t.countedAt.toISOString()}: counted $${fromMinorUnits(t.total, currency).toFixed(2)}, expected $${fromMinorUnits(t.expected, currency).toFixed(2)}, variance $${fromMinorUnits(t.variance, currency).toFixed(2)}${t.isClosing ? " (closing)" : ""}`).join("\n") || "- None"}
 
 Identify the most likely causes for this $${Math.abs(discrepancyAmount).toFixed(2)} discrepancy.`;
 
@@ -283,7 +297,7 @@ Identify the most likely causes for this $${Math.abs(discrepancyAmount).toFixed(
     const response: AnalyzeTillResponse = {
       discrepancyAmount,
       expectedTill,
-      actualTill: actualTillAmount,
+      actualTill,
       summary: String(aiResponse.summary || `Till is ${discrepancyAmount > 0 ? "over" : "short"} by $${Math.abs(discrepancyAmount).toFixed(2)}`),
       possibleCauses,
       transactionsToReview,
@@ -0,0 +1,173 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  addCashMovementRequestSchema,
+  updateCashMovementRequestSchema,
+  type AddCashMovementResponse,
+  type DeleteCashMovementResponse,
+  type GetCashMovementsResponse,
+  type UpdateCashMovementResponse,
+} from "@/shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatCashMovement } from "../lib/serializers";
+import { toMinorUnits } from "../lib/money";
+import { userInitials } from "../lib/userInitials";
+
+const cashRouter = new Hono<AppType>();
+
+// Apply auth middleware to all cash routes
+cashRouter.use("*", requireAuth);
+
+// ============================================
+// POST /api/cash/movements - Record an opening float, cash drop or cash add
+// ============================================
+cashRouter.post("/movements", zValidator("json", addCashMovementRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`💵 [Cash] Adding cash ${data.type}: ${data.amount} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  // The till only opens once
+  if (data.type === "float") {
+    const existingFloat = await db.cashMovement.findFirst({
+      where: { gameSessionId: data.gameSessionId, type: "float" },
+    });
+    if (existingFloat) {
+      return c.json({ error: "This game already has an opening float - update it instead" }, 400);
+    }
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const movement = await db.cashMovement.create({
+    data: {
+      type: data.type,
+      amount: toMinorUnits(data.amount, gameSession.currency),
+      notes: data.notes ?? null,
+      gameSessionId: data.gameSessionId,
+      createdById: user.id,
+      createdByInitials: initials,
+    },
+  });
+
+  console.log(`💵 [Cash] Cash movement created: ${movement.id} by ${initials}`);
+
+  return c.json({
+    movement: formatCashMovement(movement, gameSession.currency),
+  } satisfies AddCashMovementResponse);
+});
+
+// ============================================
+// GET /api/cash/movements/:sessionId - Get all cash movements
+// ============================================
+cashRouter.get("/movements/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`💵 [Cash] Getting cash movements for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const movements = await db.cashMovement.findMany({
+    where: { gameSessionId: sessionId },
+    orderBy: { timestamp: "asc" },
+  });
+
+  console.log(`💵 [Cash] Found ${movements.length} cash movements`);
+
+  return c.json({
+    movements: movements.map((m) => formatCashMovement(m, gameSession.currency)),
+  } satisfies GetCashMovementsResponse);
+});
+
+// ============================================
+// PUT /api/cash/movements/:id - Update a cash movement
+// ============================================
+cashRouter.put("/movements/:id", zValidator("json", updateCashMovementRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const data = c.req.valid("json");
+  console.log(`💵 [Cash] Updating cash movement: ${id} (user: ${user.email})`);
+
+  // Verify the movement belongs to a session owned by this user
+  const existingMovement = await db.cashMovement.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!existingMovement || existingMovement.gameSession.userId !== user.id) {
+    return c.json({ error: "Cash movement not found" }, 404);
+  }
+
+  const movement = await db.cashMovement.update({
+    where: { id },
+    data: {
+      amount: toMinorUnits(data.amount, existingMovement.gameSession.currency),
+      notes: data.notes ?? null,
+    },
+  });
+
+  console.log(`💵 [Cash] Cash movement updated: ${movement.id}`);
+
+  return c.json({
+    movement: formatCashMovement(movement, existingMovement.gameSession.currency),
+  } satisfies UpdateCashMovementResponse);
+});
+
+// ============================================
+// DELETE /api/cash/movements/:id - Delete a cash movement
+// ============================================
+cashRouter.delete("/movements/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`💵 [Cash] Deleting cash movement: ${id} (user: ${user.email})`);
+
+  // Verify the movement belongs to a session owned by this user
+  const movement = await db.cashMovement.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!movement || movement.gameSession.userId !== user.id) {
+    return c.json({ error: "Cash movement not found" }, 404);
+  }
+
+  await db.cashMovement.delete({
+    where: { id },
+  });
+
+  console.log(`💵 [Cash] Cash movement deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteCashMovementResponse);
+});
+
+export { cashRouter };
@@ -0,0 +1,177 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  setChipBankRequestSchema,
+  type GetChipBankResponse,
+  type GetChipReconciliationResponse,
+  type SetChipBankResponse,
+} from "@/shared/contracts";
+import { type ChipBankItem, type DealerDown, type GameSession, type JackpotEntry, type PlayerTransaction } from "../../generated/prisma";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { bankTotal, chipsInPlay, chipsOffTable, reconcileChips } from "../lib/chips";
+import { calculateSessionLedger, ledgerInclude } from "../lib/ledger";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+
+const chipsRouter = new Hono<AppType>();
+
+// Apply auth middleware to all chip routes
+chipsRouter.use("*", requireAuth);
+
+// Everything chips in play is worked out from
+const inPlayInclude = { playerTransactions: true, dealerDowns: true, jackpotEntries: true } as const;
+
+function formatChipBank(
+  bank: ChipBankItem[],
+  session: Pick<GameSession, "totalRake" | "currency"> & {
+    playerTransactions: Pick<PlayerTransaction, "type" | "amount">[];
+    dealerDowns: Pick<DealerDown, "tips" | "rake">[];
+    jackpotEntries: Pick<JackpotEntry, "type" | "amount">[];
+  },
+): GetChipBankResponse {
+  const { currency } = session;
+  return {
+    items: [...bank]
+      .sort((a, b) => b.value - a.value)
+      .map((item) => ({
+        value: fromMinorUnits(item.value, currency),
+        quantity: item.quantity,
+        color: item.color,
+      })),
+    bankTotal: fromMinorUnits(bankTotal(bank), currency),
+    chipsInPlay: fromMinorUnits(chipsInPlay(session.playerTransactions, chipsOffTable(session)), currency),
+  };
+}
+
+// ============================================
+// GET /api/chips/:sessionId - Get the chip bank and chips in play
+// ============================================
+chipsRouter.get("/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🪙 [Chips] Getting chip bank for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { ...inPlayInclude, chipBank: true },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  return c.json(
+    formatChipBank(gameSession.chipBank, gameSession) satisfies GetChipBankResponse,
+  );
+});
+
+// ============================================
+// PUT /api/chips/:sessionId - Replace the chip bank
+// ============================================
+chipsRouter.put("/:sessionId", zValidator("json", setChipBankRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const { items } = c.req.valid("json");
+  console.log(`🪙 [Chips] Setting chip bank with ${items.length} denominations for session: ${sessionId} (user: ${user.email})`);
+
+  // Only the host sets up the chip bank
+  const gameSession = await db.gameSession.findFirst({
+    where: { id: sessionId, userId: user.id },
+    include: inPlayInclude,
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const bank = items
+    .filter((item) => item.quantity > 0)
+    .map((item) => ({
+      value: toMinorUnits(item.value, gameSession.currency),
+      quantity: item.quantity,
+      color: item.color ?? null,
+    }));
+
+  if (new Set(bank.map((item) => item.value)).size !== bank.length) {
+    return c.json({ error: "Each chip value can only be listed once" }, 400);
+  }
+
+  const [, , chipBank] = await db.$transaction([
+    db.chipBankItem.deleteMany({ where: { gameSessionId: sessionId } }),
+    db.chipBankItem.createMany({
+      data: bank.map((item) => ({ ...item, gameSessionId: sessionId })),
+    }),
+    db.chipBankItem.findMany({ where: { gameSessionId: sessionId } }),
+  ]);
+
+  console.log(`🪙 [Chips] Chip bank set: ${bankTotal(chipBank)} in chips`);
+
+  return c.json(
+    formatChipBank(chipBank, gameSession) satisfies SetChipBankResponse,
+  );
+});
+
+// ============================================
+// GET /api/chips/:sessionId/reconciliation - End-of-game chip reconciliation
+// ============================================
+chipsRouter.get("/:sessionId/reconciliation", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🪙 [Chips] Reconciling chips for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { ...ledgerInclude, chipBank: true },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const { currency } = gameSession;
+  const major = (minor: number) => fromMinorUnits(minor, currency);
+  const reconciliation = reconcileChips(gameSession.chipBank, gameSession.playerTransactions, chipsOffTable(gameSession));
+
+  // Per-player figures come from the session ledger (already in major units)
+  const players = calculateSessionLedger(gameSession).players.map((p) => ({
+    playerId: p.playerId,
+    playerName: p.playerName,
+    chipsBought: p.buyIns,
+    chipsRedeemed: p.cashouts,
+    chipsInPlay: major(toMinorUnits(p.buyIns, currency) - toMinorUnits(p.cashouts, currency)),
+  }));
+
+  console.log(`🪙 [Chips] Reconciliation status: ${reconciliation.status}, ${reconciliation.chipsInPlay} in play`);
+
+  return c.json({
+    reconciliation: {
+      bankTotal: major(reconciliation.bankTotal),
+      chipsSold: major(reconciliation.chipsSold),
+      chipsRedeemed: major(reconciliation.chipsRedeemed),
+      chipsRaked: major(reconciliation.chipsRaked),
+      chipsTipped: major(reconciliation.chipsTipped),
+      chipsDropped: major(reconciliation.chipsDropped),
+      chipsInPlay: major(reconciliation.chipsInPlay),
+      chipsInBank: major(reconciliation.chipsInBank),
+      status: reconciliation.status,
+      players,
+    },
+  } satisfies GetChipReconciliationResponse);
+});
+
+export { chipsRouter };
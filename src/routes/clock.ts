@@ -0,0 +1,277 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  advanceBlindClockRequestSchema,
+  setBlindStructureRequestSchema,
+  type BlindClock,
+  type BlindClockResponse,
+  type GetBlindClockResponse,
+} from "@/shared/contracts";
+import { type BlindClock as BlindClockRow, type BlindLevel as BlindLevelRow } from "../../generated/prisma";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { clockPosition, pausedAt } from "../lib/blindClock";
+
+const clockRouter = new Hono<AppType>();
+
+// Apply auth middleware to all clock routes
+clockRouter.use("*", requireAuth);
+
+type ClockWithLevels = BlindClockRow & { levels: BlindLevelRow[] };
+
+const clockInclude = { levels: { orderBy: { position: "asc" } } } as const;
+
+function formatClock(clock: ClockWithLevels, now: Date): BlindClock {
+  const levels = clock.levels.map((l) => ({
+    smallBlind: l.smallBlind,
+    bigBlind: l.bigBlind,
+    ante: l.ante,
+    minutes: l.minutes,
+    isBreak: l.isBreak,
+  }));
+  const position = clockPosition(clock.levels, clock, now);
+  const running = !!clock.runningSince && !position.finished;
+
+  return {
+    status: position.finished && clock.startedAt
+      ? "finished"
+      : running
+        ? "running"
+        : clock.startedAt
+          ? "paused"
+          : "not-started",
+    levels,
+    levelIndex: position.levelIndex,
+    currentLevel: levels[position.levelIndex] ?? null,
+    nextLevel: levels[position.levelIndex + 1] ?? null,
+    elapsedMs: position.elapsedMs,
+    remainingMs: position.remainingMs,
+    levelEndsAt: running ? new Date(now.getTime() + position.remainingMs).toISOString() : null,
+    startedAt: clock.startedAt?.toISOString() ?? null,
+    serverTime: now.toISOString(),
+  };
+}
+
+/**
+ * The game's clock, if the user can see the game
+ */
+async function findClock(gameSessionId: string, userId: string) {
+  return db.blindClock.findFirst({
+    where: {
+      gameSessionId,
+      gameSession: {
+        OR: [
+          { userId },
+          { members: { some: { userId } } },
+        ],
+      },
+    },
+    include: clockInclude,
+  });
+}
+
+// ============================================
+// GET /api/clock/:sessionId - Get the blind clock
+// ============================================
+clockRouter.get("/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`⏰ [Clock] Getting blind clock for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { blindClock: { include: clockInclude } },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  return c.json({
+    clock: gameSession.blindClock ? formatClock(gameSession.blindClock, new Date()) : null,
+  } satisfies GetBlindClockResponse);
+});
+
+// ============================================
+// PUT /api/clock/:sessionId/structure - Set the blind structure
+// ============================================
+clockRouter.put("/:sessionId/structure", zValidator("json", setBlindStructureRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const { levels } = c.req.valid("json");
+  console.log(`⏰ [Clock] Setting ${levels.length}-level blind structure for session: ${sessionId} (user: ${user.email})`);
+
+  // Only the host sets the blind structure
+  const gameSession = await db.gameSession.findFirst({
+    where: { id: sessionId, userId: user.id },
+    include: { blindClock: { include: clockInclude } },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  // The clock keeps its place, so a level can be fixed mid-tournament
+  // Past the end of the new structure it stops at the last level
+  const now = new Date();
+  const existing = gameSession.blindClock;
+  const position = existing ? clockPosition(existing.levels, existing, now) : null;
+  const keepPlace = position && position.levelIndex < levels.length
+    ? { currentLevel: position.levelIndex, elapsedMs: Math.round(position.elapsedMs), runningSince: existing!.runningSince && now }
+    : { currentLevel: Math.min(position?.levelIndex ?? 0, levels.length - 1), elapsedMs: 0, runningSince: null };
+
+  const clock = await db.$transaction(async (tx) => {
+    const saved = await tx.blindClock.upsert({
+      where: { gameSessionId: sessionId },
+      create: { gameSessionId: sessionId },
+      update: keepPlace,
+    });
+    await tx.blindLevel.deleteMany({ where: { clockId: saved.id } });
+    await tx.blindLevel.createMany({
+      data: levels.map((level, position) => ({ ...level, position, clockId: saved.id })),
+    });
+    return tx.blindClock.findUniqueOrThrow({ where: { id: saved.id }, include: clockInclude });
+  });
+
+  console.log(`⏰ [Clock] Blind structure set for session: ${sessionId}`);
+
+  return c.json({ clock: formatClock(clock, now) } satisfies BlindClockResponse);
+});
+
+// ============================================
+// POST /api/clock/:sessionId/start - Start the clock from the first level
+// ============================================
+clockRouter.post("/:sessionId/start", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`⏰ [Clock] Starting clock for session: ${sessionId} (user: ${user.email})`);
+
+  const existing = await findClock(sessionId, user.id);
+  if (!existing) {
+    return c.json({ error: "Set a blind structure for this game first" }, 404);
+  }
+
+  const now = new Date();
+  const clock = await db.blindClock.update({
+    where: { id: existing.id },
+    data: { currentLevel: 0, elapsedMs: 0, runningSince: now, startedAt: now },
+    include: clockInclude,
+  });
+
+  console.log(`⏰ [Clock] Clock started for session: ${sessionId}`);
+
+  return c.json({ clock: formatClock(clock, now) } satisfies BlindClockResponse);
+});
+
+// ============================================
+// POST /api/clock/:sessionId/pause - Pause the clock
+// ============================================
+clockRouter.post("/:sessionId/pause", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`⏰ [Clock] Pausing clock for session: ${sessionId} (user: ${user.email})`);
+
+  const existing = await findClock(sessionId, user.id);
+  if (!existing) {
+    return c.json({ error: "Blind clock not found" }, 404);
+  }
+
+  if (!existing.runningSince) {
+    return c.json({ error: "The clock isn't running" }, 400);
+  }
+
+  const now = new Date();
+  const clock = await db.blindClock.update({
+    where: { id: existing.id },
+    data: pausedAt(clockPosition(existing.levels, existing, now)),
+    include: clockInclude,
+  });
+
+  console.log(`⏰ [Clock] Clock paused at level ${clock.currentLevel + 1} for session: ${sessionId}`);
+
+  return c.json({ clock: formatClock(clock, now) } satisfies BlindClockResponse);
+});
+
+// ============================================
+// POST /api/clock/:sessionId/resume - Resume a paused clock
+// ============================================
+clockRouter.post("/:sessionId/resume", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`⏰ [Clock] Resuming clock for session: ${sessionId} (user: ${user.email})`);
+
+  const existing = await findClock(sessionId, user.id);
+  if (!existing) {
+    return c.json({ error: "Blind clock not found" }, 404);
+  }
+
+  if (!existing.startedAt) {
+    return c.json({ error: "Start the clock first" }, 400);
+  }
+
+  if (existing.runningSince) {
+    return c.json({ error: "The clock is already running" }, 400);
+  }
+
+  const now = new Date();
+  if (clockPosition(existing.levels, existing, now).finished) {
+    return c.json({ error: "The clock has run through every level" }, 400);
+  }
+
+  const clock = await db.blindClock.update({
+    where: { id: existing.id },
+    data: { runningSince: now },
+    include: clockInclude,
+  });
+
+  console.log(`⏰ [Clock] Clock resumed for session: ${sessionId}`);
+
+  return c.json({ clock: formatClock(clock, now) } satisfies BlindClockResponse);
+});
+
+// ============================================
+// POST /api/clock/:sessionId/advance - Jump to the next (or previous) level
+// ============================================
+clockRouter.post("/:sessionId/advance", zValidator("json", advanceBlindClockRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const { direction } = c.req.valid("json");
+  console.log(`⏰ [Clock] Moving clock to the ${direction} level for session: ${sessionId} (user: ${user.email})`);
+
+  const existing = await findClock(sessionId, user.id);
+  if (!existing) {
+    return c.json({ error: "Blind clock not found" }, 404);
+  }
+
+  const now = new Date();
+  const position = clockPosition(existing.levels, existing, now);
+  const levelIndex = position.levelIndex + (direction === "next" ? 1 : -1);
+  if (levelIndex < 0 || levelIndex >= existing.levels.length) {
+    return c.json({ error: `There is no ${direction} level` }, 400);
+  }
+
+  // The new level starts in full; a running clock keeps running
+  const clock = await db.blindClock.update({
+    where: { id: existing.id },
+    data: {
+      currentLevel: levelIndex,
+      elapsedMs: 0,
+      runningSince: existing.runningSince && !position.finished ? now : null,
+    },
+    include: clockInclude,
+  });
+
+  console.log(`⏰ [Clock] Clock moved to level ${levelIndex + 1} for session: ${sessionId}`);
+
+  return c.json({ clock: formatClock(clock, now) } satisfies BlindClockResponse);
+});
+
+export { clockRouter };
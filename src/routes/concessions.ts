@@ -0,0 +1,304 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  addConcessionSaleRequestSchema,
+  createConcessionItemRequestSchema,
+  settleConcessionTabRequestSchema,
+  updateConcessionItemRequestSchema,
+  type AddConcessionSaleResponse,
+  type CreateConcessionItemResponse,
+  type DeleteConcessionItemResponse,
+  type DeleteConcessionSaleResponse,
+  type GetConcessionItemsResponse,
+  type GetSessionConcessionsResponse,
+  type SettleConcessionTabResponse,
+  type UpdateConcessionItemResponse,
+} from "@/shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatConcessionItem, formatConcessionSale } from "../lib/serializers";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import { concessionTotals, openTabs, saleAmount } from "../lib/concessions";
+import { resolvePlayerId } from "../lib/playerRegistry";
+import { userInitials } from "../lib/userInitials";
+
+const concessionsRouter = new Hono<AppType>();
+
+// Apply auth middleware to all concession routes
+concessionsRouter.use("*", requireAuth);
+
+// ============================================
+// GET /api/concessions/items - Get the host's price list
+// ============================================
+concessionsRouter.get("/items", async (c) => {
+  const user = c.get("user")!;
+  console.log(`🍔 [Concessions] Getting price list (user: ${user.email})`);
+
+  const items = await db.concessionItem.findMany({
+    where: { userId: user.id },
+    orderBy: { name: "asc" },
+  });
+
+  return c.json({ items: items.map(formatConcessionItem) } satisfies GetConcessionItemsResponse);
+});
+
+// ============================================
+// POST /api/concessions/items - Add an item to the price list
+// ============================================
+concessionsRouter.post("/items", zValidator("json", createConcessionItemRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🍔 [Concessions] Adding item: ${data.name} at ${data.price} ${data.currency} (user: ${user.email})`);
+
+  const item = await db.concessionItem.create({
+    data: {
+      name: data.name.trim(),
+      price: toMinorUnits(data.price, data.currency),
+      cost: toMinorUnits(data.cost, data.currency),
+      currency: data.currency,
+      userId: user.id,
+    },
+  });
+
+  console.log(`🍔 [Concessions] Item created: ${item.id}`);
+
+  return c.json({ item: formatConcessionItem(item) } satisfies CreateConcessionItemResponse);
+});
+
+// ============================================
+// PUT /api/concessions/items/:id - Update an item
+// ============================================
+concessionsRouter.put("/items/:id", zValidator("json", updateConcessionItemRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const data = c.req.valid("json");
+  console.log(`🍔 [Concessions] Updating item: ${id} (user: ${user.email})`);
+
+  const existing = await db.concessionItem.findFirst({ where: { id, userId: user.id } });
+  if (!existing) {
+    return c.json({ error: "Item not found" }, 404);
+  }
+
+  // Sales keep the price and cost they were made at
+  const item = await db.concessionItem.update({
+    where: { id },
+    data: {
+      ...(data.name !== undefined && { name: data.name.trim() }),
+      ...(data.price !== undefined && { price: toMinorUnits(data.price, existing.currency) }),
+      ...(data.cost !== undefined && { cost: toMinorUnits(data.cost, existing.currency) }),
+      ...(data.active !== undefined && { active: data.active }),
+    },
+  });
+
+  console.log(`🍔 [Concessions] Item updated: ${item.id}`);
+
+  return c.json({ item: formatConcessionItem(item) } satisfies UpdateConcessionItemResponse);
+});
+
+// ============================================
+// DELETE /api/concessions/items/:id - Remove an item from the price list
+// ============================================
+concessionsRouter.delete("/items/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🍔 [Concessions] Deleting item: ${id} (user: ${user.email})`);
+
+  const item = await db.concessionItem.findFirst({ where: { id, userId: user.id } });
+  if (!item) {
+    return c.json({ error: "Item not found" }, 404);
+  }
+
+  // Past sales keep the item's name, price and cost, so they're left in place
+  await db.concessionItem.delete({ where: { id } });
+
+  console.log(`🍔 [Concessions] Item deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteConcessionItemResponse);
+});
+
+// ============================================
+// POST /api/concessions/sales - Record a sale to a player or a walk-up cash sale
+// ============================================
+concessionsRouter.post("/sales", zValidator("json", addConcessionSaleRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🍔 [Concessions] Recording ${data.method} sale of ${data.quantity} x ${data.itemId} to ${data.playerName ?? "walk-up"} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  // The price list belongs to the host, whoever makes the sale
+  const item = await db.concessionItem.findFirst({
+    where: { id: data.itemId, userId: gameSession.userId, active: true },
+  });
+  if (!item) {
+    return c.json({ error: "Item not found" }, 404);
+  }
+
+  if (item.currency !== gameSession.currency) {
+    return c.json({ error: `${item.name} is priced in ${item.currency}, this game is in ${gameSession.currency}` }, 400);
+  }
+
+  // Players belong to the host's registry, even when a member records the sale
+  let playerId: string | null = null;
+  if (data.playerName) {
+    playerId = await resolvePlayerId(gameSession.userId, data.playerName, data.playerId);
+    if (!playerId) {
+      return c.json({ error: "Player not found" }, 404);
+    }
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  // Cash and electronic sales are settled as they're made; tab sales wait for the player
+  const now = new Date();
+  const sale = await db.concessionSale.create({
+    data: {
+      itemName: item.name,
+      quantity: data.quantity,
+      unitPrice: item.price,
+      unitCost: item.cost,
+      method: data.method,
+      settledAt: data.method === "tab" ? null : now,
+      settledMethod: data.method === "tab" ? null : data.method,
+      notes: data.notes ?? null,
+      timestamp: now,
+      createdById: user.id,
+      createdByInitials: initials,
+      itemId: item.id,
+      playerName: data.playerName?.trim() ?? null,
+      playerId,
+      gameSessionId: data.gameSessionId,
+    },
+  });
+
+  console.log(`🍔 [Concessions] Sale recorded: ${sale.id} by ${initials}`);
+
+  return c.json({ sale: formatConcessionSale(sale, gameSession.currency) } satisfies AddConcessionSaleResponse);
+});
+
+// ============================================
+// DELETE /api/concessions/sales/:id - Delete a sale
+// ============================================
+concessionsRouter.delete("/sales/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🍔 [Concessions] Deleting sale: ${id} (user: ${user.email})`);
+
+  // Verify the sale belongs to a session owned by this user
+  const sale = await db.concessionSale.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!sale || sale.gameSession.userId !== user.id) {
+    return c.json({ error: "Sale not found" }, 404);
+  }
+
+  // The cashout it was netted against counted on it - undo that settlement first
+  if (sale.settledByCashoutId) {
+    return c.json({ error: "This sale was settled against a cashout - edit or delete the cashout first" }, 400);
+  }
+
+  await db.concessionSale.delete({ where: { id } });
+
+  console.log(`🍔 [Concessions] Sale deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteConcessionSaleResponse);
+});
+
+// ============================================
+// POST /api/concessions/tabs/settle - Settle a player's open tab in cash or electronically
+// ============================================
+concessionsRouter.post("/tabs/settle", zValidator("json", settleConcessionTabRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🍔 [Concessions] Settling tab for player ${data.playerId} by ${data.method} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const sales = await db.concessionSale.findMany({
+    where: { gameSessionId: data.gameSessionId, playerId: data.playerId, settledAt: null },
+  });
+  if (sales.length === 0) {
+    return c.json({ error: "This player has no open tab" }, 400);
+  }
+
+  await db.concessionSale.updateMany({
+    where: { id: { in: sales.map((s) => s.id) } },
+    data: { settledAt: new Date(), settledMethod: data.method },
+  });
+
+  const amount = sales.reduce((total, s) => total + saleAmount(s), 0);
+  console.log(`🍔 [Concessions] Tab settled: ${sales.length} sales, ${fromMinorUnits(amount, gameSession.currency)}`);
+
+  return c.json({
+    settledSales: sales.length,
+    amount: fromMinorUnits(amount, gameSession.currency),
+  } satisfies SettleConcessionTabResponse);
+});
+
+// ============================================
+// GET /api/concessions/:sessionId - Get a game's sales, open tabs and totals
+// ============================================
+concessionsRouter.get("/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🍔 [Concessions] Getting concessions for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { concessionSales: { orderBy: { timestamp: "desc" } } },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const major = (minor: number) => fromMinorUnits(minor, gameSession.currency);
+  const totals = concessionTotals(gameSession.concessionSales);
+
+  return c.json({
+    sales: gameSession.concessionSales.map((s) => formatConcessionSale(s, gameSession.currency)),
+    tabs: openTabs(gameSession.concessionSales).map((tab) => ({ ...tab, amount: major(tab.amount) })),
+    totalSales: major(totals.sales),
+    totalCostOfGoods: major(totals.costOfGoods),
+    openTabs: major(totals.openTabs),
+  } satisfies GetSessionConcessionsResponse);
+});
+
+export { concessionsRouter };
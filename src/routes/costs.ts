@@ -0,0 +1,248 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  createVenueCostRequestSchema,
+  getProfitReportQuerySchema,
+  updateVenueCostRequestSchema,
+  type CreateVenueCostResponse,
+  type DeleteVenueCostResponse,
+  type GetProfitReportResponse,
+  type GetVenueCostsResponse,
+  type ProfitReportPeriod,
+  type UpdateVenueCostResponse,
+} from "@/shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatVenueCost } from "../lib/serializers";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import { calculateSessionLedger, ledgerInclude } from "../lib/ledger";
+import { monthOf, monthsBetween } from "../lib/budgets";
+import { allocateCosts } from "../lib/costAllocation";
+
+const costsRouter = new Hono<AppType>();
+
+// Apply auth middleware to all venue cost routes
+costsRouter.use("*", requireAuth);
+
+const MAX_REPORT_MONTHS = 36;
+
+// ============================================
+// GET /api/costs - Get the host's venue costs
+// ============================================
+costsRouter.get("/", async (c) => {
+  const user = c.get("user")!;
+  console.log(`🏢 [Costs] Getting venue costs (user: ${user.email})`);
+
+  const costs = await db.venueCost.findMany({
+    where: { userId: user.id },
+    orderBy: [{ startMonth: "desc" }, { name: "asc" }],
+  });
+
+  return c.json({ costs: costs.map(formatVenueCost) } satisfies GetVenueCostsResponse);
+});
+
+// ============================================
+// POST /api/costs - Add a monthly or one-off venue cost
+// ============================================
+costsRouter.post("/", zValidator("json", createVenueCostRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🏢 [Costs] Adding ${data.frequency} venue cost: ${data.name} - ${data.amount} ${data.currency} (user: ${user.email})`);
+
+  const cost = await db.venueCost.create({
+    data: {
+      name: data.name.trim(),
+      amount: toMinorUnits(data.amount, data.currency),
+      currency: data.currency,
+      frequency: data.frequency,
+      allocation: data.allocation,
+      startMonth: data.startMonth,
+      endMonth: data.endMonth ?? null,
+      notes: data.notes ?? null,
+      userId: user.id,
+    },
+  });
+
+  console.log(`🏢 [Costs] Venue cost created: ${cost.id}`);
+
+  return c.json({ cost: formatVenueCost(cost) } satisfies CreateVenueCostResponse);
+});
+
+// ============================================
+// GET /api/costs/profit-report - Contribution margin and fully-loaded profit, month by month
+// ============================================
+costsRouter.get("/profit-report", zValidator("query", getProfitReportQuerySchema), async (c) => {
+  const user = c.get("user")!;
+  const { from, to } = c.req.valid("query");
+  console.log(`🏢 [Costs] Getting profit report from ${from} to ${to} (user: ${user.email})`);
+
+  if (to < from) {
+    return c.json({ error: "The end month must be on or after the start month" }, 400);
+  }
+
+  const months = monthsBetween(from, to);
+  if (months.length > MAX_REPORT_MONTHS) {
+    return c.json({ error: `The report covers at most ${MAX_REPORT_MONTHS} months` }, 400);
+  }
+
+  const start = new Date(`${from}-01T00:00:00.000Z`);
+  const end = new Date(start);
+  end.setUTCMonth(end.getUTCMonth() + months.length);
+
+  // Games belong to the month they started, even when they run past midnight
+  const [sessions, costs] = await Promise.all([
+    db.gameSession.findMany({
+      where: { userId: user.id, startedAt: { gte: start, lt: end } },
+      include: ledgerInclude,
+      orderBy: { startedAt: "asc" },
+    }),
+    db.venueCost.findMany({ where: { userId: user.id } }),
+  ]);
+
+  // A game's contribution margin is its ledger profit, before any venue costs
+  const games = sessions.map((session) => {
+    const ledger = calculateSessionLedger(session);
+    return {
+      session,
+      margin: toMinorUnits(ledger.netProfit, session.currency),
+      rake: toMinorUnits(ledger.totalRake, session.currency),
+    };
+  });
+
+  const now = new Date();
+  const { shares, unallocated } = allocateCosts(
+    costs,
+    games.map((g) => ({ ...g.session, rake: g.rake })),
+    months,
+    now,
+  );
+  const costNames = new Map(costs.map((cost) => [cost.id, cost.name]));
+
+  // One period per month and currency, in minor units until the response
+  type Period = {
+    month: string;
+    currency: string;
+    margin: number;
+    venueCosts: number;
+    unallocated: number;
+    games: typeof games;
+  };
+  const periods = new Map<string, Period>();
+  const period = (month: string, currency: string) => {
+    const key = `${month}|${currency}`;
+    const entry = periods.get(key) ?? { month, currency, margin: 0, venueCosts: 0, unallocated: 0, games: [] };
+    periods.set(key, entry);
+    return entry;
+  };
+
+  games.forEach((g) => {
+    const entry = period(monthOf(g.session.startedAt), g.session.currency);
+    entry.margin += g.margin;
+    entry.games.push(g);
+  });
+  const currencyOf = new Map(games.map((g) => [g.session.id, g.session.currency]));
+  shares.forEach((share) => {
+    period(share.month, currencyOf.get(share.sessionId)!).venueCosts += share.amount;
+  });
+  unallocated.forEach((u) => {
+    const entry = period(u.month, u.currency);
+    entry.venueCosts += u.amount;
+    entry.unallocated += u.amount;
+  });
+
+  const result: ProfitReportPeriod[] = Array.from(periods.values())
+    .sort((a, b) => a.month.localeCompare(b.month) || a.currency.localeCompare(b.currency))
+    .map((p) => {
+      const major = (minor: number) => fromMinorUnits(minor, p.currency);
+      return {
+        month: p.month,
+        currency: p.currency,
+        contributionMargin: major(p.margin),
+        venueCosts: major(p.venueCosts),
+        unallocatedCosts: major(p.unallocated),
+        fullyLoadedProfit: major(p.margin - p.venueCosts),
+        games: p.games.map((g) => {
+          const gameShares = shares.filter((s) => s.sessionId === g.session.id && s.amount > 0);
+          const allocated = gameShares.reduce((total, s) => total + s.amount, 0);
+          return {
+            gameSessionId: g.session.id,
+            name: g.session.name,
+            startedAt: g.session.startedAt.toISOString(),
+            contributionMargin: major(g.margin),
+            allocatedCosts: major(allocated),
+            fullyLoadedProfit: major(g.margin - allocated),
+            costs: gameShares.map((s) => ({
+              costId: s.costId,
+              name: costNames.get(s.costId)!,
+              amount: major(s.amount),
+            })),
+          };
+        }),
+      };
+    });
+
+  console.log(`🏢 [Costs] Profit report covers ${sessions.length} games and ${costs.length} venue costs`);
+
+  return c.json({ from, to, periods: result } satisfies GetProfitReportResponse);
+});
+
+// ============================================
+// PUT /api/costs/:id - Update a venue cost
+// ============================================
+costsRouter.put("/:id", zValidator("json", updateVenueCostRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const data = c.req.valid("json");
+  console.log(`🏢 [Costs] Updating venue cost: ${id} (user: ${user.email})`);
+
+  const existing = await db.venueCost.findFirst({ where: { id, userId: user.id } });
+  if (!existing) {
+    return c.json({ error: "Venue cost not found" }, 404);
+  }
+
+  const startMonth = data.startMonth ?? existing.startMonth;
+  const endMonth = data.endMonth !== undefined ? data.endMonth : existing.endMonth;
+  if (endMonth && (existing.frequency !== "monthly" || endMonth < startMonth)) {
+    return c.json({ error: "Only a monthly cost has an end month, on or after its start month" }, 400);
+  }
+
+  const cost = await db.venueCost.update({
+    where: { id },
+    data: {
+      ...(data.name !== undefined && { name: data.name.trim() }),
+      ...(data.amount !== undefined && { amount: toMinorUnits(data.amount, existing.currency) }),
+      ...(data.allocation !== undefined && { allocation: data.allocation }),
+      ...(data.notes !== undefined && { notes: data.notes }),
+      startMonth,
+      endMonth,
+    },
+  });
+
+  console.log(`🏢 [Costs] Venue cost updated: ${cost.id}`);
+
+  return c.json({ cost: formatVenueCost(cost) } satisfies UpdateVenueCostResponse);
+});
+
+// ============================================
+// DELETE /api/costs/:id - Delete a venue cost
+// ============================================
+costsRouter.delete("/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🏢 [Costs] Deleting venue cost: ${id} (user: ${user.email})`);
+
+  const cost = await db.venueCost.findFirst({ where: { id, userId: user.id } });
+  if (!cost) {
+    return c.json({ error: "Venue cost not found" }, 404);
+  }
+
+  // Nothing is stored per game - the reports simply stop counting it
+  await db.venueCost.delete({ where: { id } });
+
+  console.log(`🏢 [Costs] Venue cost deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteVenueCostResponse);
+});
+
+export { costsRouter };
@@ -0,0 +1,216 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  addCreditRepaymentRequestSchema,
+  type AddCreditRepaymentResponse,
+  type DeleteCreditEntryResponse,
+  type GetDebtorsResponse,
+  type GetPlayerCreditResponse,
+} from "@/shared/contracts";
+import { type CreditEntry } from "../../generated/prisma";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatCreditEntry, formatPlayer } from "../lib/serializers";
+import { calculateReceivable, repayableAmount, type Receivable } from "../lib/receivables";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import { userInitials } from "../lib/userInitials";
+
+const creditRouter = new Hono<AppType>();
+
+// Apply auth middleware to all credit routes
+creditRouter.use("*", requireAuth);
+
+// Group a player's entries by currency - balances never mix currencies
+function groupByCurrency(entries: CreditEntry[]): Map<string, CreditEntry[]> {
+  const groups = new Map<string, CreditEntry[]>();
+  entries.forEach((e) => groups.set(e.currency, [...(groups.get(e.currency) ?? []), e]));
+  return groups;
+}
+
+function formatReceivable(receivable: Receivable, currency: string) {
+  const major = (minor: number) => fromMinorUnits(minor, currency);
+  return {
+    currency,
+    balance: major(receivable.balance),
+    aging: {
+      days0to7: major(receivable.aging.days0to7),
+      days8to30: major(receivable.aging.days8to30),
+      days30plus: major(receivable.aging.days30plus),
+    },
+    oldestOutstandingAt: receivable.oldestOutstandingAt?.toISOString() ?? null,
+    lastRepaymentAt: receivable.lastRepaymentAt?.toISOString() ?? null,
+  };
+}
+
+// ============================================
+// GET /api/credit/debtors - Everyone who still owes the host
+// ============================================
+creditRouter.get("/debtors", async (c) => {
+  const user = c.get("user")!;
+  console.log(`🧾 [Credit] Getting debtors for user: ${user.email}`);
+
+  const players = await db.player.findMany({
+    where: { userId: user.id, creditEntries: { some: {} } },
+    include: { creditEntries: true },
+  });
+
+  const debtors = players
+    .flatMap((player) =>
+      Array.from(groupByCurrency(player.creditEntries)).map(([currency, entries]) => ({
+        player,
+        currency,
+        receivable: calculateReceivable(entries),
+      })),
+    )
+    .filter((d) => d.receivable.balance > 0)
+    // Compare in major units so different currencies sort sensibly
+    .sort((a, b) => fromMinorUnits(b.receivable.balance, b.currency) - fromMinorUnits(a.receivable.balance, a.currency))
+    .map((d) => ({ player: formatPlayer(d.player), ...formatReceivable(d.receivable, d.currency) }));
+
+  console.log(`🧾 [Credit] Found ${debtors.length} debtors`);
+
+  return c.json({ debtors } satisfies GetDebtorsResponse);
+});
+
+// ============================================
+// GET /api/credit/players/:playerId - A player's credit history
+// ============================================
+creditRouter.get("/players/:playerId", async (c) => {
+  const user = c.get("user")!;
+  const playerId = c.req.param("playerId");
+  console.log(`🧾 [Credit] Getting credit history for player: ${playerId} (user: ${user.email})`);
+
+  const player = await db.player.findFirst({
+    where: { id: playerId, userId: user.id },
+    include: { creditEntries: { orderBy: { occurredAt: "asc" } } },
+  });
+
+  if (!player) {
+    return c.json({ error: "Player not found" }, 404);
+  }
+
+  const balances = Array.from(groupByCurrency(player.creditEntries)).map(([currency, entries]) =>
+    formatReceivable(calculateReceivable(entries), currency),
+  );
+
+  return c.json({
+    player: formatPlayer(player),
+    entries: player.creditEntries.map(formatCreditEntry),
+    balances,
+  } satisfies GetPlayerCreditResponse);
+});
+
+// ============================================
+// POST /api/credit/repayments - Record a repayment of carried credit
+// ============================================
+creditRouter.post("/repayments", zValidator("json", addCreditRepaymentRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🧾 [Credit] Recording ${data.method} repayment of ${data.amount} for player: ${data.playerId} (user: ${user.email})`);
+
+  // Taken during a game: the game's host owns the ledger and its currency applies
+  let hostId = user.id;
+  let currency = data.currency;
+  if (data.gameSessionId) {
+    const gameSession = await db.gameSession.findFirst({
+      where: {
+        id: data.gameSessionId,
+        OR: [
+          { userId: user.id },
+          { members: { some: { userId: user.id } } },
+        ],
+      },
+    });
+
+    if (!gameSession) {
+      return c.json({ error: "Game session not found" }, 404);
+    }
+    // A debt is repaid in the currency it was given in
+    if (data.currency && data.currency !== gameSession.currency) {
+      return c.json({ error: `This game is in ${gameSession.currency} - record a ${data.currency} repayment outside the game` }, 400);
+    }
+    hostId = gameSession.userId;
+    currency = gameSession.currency;
+  }
+
+  const player = await db.player.findFirst({
+    where: { id: data.playerId, userId: hostId },
+    include: { creditEntries: { orderBy: { occurredAt: "desc" } } },
+  });
+
+  if (!player) {
+    return c.json({ error: "Player not found" }, 404);
+  }
+
+  currency ??= player.creditEntries.find((e) => e.type === "marker")?.currency;
+  if (!currency) {
+    return c.json({ error: "currency is required for a player without credit history" }, 400);
+  }
+
+  // Repayments against a buy-in count too, so the carried balance is never repaid twice
+  const amount = toMinorUnits(data.amount, currency);
+  const repayable = await repayableAmount({ hostId, playerId: player.id, currency });
+  if (repayable === 0) {
+    return c.json({ error: `${player.name} has no ${currency} credit outstanding` }, 400);
+  }
+  if (amount > repayable) {
+    return c.json({ error: `Repayment exceeds the outstanding balance of ${fromMinorUnits(repayable, currency)}` }, 400);
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const entry = await db.creditEntry.create({
+    data: {
+      type: "repayment",
+      amount,
+      currency,
+      method: data.method,
+      notes: data.notes ?? null,
+      userId: hostId,
+      playerId: player.id,
+      gameSessionId: data.gameSessionId ?? null,
+      createdById: user.id,
+      createdByInitials: initials,
+    },
+  });
+
+  const receivable = calculateReceivable([
+    ...player.creditEntries.filter((e) => e.currency === currency),
+    entry,
+  ]);
+
+  console.log(`🧾 [Credit] Repayment recorded: ${entry.id} by ${initials}, balance now ${receivable.balance}`);
+
+  return c.json({
+    entry: formatCreditEntry(entry),
+    balance: fromMinorUnits(receivable.balance, currency),
+  } satisfies AddCreditRepaymentResponse);
+});
+
+// ============================================
+// DELETE /api/credit/entries/:id - Delete a credit entry
+// ============================================
+creditRouter.delete("/entries/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🧾 [Credit] Deleting credit entry: ${id} (user: ${user.email})`);
+
+  // Only the host can delete entries from their ledger
+  const existing = await db.creditEntry.findFirst({
+    where: { id, userId: user.id },
+  });
+
+  if (!existing) {
+    return c.json({ error: "Credit entry not found" }, 404);
+  }
+
+  await db.creditEntry.delete({ where: { id } });
+
+  console.log(`🧾 [Credit] Credit entry deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteCreditEntryResponse);
+});
+
+export { creditRouter };
@@ -6,6 +6,13 @@ import {
   claimTipsByDealerRequestSchema,
   claimAllRakeRequestSchema,
   updateTotalRakeRequestSchema,
+  createDealerRequestSchema,
+  updateDealerRequestSchema,
+  createTipPolicyRequestSchema,
+  updateTipPolicyRequestSchema,
+  payTipPoolRequestSchema,
+  getDealerPayoutsQuerySchema,
+  getDealerPayrollQuerySchema,
   type AddDealerDownResponse,
   type GetDealerDownsResponse,
   type UpdateDealerDownResponse,
@@ -13,16 +20,59 @@ import {
   type ClaimTipsByDealerResponse,
   type ClaimAllRakeResponse,
   type UpdateTotalRakeResponse,
+  type CreateDealerResponse,
+  type DeleteDealerResponse,
+  type GetDealerResponse,
+  type GetDealersResponse,
+  type UpdateDealerResponse,
+  type CreateTipPolicyResponse,
+  type DeleteDealerPayoutResponse,
+  type DeleteTipPolicyResponse,
+  type GetDealerPayoutsResponse,
+  type GetDealerPayrollResponse,
+  type GetTipPoliciesResponse,
+  type PayTipPoolResponse,
+  type UpdateTipPolicyResponse,
 } from "@/shared/contracts";
 import { type AppType } from "../types";
 import { db } from "../db";
 import { requireAuth } from "../middleware/requireAuth";
+import {
+  formatDealer,
+  formatDealerDown,
+  formatDealerPayout,
+  formatGameSession,
+  formatTipPolicy,
+} from "../lib/serializers";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import { resolveTableId } from "../lib/tables";
+import { resolveDealerId } from "../lib/dealerRoster";
+import {
+  describeTipRule,
+  percentageRule,
+  splitDealerTips,
+  splitTipPool,
+  untimedDowns,
+} from "../lib/tipPolicies";
+import { calculatePayroll, payrollCsv } from "../lib/payroll";
+import { userInitials } from "../lib/userInitials";
 
 const dealersRouter = new Hono<AppType>();
 
 // Apply auth middleware to all dealer routes
 dealersRouter.use("*", requireAuth);
 
+/**
+ * The host's tip policy to apply: the one asked for, else their default.
+ * null when they have no default; undefined when the policy asked for isn't theirs.
+ */
+async function findTipPolicy(hostId: string, policyId?: string) {
+  if (policyId) {
+    return (await db.tipPolicy.findFirst({ where: { id: policyId, userId: hostId } })) ?? undefined;
+  }
+  return db.tipPolicy.findFirst({ where: { userId: hostId, isDefault: true } });
+}
+
 // ============================================
 // POST /api/dealers/down - Add dealer down
 // ============================================
@@ -30,7 +80,7 @@ dealersRouter.post("/down", zValidator("json", addDealerDownRequestSchema), asyn
   try {
     const user = c.get("user")!;
     const data = c.req.valid("json");
-    console.log(`🎲 [Dealers] Adding down for ${data.dealerName}: Tips $${data.tips}, Rake $${data.rake}, Session: ${data.gameSessionId} (user: ${user.email}, userId: ${user.id})`);
+    console.log(`🎲 [Dealers] Adding down for ${data.dealerName}: Tips ${data.tips}, Rake ${data.rake}, Session: ${data.gameSessionId} (user: ${user.email}, userId: ${user.id})`);
 
     // First, check if the session exists at all (for debugging)
     const sessionExists = await db.gameSession.findUnique({
@@ -63,14 +113,27 @@ dealersRouter.post("/down", zValidator("json", addDealerDownRequestSchema), asyn
       return c.json({ error: "Game session is not active" }, 400);
     }
 
-    // Get user initials (from user record or generate from name)
-    const initials = user.initials || (user.name ? user.name.split(" ").map((n: string) => n[0]).join("").toUpperCase().slice(0, 2) : user.email.slice(0, 2).toUpperCase());
+    const tableId = await resolveTableId(data.gameSessionId, data.tableId);
+    if (tableId === undefined) {
+      return c.json({ error: "Table not found" }, 404);
+    }
+
+    // Dealers belong to the host's roster, even when a member records the down
+    const dealerId = await resolveDealerId(gameSession.userId, data.dealerName, data.dealerId);
+    if (!dealerId) {
+      return c.json({ error: "Dealer not found" }, 404);
+    }
+
+    // Get user initials
+    const initials = userInitials(user);
 
     const dealerDown = await db.dealerDown.create({
       data: {
         dealerName: data.dealerName,
-        tips: data.tips,
-        rake: data.rake,
+        dealerId,
+        tableId,
+        tips: toMinorUnits(data.tips, gameSession.currency),
+        rake: toMinorUnits(data.rake, gameSession.currency),
         gameSessionId: data.gameSessionId,
         createdById: user.id,
         createdByInitials: initials,
@@ -80,10 +143,7 @@ dealersRouter.post("/down", zValidator("json", addDealerDownRequestSchema), asyn
     console.log(`🎲 [Dealers] Dealer down created: ${dealerDown.id} by ${initials}`);
 
     return c.json({
-      dealerDown: {
-        ...dealerDown,
-        timestamp: dealerDown.timestamp.toISOString(),
-      },
+      dealerDown: formatDealerDown(dealerDown, gameSession.currency),
     } satisfies AddDealerDownResponse);
   } catch (error: any) {
     console.error("🎲 [Dealers] Error adding dealer down:", error);
@@ -122,10 +182,7 @@ dealersRouter.get("/downs/:sessionId", async (c) => {
   console.log(`🎲 [Dealers] Found ${downs.length} dealer downs`);
 
   return c.json({
-    downs: downs.map((d) => ({
-      ...d,
-      timestamp: d.timestamp.toISOString(),
-    })),
+    downs: downs.map((d) => formatDealerDown(d, gameSession.currency)),
   } satisfies GetDealerDownsResponse);
 });
 
@@ -175,22 +232,26 @@ dealersRouter.put("/down/:id", zValidator("json", updateDealerDownRequestSchema)
     return c.json({ error: "Dealer down not found" }, 404);
   }
 
+  // Keep the roster link in step with the name unless a dealer is picked explicitly
+  const dealerId = await resolveDealerId(existingDown.gameSession.userId, data.dealerName, data.dealerId);
+  if (!dealerId) {
+    return c.json({ error: "Dealer not found" }, 404);
+  }
+
   const dealerDown = await db.dealerDown.update({
     where: { id },
     data: {
       dealerName: data.dealerName,
-      tips: data.tips,
-      rake: data.rake,
+      dealerId,
+      tips: toMinorUnits(data.tips, existingDown.gameSession.currency),
+      rake: toMinorUnits(data.rake, existingDown.gameSession.currency),
     },
   });
 
   console.log(`🎲 [Dealers] Dealer down updated: ${id}`);
 
   return c.json({
-    dealerDown: {
-      ...dealerDown,
-      timestamp: dealerDown.timestamp.toISOString(),
-    },
+    dealerDown: formatDealerDown(dealerDown, existingDown.gameSession.currency),
   } satisfies UpdateDealerDownResponse);
 });
 
@@ -220,10 +281,7 @@ dealersRouter.put("/down/:id/pay", async (c) => {
   console.log(`🎲 [Dealers] Tips marked as paid: ${id}`);
 
   return c.json({
-    dealerDown: {
-      ...dealerDown,
-      timestamp: dealerDown.timestamp.toISOString(),
-    },
+    dealerDown: formatDealerDown(dealerDown, existingDown.gameSession.currency),
   } satisfies MarkDealerTipsPaidResponse);
 });
 
@@ -245,6 +303,10 @@ dealersRouter.put("/down/:id/unpay", async (c) => {
     return c.json({ error: "Dealer down not found" }, 404);
   }
 
+  if (existingDown.payoutId) {
+    return c.json({ error: "These tips were paid in a dealer payout - reverse the payout instead" }, 400);
+  }
+
   const dealerDown = await db.dealerDown.update({
     where: { id },
     data: { tipsPaid: false },
@@ -253,10 +315,7 @@ dealersRouter.put("/down/:id/unpay", async (c) => {
   console.log(`🎲 [Dealers] Tips marked as unpaid: ${id}`);
 
   return c.json({
-    dealerDown: {
-      ...dealerDown,
-      timestamp: dealerDown.timestamp.toISOString(),
-    },
+    dealerDown: formatDealerDown(dealerDown, existingDown.gameSession.currency),
   } satisfies MarkDealerTipsPaidResponse);
 });
 
@@ -286,10 +345,7 @@ dealersRouter.put("/down/:id/claim-rake", async (c) => {
   console.log(`🎲 [Dealers] Rake marked as claimed: ${id}`);
 
   return c.json({
-    dealerDown: {
-      ...dealerDown,
-      timestamp: dealerDown.timestamp.toISOString(),
-    },
+    dealerDown: formatDealerDown(dealerDown, existingDown.gameSession.currency),
   } satisfies MarkDealerTipsPaidResponse);
 });
 
@@ -319,23 +375,19 @@ dealersRouter.put("/down/:id/unclaim-rake", async (c) => {
   console.log(`🎲 [Dealers] Rake marked as unclaimed: ${id}`);
 
   return c.json({
-    dealerDown: {
-      ...dealerDown,
-      timestamp: dealerDown.timestamp.toISOString(),
-    },
+    dealerDown: formatDealerDown(dealerDown, existingDown.gameSession.currency),
   } satisfies MarkDealerTipsPaidResponse);
 });
 
 // ============================================
-// POST /api/dealers/claim-tips-by-dealer - Claim all tips for a specific dealer with percentage
+// POST /api/dealers/claim-tips-by-dealer - Pay out all tips for a specific dealer under a tip policy
 // ============================================
 dealersRouter.post("/claim-tips-by-dealer", zValidator("json", claimTipsByDealerRequestSchema), async (c) => {
   try {
     const user = c.get("user")!;
     const data = c.req.valid("json");
-    const percentage = data.percentage ?? 100;
 
-    console.log(`🎲 [Dealers] Claiming ${percentage}% tips for dealer: ${data.dealerName} (user: ${user.email}, userId: ${user.id})`);
+    console.log(`🎲 [Dealers] Claiming tips for dealer: ${data.dealerName} (user: ${user.email}, userId: ${user.id})`);
 
     // First, check if the session exists at all (for debugging)
     const sessionExists = await db.gameSession.findUnique({
@@ -378,31 +430,61 @@ dealersRouter.post("/claim-tips-by-dealer", zValidator("json", claimTipsByDealer
         totalTipsClaimed: 0,
         ownerCut: 0,
         dealerPayout: 0,
+        payout: null,
       } satisfies ClaimTipsByDealerResponse);
     }
 
-    // Calculate totals
-    const totalTips = unpaidDowns.reduce((sum, d) => sum + d.tips, 0);
-    const dealerPayout = (totalTips * percentage) / 100;
-    const ownerCut = totalTips - dealerPayout;
-
-    // Mark all as paid
-    const updateResult = await db.dealerDown.updateMany({
-      where: {
-        gameSessionId: data.gameSessionId,
-        dealerName: data.dealerName,
-        tipsPaid: false,
-      },
-      data: { tipsPaid: true },
+    // An explicit percentage wins, then the named or default tip policy, then 100% to the dealer
+    const policy = data.percentage === undefined ? await findTipPolicy(user.id, data.policyId) : null;
+    if (policy === undefined) {
+      return c.json({ error: "Tip policy not found" }, 404);
+    }
+    if (policy?.type === "pooled") {
+      return c.json({ error: "Pooled tips are paid out for the whole game - use pay-tip-pool" }, 400);
+    }
+    // A toke fee is a flat amount in the policy's currency - percentages work in any game
+    if (policy?.type === "toke-fee" && policy.currency !== gameSession.currency) {
+      return c.json({ error: `The ${policy.name} toke fee is in ${policy.currency}, this game is in ${gameSession.currency}` }, 400);
+    }
+    const rule = policy ?? percentageRule(data.percentage ?? 100);
+
+    // Minor units - the owner's cut absorbs any rounding
+    const split = splitDealerTips(rule, unpaidDowns);
+
+    // Get user initials
+    const initials = userInitials(user);
+
+    const payout = await db.$transaction(async (tx) => {
+      const created = await tx.dealerPayout.create({
+        data: {
+          dealerName: data.dealerName,
+          dealerId: unpaidDowns.find((d) => d.dealerId)?.dealerId ?? null,
+          grossTips: split.grossTips,
+          houseCut: split.houseCut,
+          netPaid: split.netPaid,
+          method: data.method,
+          policyName: policy?.name ?? describeTipRule(rule, gameSession.currency),
+          policyId: policy?.id ?? null,
+          gameSessionId: data.gameSessionId,
+          createdById: user.id,
+          createdByInitials: initials,
+        },
+      });
+      await tx.dealerDown.updateMany({
+        where: { id: { in: unpaidDowns.map((d) => d.id) } },
+        data: { tipsPaid: true, payoutId: created.id },
+      });
+      return { ...created, downs: unpaidDowns.map((d) => ({ id: d.id })) };
     });
 
-    console.log(`🎲 [Dealers] Claimed tips for ${data.dealerName}: ${updateResult.count} downs, $${totalTips} total, $${dealerPayout} to dealer, $${ownerCut} to owner`);
+    console.log(`🎲 [Dealers] Claimed tips for ${data.dealerName}: ${unpaidDowns.length} downs, ${split.grossTips} total, ${split.netPaid} to dealer, ${split.houseCut} to owner (minor units)`);
 
     return c.json({
-      updatedCount: updateResult.count,
-      totalTipsClaimed: totalTips,
-      ownerCut: ownerCut,
-      dealerPayout: dealerPayout,
+      updatedCount: unpaidDowns.length,
+      totalTipsClaimed: fromMinorUnits(split.grossTips, gameSession.currency),
+      ownerCut: fromMinorUnits(split.houseCut, gameSession.currency),
+      dealerPayout: fromMinorUnits(split.netPaid, gameSession.currency),
+      payout: formatDealerPayout(payout, gameSession.currency),
     } satisfies ClaimTipsByDealerResponse);
   } catch (error: any) {
     console.error("🎲 [Dealers] Error claiming tips by dealer:", error);
@@ -473,11 +555,11 @@ dealersRouter.post("/claim-all-rake", zValidator("json", claimAllRakeRequestSche
       data: { rakeClaimed: true },
     });
 
-    console.log(`🎲 [Dealers] Claimed all rake: ${updateResult.count} downs, $${totalRake} total`);
+    console.log(`🎲 [Dealers] Claimed all rake: ${updateResult.count} downs, ${totalRake} total (minor units)`);
 
     return c.json({
       updatedCount: updateResult.count,
-      totalRakeClaimed: totalRake,
+      totalRakeClaimed: fromMinorUnits(totalRake, gameSession.currency),
     } satisfies ClaimAllRakeResponse);
   } catch (error: any) {
     console.error("🎲 [Dealers] Error claiming all rake:", error);
@@ -492,7 +574,7 @@ dealersRouter.put("/total-rake", zValidator("json", updateTotalRakeRequestSchema
   try {
     const user = c.get("user")!;
     const data = c.req.valid("json");
-    console.log(`🎲 [Dealers] Updating total rake for session: ${data.gameSessionId}, amount: $${data.totalRake} (user: ${user.email}, userId: ${user.id})`);
+    console.log(`🎲 [Dealers] Updating total rake for session: ${data.gameSessionId}, amount: ${data.totalRake} (user: ${user.email}, userId: ${user.id})`);
 
     // First, check if the session exists at all (for debugging)
     const sessionExists = await db.gameSession.findUnique({
@@ -531,20 +613,14 @@ dealersRouter.put("/total-rake", zValidator("json", updateTotalRakeRequestSchema
     // Update total rake
     const updatedSession = await db.gameSession.update({
       where: { id: data.gameSessionId },
-      data: { totalRake: data.totalRake },
+      data: { totalRake: toMinorUnits(data.totalRake, gameSession.currency) },
     });
 
-    console.log(`🎲 [Dealers] Total rake updated: $${data.totalRake}`);
+    console.log(`🎲 [Dealers] Total rake updated: ${data.totalRake}`);
 
     return c.json({
-      session: {
-        ...updatedSession,
-        startedAt: updatedSession.startedAt.toISOString(),
-        endedAt: updatedSession.endedAt?.toISOString() || null,
-        createdAt: updatedSession.createdAt.toISOString(),
-        updatedAt: updatedSession.updatedAt.toISOString(),
-      },
-      totalRake: updatedSession.totalRake,
+      session: formatGameSession(updatedSession),
+      totalRake: fromMinorUnits(updatedSession.totalRake, updatedSession.currency),
     } satisfies UpdateTotalRakeResponse);
   } catch (error: any) {
     console.error("🎲 [Dealers] Error updating total rake:", error);
@@ -552,4 +628,454 @@ dealersRouter.put("/total-rake", zValidator("json", updateTotalRakeRequestSchema
   }
 });
 
+// ============================================
+// POST /api/dealers/pay-tip-pool - Pool every unpaid tip in a game and pay each dealer their share
+// ============================================
+dealersRouter.post("/pay-tip-pool", zValidator("json", payTipPoolRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🎲 [Dealers] Paying out tip pool for session: ${data.gameSessionId} (user: ${user.email})`);
+
+  // Only the host pays out tips
+  const gameSession = await db.gameSession.findFirst({
+    where: { id: data.gameSessionId, userId: user.id },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const policy = await findTipPolicy(user.id, data.policyId);
+  if (!policy) {
+    return c.json({ error: "Tip policy not found" }, 404);
+  }
+  if (policy.type !== "pooled") {
+    return c.json({ error: `${policy.name} is not a pooled tip policy` }, 400);
+  }
+
+  const unpaidDowns = await db.dealerDown.findMany({
+    where: { gameSessionId: data.gameSessionId, tipsPaid: false },
+    orderBy: { timestamp: "asc" },
+  });
+
+  if (unpaidDowns.length === 0) {
+    return c.json({ totalTips: 0, houseCut: 0, totalPaid: 0, payouts: [] } satisfies PayTipPoolResponse);
+  }
+
+  const untimed = untimedDowns(unpaidDowns);
+  if (policy.poolSplit === "hours" && untimed.length > 0) {
+    return c.json({ error: `Splitting by hours needs timed downs - ${untimed.length} downs were recorded without start and end times` }, 400);
+  }
+
+  const { pool, shares } = splitTipPool(policy, unpaidDowns);
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const payouts = await db.$transaction(async (tx) => {
+    const created = [];
+    for (const share of shares) {
+      const payout = await tx.dealerPayout.create({
+        data: {
+          dealerName: share.dealerName,
+          dealerId: share.dealerId,
+          grossTips: share.grossTips,
+          houseCut: share.houseCut,
+          netPaid: share.netPaid,
+          method: data.method,
+          policyName: policy.name,
+          policyId: policy.id,
+          gameSessionId: data.gameSessionId,
+          createdById: user.id,
+          createdByInitials: initials,
+        },
+      });
+      await tx.dealerDown.updateMany({
+        where: { id: { in: share.downIds } },
+        data: { tipsPaid: true, payoutId: payout.id },
+      });
+      created.push({ ...payout, downs: share.downIds.map((id) => ({ id })) });
+    }
+    return created;
+  });
+
+  console.log(`🎲 [Dealers] Tip pool paid: ${pool.grossTips} across ${payouts.length} dealers, ${pool.houseCut} to house (minor units)`);
+
+  return c.json({
+    totalTips: fromMinorUnits(pool.grossTips, gameSession.currency),
+    houseCut: fromMinorUnits(pool.houseCut, gameSession.currency),
+    totalPaid: fromMinorUnits(pool.netPaid, gameSession.currency),
+    payouts: payouts.map((p) => formatDealerPayout(p, gameSession.currency)),
+  } satisfies PayTipPoolResponse);
+});
+
+// ============================================
+// GET /api/dealers/payouts - Get the host's dealer payout history
+// ============================================
+dealersRouter.get("/payouts", zValidator("query", getDealerPayoutsQuerySchema), async (c) => {
+  const user = c.get("user")!;
+  const { gameSessionId, dealerId } = c.req.valid("query");
+  console.log(`🎲 [Dealers] Getting dealer payouts (user: ${user.email})`);
+
+  const payouts = await db.dealerPayout.findMany({
+    where: {
+      gameSession: { userId: user.id },
+      ...(gameSessionId ? { gameSessionId } : {}),
+      ...(dealerId ? { dealerId } : {}),
+    },
+    include: { downs: { select: { id: true } }, gameSession: { select: { currency: true } } },
+    orderBy: { paidAt: "desc" },
+  });
+
+  console.log(`🎲 [Dealers] Found ${payouts.length} dealer payouts`);
+
+  return c.json({
+    payouts: payouts.map((p) => formatDealerPayout(p, p.gameSession.currency)),
+  } satisfies GetDealerPayoutsResponse);
+});
+
+// ============================================
+// DELETE /api/dealers/payouts/:id - Reverse a payout (its downs go back to unpaid)
+// ============================================
+dealersRouter.delete("/payouts/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🎲 [Dealers] Reversing dealer payout: ${id} (user: ${user.email})`);
+
+  // Verify the payout belongs to a session owned by this user
+  const payout = await db.dealerPayout.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!payout || payout.gameSession.userId !== user.id) {
+    return c.json({ error: "Dealer payout not found" }, 404);
+  }
+
+  await db.$transaction([
+    db.dealerDown.updateMany({
+      where: { payoutId: id },
+      data: { tipsPaid: false, payoutId: null },
+    }),
+    db.dealerPayout.delete({ where: { id } }),
+  ]);
+
+  console.log(`🎲 [Dealers] Dealer payout reversed: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteDealerPayoutResponse);
+});
+
+// ============================================
+// GET /api/dealers/payroll - Dealer payroll across the host's games in a date range (JSON or CSV)
+// ============================================
+dealersRouter.get("/payroll", zValidator("query", getDealerPayrollQuerySchema), async (c) => {
+  const user = c.get("user")!;
+  const { from, to, format } = c.req.valid("query");
+  console.log(`🎲 [Dealers] Getting dealer payroll from ${from} to ${to} (user: ${user.email})`);
+
+  const start = new Date(`${from}T00:00:00.000Z`);
+  const end = new Date(`${to}T00:00:00.000Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+
+  if (end <= start) {
+    return c.json({ error: "The end date must be on or after the start date" }, 400);
+  }
+
+  // Games belong to the day they started, even when they run past midnight
+  const [sessions, roster] = await Promise.all([
+    db.gameSession.findMany({
+      where: { userId: user.id, startedAt: { gte: start, lt: end } },
+      include: { dealerDowns: true, dealerPayouts: true },
+    }),
+    db.dealer.findMany({ where: { userId: user.id } }),
+  ]);
+
+  const entries = calculatePayroll(sessions, roster);
+
+  console.log(`🎲 [Dealers] Payroll covers ${sessions.length} games and ${entries.length} dealers`);
+
+  if (format === "csv") {
+    return c.body(payrollCsv(entries), 200, {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="dealer-payroll-${from}-to-${to}.csv"`,
+    });
+  }
+
+  return c.json({
+    from,
+    to,
+    games: sessions.length,
+    dealers: entries.map((e) => {
+      const major = (minor: number) => fromMinorUnits(minor, e.currency);
+      return {
+        ...e,
+        payModel: e.payModel as "per-down" | "hourly" | "tips-only",
+        tipsEarned: major(e.tipsEarned),
+        houseCut: major(e.houseCut),
+        tipsPaid: major(e.tipsPaid),
+        tipsOwed: major(e.tipsOwed),
+        wages: major(e.wages),
+      };
+    }),
+  } satisfies GetDealerPayrollResponse);
+});
+
+// ============================================
+// GET /api/dealers/tip-policies - Get the host's tip policies
+// ============================================
+dealersRouter.get("/tip-policies", async (c) => {
+  const user = c.get("user")!;
+  console.log(`🎲 [Dealers] Getting tip policies (user: ${user.email})`);
+
+  const policies = await db.tipPolicy.findMany({
+    where: { userId: user.id },
+    orderBy: { name: "asc" },
+  });
+
+  return c.json({
+    policies: policies.map(formatTipPolicy),
+  } satisfies GetTipPoliciesResponse);
+});
+
+// ============================================
+// POST /api/dealers/tip-policies - Create a tip policy
+// ============================================
+dealersRouter.post("/tip-policies", zValidator("json", createTipPolicyRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🎲 [Dealers] Creating tip policy: ${data.name} (user: ${user.email})`);
+
+  const policy = await db.$transaction(async (tx) => {
+    // Only one default per host
+    if (data.isDefault) {
+      await tx.tipPolicy.updateMany({
+        where: { userId: user.id, isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+    return tx.tipPolicy.create({
+      data: {
+        name: data.name,
+        type: data.type,
+        housePercent: data.housePercent,
+        tokeFee: toMinorUnits(data.tokeFee, data.currency),
+        currency: data.currency,
+        poolSplit: data.poolSplit,
+        isDefault: data.isDefault,
+        userId: user.id,
+      },
+    });
+  });
+
+  console.log(`🎲 [Dealers] Tip policy created: ${policy.id}`);
+
+  return c.json({ policy: formatTipPolicy(policy) } satisfies CreateTipPolicyResponse);
+});
+
+// ============================================
+// PUT /api/dealers/tip-policies/:id - Update a tip policy
+// ============================================
+dealersRouter.put("/tip-policies/:id", zValidator("json", updateTipPolicyRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const data = c.req.valid("json");
+  console.log(`🎲 [Dealers] Updating tip policy: ${id} (user: ${user.email})`);
+
+  const existingPolicy = await db.tipPolicy.findFirst({
+    where: { id, userId: user.id },
+  });
+
+  if (!existingPolicy) {
+    return c.json({ error: "Tip policy not found" }, 404);
+  }
+
+  const { tokeFee, ...fields } = data;
+  const currency = data.currency ?? existingPolicy.currency;
+
+  // The stored fee is in minor units of the old currency - it can't be carried over
+  if (currency !== existingPolicy.currency && tokeFee === undefined && existingPolicy.tokeFee > 0) {
+    return c.json({ error: `Changing the currency needs a new toke fee in ${currency}` }, 400);
+  }
+
+  const policy = await db.$transaction(async (tx) => {
+    // Only one default per host
+    if (data.isDefault) {
+      await tx.tipPolicy.updateMany({
+        where: { userId: user.id, isDefault: true, id: { not: id } },
+        data: { isDefault: false },
+      });
+    }
+    return tx.tipPolicy.update({
+      where: { id },
+      data: {
+        ...fields,
+        tokeFee: tokeFee !== undefined ? toMinorUnits(tokeFee, currency) : undefined,
+      },
+    });
+  });
+
+  console.log(`🎲 [Dealers] Tip policy updated: ${id}`);
+
+  return c.json({ policy: formatTipPolicy(policy) } satisfies UpdateTipPolicyResponse);
+});
+
+// ============================================
+// DELETE /api/dealers/tip-policies/:id - Delete a tip policy (payouts keep its name)
+// ============================================
+dealersRouter.delete("/tip-policies/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🎲 [Dealers] Deleting tip policy: ${id} (user: ${user.email})`);
+
+  const existingPolicy = await db.tipPolicy.findFirst({
+    where: { id, userId: user.id },
+  });
+
+  if (!existingPolicy) {
+    return c.json({ error: "Tip policy not found" }, 404);
+  }
+
+  await db.tipPolicy.delete({ where: { id } });
+
+  console.log(`🎲 [Dealers] Tip policy deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteTipPolicyResponse);
+});
+
+// Roster routes come last so "/:id" never shadows the fixed routes above (e.g. /total-rake)
+
+// ============================================
+// GET /api/dealers - Get the host's dealer roster
+// ============================================
+dealersRouter.get("/", async (c) => {
+  const user = c.get("user")!;
+  console.log(`🎲 [Dealers] Getting dealer roster (user: ${user.email})`);
+
+  const dealers = await db.dealer.findMany({
+    where: { userId: user.id },
+    orderBy: { name: "asc" },
+  });
+
+  console.log(`🎲 [Dealers] Found ${dealers.length} dealers on the roster`);
+
+  return c.json({
+    dealers: dealers.map(formatDealer),
+  } satisfies GetDealersResponse);
+});
+
+// ============================================
+// POST /api/dealers - Add a dealer to the roster
+// ============================================
+dealersRouter.post("/", zValidator("json", createDealerRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🎲 [Dealers] Adding dealer to roster: ${data.name} (user: ${user.email})`);
+
+  const dealer = await db.dealer.create({
+    data: {
+      name: data.name,
+      nickname: data.nickname ?? null,
+      phone: data.phone ?? null,
+      email: data.email ?? null,
+      notes: data.notes ?? null,
+      payModel: data.payModel,
+      payRate: data.payModel === "tips-only" ? 0 : toMinorUnits(data.payRate, data.currency),
+      currency: data.currency,
+      userId: user.id,
+    },
+  });
+
+  console.log(`🎲 [Dealers] Dealer added: ${dealer.id}`);
+
+  return c.json({ dealer: formatDealer(dealer) } satisfies CreateDealerResponse);
+});
+
+// ============================================
+// GET /api/dealers/:id - Get a dealer with their downs across all games
+// ============================================
+dealersRouter.get("/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🎲 [Dealers] Getting dealer: ${id} (user: ${user.email})`);
+
+  const dealer = await db.dealer.findFirst({
+    where: { id, userId: user.id },
+    include: {
+      downs: {
+        orderBy: { timestamp: "desc" },
+        include: { gameSession: { select: { currency: true } } },
+      },
+    },
+  });
+
+  if (!dealer) {
+    return c.json({ error: "Dealer not found" }, 404);
+  }
+
+  const { downs, ...dealerRow } = dealer;
+  return c.json({
+    dealer: formatDealer(dealerRow),
+    downs: downs.map((d) => formatDealerDown(d, d.gameSession.currency)),
+  } satisfies GetDealerResponse);
+});
+
+// ============================================
+// PUT /api/dealers/:id - Update a dealer
+// ============================================
+dealersRouter.put("/:id", zValidator("json", updateDealerRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const data = c.req.valid("json");
+  console.log(`🎲 [Dealers] Updating dealer: ${id} (user: ${user.email})`);
+
+  const existingDealer = await db.dealer.findFirst({
+    where: { id, userId: user.id },
+  });
+
+  if (!existingDealer) {
+    return c.json({ error: "Dealer not found" }, 404);
+  }
+
+  const { payRate, ...fields } = data;
+  const payModel = data.payModel ?? existingDealer.payModel;
+  const currency = data.currency ?? existingDealer.currency;
+
+  const dealer = await db.dealer.update({
+    where: { id },
+    data: {
+      ...fields,
+      payRate: payModel === "tips-only"
+        ? 0
+        : payRate !== undefined ? toMinorUnits(payRate, currency) : undefined,
+    },
+  });
+
+  console.log(`🎲 [Dealers] Dealer updated: ${id}`);
+
+  return c.json({ dealer: formatDealer(dealer) } satisfies UpdateDealerResponse);
+});
+
+// ============================================
+// DELETE /api/dealers/:id - Remove a dealer (their downs are kept, unlinked)
+// ============================================
+dealersRouter.delete("/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🎲 [Dealers] Deleting dealer: ${id} (user: ${user.email})`);
+
+  const existingDealer = await db.dealer.findFirst({
+    where: { id, userId: user.id },
+  });
+
+  if (!existingDealer) {
+    return c.json({ error: "Dealer not found" }, 404);
+  }
+
+  await db.dealer.delete({ where: { id } });
+
+  console.log(`🎲 [Dealers] Dealer deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteDealerResponse);
+});
+
 export { dealersRouter };
\ No newline at end of file
@@ -1,28 +1,129 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
 import {
   addExpenseRequestSchema,
+  createExpenseCategoryRequestSchema,
+  getBudgetReportQuerySchema,
+  getExpenseReceiptQuerySchema,
+  reimburseExpenseRequestSchema,
+  updateExpenseCategoryRequestSchema,
   updateExpenseRequestSchema,
   type AddExpenseResponse,
+  type CreateExpenseCategoryResponse,
+  type DeleteExpenseCategoryResponse,
+  type DeleteExpenseReceiptResponse,
+  type GetBudgetReportResponse,
+  type GetExpenseCategoriesResponse,
+  type ExpensePayer,
   type GetExpensesResponse,
+  type ReimburseExpenseResponse,
+  type UpdateExpenseCategoryResponse,
   type UpdateExpenseResponse,
+  type UploadExpenseReceiptResponse,
 } from "@/shared/contracts";
 import { type AppType } from "../types";
+import { Prisma } from "../../generated/prisma";
 import { db } from "../db";
 import { requireAuth } from "../middleware/requireAuth";
+import { formatExpense, formatExpenseCategory } from "../lib/serializers";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import { budgetReport, monthsBetween } from "../lib/budgets";
+import { hostExpenseCategories } from "../lib/expenseCategories";
+import { deleteReceiptFiles, readReceipt, saveReceipt } from "../lib/receipts";
+import { userInitials } from "../lib/userInitials";
 
 const expensesRouter = new Hono<AppType>();
 
 // Apply auth middleware to all expense routes
 expensesRouter.use("*", requireAuth);
 
+const MAX_REPORT_MONTHS = 36;
+
+const expenseInclude = { category: { select: { name: true } } } as const;
+
+/**
+ * An expense with its game, if the user can see the game
+ */
+async function findVisibleExpense(id: string, userId: string) {
+  return db.expense.findFirst({
+    where: {
+      id,
+      gameSession: {
+        OR: [
+          { userId },
+          { members: { some: { userId } } },
+        ],
+      },
+    },
+    include: { gameSession: true },
+  });
+}
+
+/**
+ * Who fronted the money for an expense - a member must be the owner or a member of the game.
+ * Returns null when the member isn't in the game.
+ */
+async function resolvePayer(
+  gameSessionId: string,
+  payer: { paidBy: ExpensePayer; paidByUserId?: string; paidByName?: string },
+) {
+  if (payer.paidBy === "house") {
+    return { paidBy: payer.paidBy, paidByUserId: null, paidByName: null };
+  }
+
+  if (payer.paidBy === "outside") {
+    return { paidBy: payer.paidBy, paidByUserId: null, paidByName: payer.paidByName!.trim() };
+  }
+
+  const member = await db.user.findFirst({
+    where: {
+      id: payer.paidByUserId,
+      OR: [
+        { gameSessions: { some: { id: gameSessionId } } },
+        { sharedGames: { some: { gameSessionId } } },
+      ],
+    },
+  });
+  return member ? { paidBy: payer.paidBy, paidByUserId: member.id, paidByName: member.name || member.email } : null;
+}
+
+/**
+ * The paid-out fields for a new payer: the house pays at once, anyone else is owed until reimbursed
+ */
+function paidOutFields(paidBy: string, paymentMethod: string, userId: string, initials: string) {
+  return paidBy === "house"
+    ? { paidOut: true, paidOutAt: new Date(), paidOutMethod: paymentMethod, paidOutById: userId, paidOutByInitials: initials }
+    : { paidOut: false, paidOutAt: null, paidOutMethod: null, paidOutById: null, paidOutByInitials: null };
+}
+
+/**
+ * A host's active category, for filing an expense under
+ */
+async function findActiveCategory(hostId: string, categoryId: string) {
+  return db.expenseCategory.findFirst({ where: { id: categoryId, userId: hostId, active: true } });
+}
+
+/**
+ * Another of the host's categories already using a name (ignoring case)
+ */
+async function findCategoryByName(hostId: string, name: string, excludeId?: string) {
+  return db.expenseCategory.findFirst({
+    where: {
+      userId: hostId,
+      name: { equals: name.trim(), mode: "insensitive" },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+  });
+}
+
 // ============================================
 // POST /api/expenses - Add expense
 // ============================================
 expensesRouter.post("/", zValidator("json", addExpenseRequestSchema), async (c) => {
   const user = c.get("user")!;
   const data = c.req.valid("json");
-  console.log(`💸 [Expenses] Adding expense: ${data.description} - $${data.amount} (${data.paymentMethod}) (user: ${user.email})`);
+  console.log(`💸 [Expenses] Adding expense: ${data.description} - ${data.amount} (${data.paymentMethod}, paid by ${data.paidBy}) (user: ${user.email})`);
 
   // Verify user has access (owner or member)
   const gameSession = await db.gameSession.findFirst({
@@ -39,40 +140,211 @@ expensesRouter.post("/", zValidator("json", addExpenseRequestSchema), async (c)
     return c.json({ error: "Game session not found" }, 404);
   }
 
+  // Categories belong to the host, whoever records the expense
+  if (!(await findActiveCategory(gameSession.userId, data.categoryId))) {
+    return c.json({ error: "Expense category not found" }, 404);
+  }
+
+  const payer = await resolvePayer(gameSession.id, data);
+  if (!payer) {
+    return c.json({ error: "That member isn't in this game" }, 404);
+  }
+
   // Get user initials
-  const initials = user.initials || (user.name ? user.name.split(" ").map((n: string) => n[0]).join("").toUpperCase().slice(0, 2) : user.email.slice(0, 2).toUpperCase());
+  const initials = userInitials(user);
 
   const expense = await db.expense.create({
     data: {
       description: data.description,
-      amount: data.amount,
-      category: data.category,
+      amount: toMinorUnits(data.amount, gameSession.currency),
+      categoryId: data.categoryId,
       paymentMethod: data.paymentMethod,
+      ...payer,
+      ...paidOutFields(payer.paidBy, data.paymentMethod, user.id, initials),
       notes: data.notes ?? null,
       gameSessionId: data.gameSessionId,
       createdById: user.id,
       createdByInitials: initials,
     },
+    include: expenseInclude,
   });
 
   console.log(`💸 [Expenses] Expense created: ${expense.id} by ${initials}`);
 
   return c.json({
-    expense: {
-      id: expense.id,
-      description: expense.description,
-      amount: expense.amount,
-      category: expense.category as "food" | "drinks" | "other",
-      paymentMethod: expense.paymentMethod as "cash" | "electronic",
-      paidOut: expense.paidOut,
-      notes: expense.notes,
-      timestamp: expense.timestamp.toISOString(),
-      gameSessionId: expense.gameSessionId,
-      createdByInitials: expense.createdByInitials,
-    },
+    expense: formatExpense(expense, gameSession.currency),
   } satisfies AddExpenseResponse);
 });
 
+// ============================================
+// GET /api/expenses/categories - Get the host's expense categories
+// ============================================
+expensesRouter.get("/categories", async (c) => {
+  const user = c.get("user")!;
+  console.log(`💸 [Expenses] Getting expense categories (user: ${user.email})`);
+
+  const categories = await hostExpenseCategories(user.id);
+
+  return c.json({ categories: categories.map(formatExpenseCategory) } satisfies GetExpenseCategoriesResponse);
+});
+
+// ============================================
+// POST /api/expenses/categories - Create an expense category
+// ============================================
+expensesRouter.post("/categories", zValidator("json", createExpenseCategoryRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`💸 [Expenses] Creating expense category: ${data.name} (user: ${user.email})`);
+
+  if (await findCategoryByName(user.id, data.name)) {
+    return c.json({ error: `There is already a ${data.name.trim()} category` }, 400);
+  }
+
+  const category = await db.expenseCategory.create({
+    data: {
+      name: data.name.trim(),
+      icon: data.icon ?? null,
+      color: data.color ?? null,
+      monthlyBudget: data.budget ? toMinorUnits(data.budget.monthlyAmount, data.budget.currency) : null,
+      budgetCurrency: data.budget?.currency ?? null,
+      userId: user.id,
+    },
+  });
+
+  console.log(`💸 [Expenses] Expense category created: ${category.id}`);
+
+  return c.json({ category: formatExpenseCategory(category) } satisfies CreateExpenseCategoryResponse);
+});
+
+// ============================================
+// PUT /api/expenses/categories/:id - Update an expense category, its budget or whether it's active
+// ============================================
+expensesRouter.put("/categories/:id", zValidator("json", updateExpenseCategoryRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const data = c.req.valid("json");
+  console.log(`💸 [Expenses] Updating expense category: ${id} (user: ${user.email})`);
+
+  const existing = await db.expenseCategory.findFirst({ where: { id, userId: user.id } });
+  if (!existing) {
+    return c.json({ error: "Expense category not found" }, 404);
+  }
+
+  if (data.name !== undefined && (await findCategoryByName(user.id, data.name, id))) {
+    return c.json({ error: `There is already a ${data.name.trim()} category` }, 400);
+  }
+
+  const category = await db.expenseCategory.update({
+    where: { id },
+    data: {
+      ...(data.name !== undefined && { name: data.name.trim() }),
+      ...(data.icon !== undefined && { icon: data.icon }),
+      ...(data.color !== undefined && { color: data.color }),
+      ...(data.budget !== undefined && {
+        monthlyBudget: data.budget ? toMinorUnits(data.budget.monthlyAmount, data.budget.currency) : null,
+        budgetCurrency: data.budget?.currency ?? null,
+      }),
+      ...(data.active !== undefined && { active: data.active }),
+    },
+  });
+
+  console.log(`💸 [Expenses] Expense category updated: ${category.id}`);
+
+  return c.json({ category: formatExpenseCategory(category) } satisfies UpdateExpenseCategoryResponse);
+});
+
+// ============================================
+// DELETE /api/expenses/categories/:id - Delete an expense category with no expenses
+// ============================================
+expensesRouter.delete("/categories/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`💸 [Expenses] Deleting expense category: ${id} (user: ${user.email})`);
+
+  const category = await db.expenseCategory.findFirst({
+    where: { id, userId: user.id },
+    include: { _count: { select: { expenses: true } } },
+  });
+
+  if (!category) {
+    return c.json({ error: "Expense category not found" }, 404);
+  }
+
+  // Past games' expenses keep their category - deactivate it instead
+  if (category._count.expenses > 0) {
+    return c.json({ error: "This category has expenses - deactivate it instead" }, 400);
+  }
+
+  // The database refuses too, should an expense be filed under it since the count above
+  try {
+    await db.expenseCategory.delete({ where: { id } });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2003") {
+      return c.json({ error: "This category has expenses - deactivate it instead" }, 400);
+    }
+    throw error;
+  }
+
+  console.log(`💸 [Expenses] Expense category deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteExpenseCategoryResponse);
+});
+
+// ============================================
+// GET /api/expenses/budget-report - Spend vs budget across the host's games, month by month
+// ============================================
+expensesRouter.get("/budget-report", zValidator("query", getBudgetReportQuerySchema), async (c) => {
+  const user = c.get("user")!;
+  const { from, to } = c.req.valid("query");
+  console.log(`💸 [Expenses] Getting budget report from ${from} to ${to} (user: ${user.email})`);
+
+  if (to < from) {
+    return c.json({ error: "The end month must be on or after the start month" }, 400);
+  }
+
+  const months = monthsBetween(from, to);
+  if (months.length > MAX_REPORT_MONTHS) {
+    return c.json({ error: `The report covers at most ${MAX_REPORT_MONTHS} months` }, 400);
+  }
+
+  const start = new Date(`${from}-01T00:00:00.000Z`);
+  const end = new Date(start);
+  end.setUTCMonth(end.getUTCMonth() + months.length);
+
+  // Games belong to the month they started, even when they run past midnight
+  const [categories, sessions] = await Promise.all([
+    hostExpenseCategories(user.id),
+    db.gameSession.findMany({
+      where: { userId: user.id, startedAt: { gte: start, lt: end } },
+      select: { currency: true, startedAt: true, expenses: { select: { categoryId: true, amount: true } } },
+    }),
+  ]);
+
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const lines = budgetReport(categories, sessions, months);
+
+  console.log(`💸 [Expenses] Budget report covers ${sessions.length} games and ${lines.length} lines`);
+
+  return c.json({
+    from,
+    to,
+    games: sessions.length,
+    lines: lines.map((l) => {
+      const category = byId.get(l.categoryId)!;
+      const major = (minor: number | null) => (minor === null ? null : fromMinorUnits(minor, l.currency));
+      return {
+        ...l,
+        categoryName: category.name,
+        icon: category.icon,
+        color: category.color,
+        spent: fromMinorUnits(l.spent, l.currency),
+        budget: major(l.budget),
+        remaining: major(l.remaining),
+      };
+    }),
+  } satisfies GetBudgetReportResponse);
+});
+
 // ============================================
 // GET /api/expenses/:sessionId - Get all expenses
 // ============================================
@@ -98,24 +370,14 @@ expensesRouter.get("/:sessionId", async (c) => {
 
   const expenses = await db.expense.findMany({
     where: { gameSessionId: sessionId },
+    include: expenseInclude,
     orderBy: { timestamp: "desc" },
   });
 
   console.log(`💸 [Expenses] Found ${expenses.length} expenses`);
 
   return c.json({
-    expenses: expenses.map((e) => ({
-      id: e.id,
-      description: e.description,
-      amount: e.amount,
-      category: e.category as "food" | "drinks" | "other",
-      paymentMethod: e.paymentMethod as "cash" | "electronic",
-      paidOut: e.paidOut,
-      notes: e.notes,
-      timestamp: e.timestamp.toISOString(),
-      gameSessionId: e.gameSessionId,
-      createdByInitials: e.createdByInitials,
-    })),
+    expenses: expenses.map((e) => formatExpense(e, gameSession.currency)),
   } satisfies GetExpensesResponse);
 });
 
@@ -140,6 +402,7 @@ expensesRouter.delete("/:id", async (c) => {
   await db.expense.delete({
     where: { id },
   });
+  await deleteReceiptFiles(expense);
 
   console.log(`💸 [Expenses] Expense deleted: ${id}`);
 
@@ -165,32 +428,240 @@ expensesRouter.put("/:id", zValidator("json", updateExpenseRequestSchema), async
     return c.json({ error: "Expense not found" }, 404);
   }
 
+  // An expense can stay in a category that has since been retired, but not move into one
+  if (data.categoryId !== existingExpense.categoryId && !(await findActiveCategory(user.id, data.categoryId))) {
+    return c.json({ error: "Expense category not found" }, 404);
+  }
+
+  const payer = data.paidBy ? await resolvePayer(existingExpense.gameSessionId, { ...data, paidBy: data.paidBy }) : undefined;
+  if (payer === null) {
+    return c.json({ error: "That member isn't in this game" }, 404);
+  }
+
+  const payerChanged = !!payer && (
+    payer.paidBy !== existingExpense.paidBy ||
+    payer.paidByUserId !== existingExpense.paidByUserId ||
+    payer.paidByName !== existingExpense.paidByName
+  );
+  if (payerChanged && existingExpense.paidBy !== "house" && existingExpense.paidOut) {
+    return c.json({ error: "This expense has been reimbursed - reverse the reimbursement first" }, 400);
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  // When the house paid, it paid the way the expense says
+  const paidBy = payer?.paidBy ?? existingExpense.paidBy;
+  const paidOut = payerChanged
+    ? paidOutFields(paidBy, data.paymentMethod, user.id, initials)
+    : paidBy === "house" ? { paidOutMethod: data.paymentMethod } : {};
+
   const expense = await db.expense.update({
     where: { id },
     data: {
       description: data.description,
-      amount: data.amount,
-      category: data.category,
+      amount: toMinorUnits(data.amount, existingExpense.gameSession.currency),
+      categoryId: data.categoryId,
       paymentMethod: data.paymentMethod,
+      ...(payerChanged && payer),
+      ...paidOut,
       notes: data.notes ?? null,
     },
+    include: expenseInclude,
   });
 
   console.log(`💸 [Expenses] Expense updated: ${expense.id}`);
 
   return c.json({
-    expense: {
-      id: expense.id,
-      description: expense.description,
-      amount: expense.amount,
-      category: expense.category as "food" | "drinks" | "other",
-      paymentMethod: expense.paymentMethod as "cash" | "electronic",
-      paidOut: expense.paidOut,
-      notes: expense.notes,
-      timestamp: expense.timestamp.toISOString(),
-      gameSessionId: expense.gameSessionId,
-    },
+    expense: formatExpense(expense, existingExpense.gameSession.currency),
   } satisfies UpdateExpenseResponse);
 });
 
+// ============================================
+// PUT /api/expenses/:id/reimburse - Pay back whoever fronted the money
+// ============================================
+expensesRouter.put("/:id/reimburse", zValidator("json", reimburseExpenseRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const { method } = c.req.valid("json");
+  console.log(`💸 [Expenses] Reimbursing expense: ${id} (${method}) (user: ${user.email})`);
+
+  // Verify the expense belongs to a session owned by this user
+  const existingExpense = await db.expense.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!existingExpense || existingExpense.gameSession.userId !== user.id) {
+    return c.json({ error: "Expense not found" }, 404);
+  }
+
+  if (existingExpense.paidBy === "house") {
+    return c.json({ error: "The house paid for this expense - there is no one to reimburse" }, 400);
+  }
+
+  if (existingExpense.paidOut) {
+    return c.json({ error: "This expense has already been reimbursed" }, 400);
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const expense = await db.expense.update({
+    where: { id },
+    data: {
+      paidOut: true,
+      paidOutAt: new Date(),
+      paidOutMethod: method,
+      paidOutById: user.id,
+      paidOutByInitials: initials,
+    },
+    include: expenseInclude,
+  });
+
+  console.log(`💸 [Expenses] Expense reimbursed to ${expense.paidByName}: ${id} by ${initials}`);
+
+  return c.json({
+    expense: formatExpense(expense, existingExpense.gameSession.currency),
+  } satisfies ReimburseExpenseResponse);
+});
+
+// ============================================
+// PUT /api/expenses/:id/unreimburse - Reverse a reimbursement
+// ============================================
+expensesRouter.put("/:id/unreimburse", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`💸 [Expenses] Reversing reimbursement for expense: ${id} (user: ${user.email})`);
+
+  // Verify the expense belongs to a session owned by this user
+  const existingExpense = await db.expense.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!existingExpense || existingExpense.gameSession.userId !== user.id) {
+    return c.json({ error: "Expense not found" }, 404);
+  }
+
+  if (existingExpense.paidBy === "house" || !existingExpense.paidOut) {
+    return c.json({ error: "This expense hasn't been reimbursed" }, 400);
+  }
+
+  const expense = await db.expense.update({
+    where: { id },
+    data: { paidOut: false, paidOutAt: null, paidOutMethod: null, paidOutById: null, paidOutByInitials: null },
+    include: expenseInclude,
+  });
+
+  console.log(`💸 [Expenses] Reimbursement reversed: ${id}`);
+
+  return c.json({
+    expense: formatExpense(expense, existingExpense.gameSession.currency),
+  } satisfies ReimburseExpenseResponse);
+});
+
+// ============================================
+// POST /api/expenses/:id/receipt - Upload (or replace) a receipt photo
+// ============================================
+expensesRouter.post("/:id/receipt", zValidator("form", z.object({ receipt: z.instanceof(File) })), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const { receipt: file } = c.req.valid("form");
+  console.log(`🧾 [Expenses] Uploading receipt for expense: ${id} (${file.size} bytes) (user: ${user.email})`);
+
+  // Whoever can see the game can attach the receipt - members record expenses too
+  const existingExpense = await findVisibleExpense(id, user.id);
+  if (!existingExpense) {
+    return c.json({ error: "Expense not found" }, 404);
+  }
+
+  const saved = await saveReceipt(id, file);
+  if (!saved.receipt) {
+    return c.json({ error: saved.error }, saved.status);
+  }
+
+  const expense = await db.expense.update({
+    where: { id },
+    data: saved.receipt,
+    include: expenseInclude,
+  });
+
+  // The old photo is only removed once the new one is in place
+  await deleteReceiptFiles(existingExpense);
+
+  console.log(`🧾 [Expenses] Receipt uploaded for expense: ${id}`);
+
+  return c.json({
+    expense: formatExpense(expense, existingExpense.gameSession.currency),
+  } satisfies UploadExpenseReceiptResponse);
+});
+
+// ============================================
+// GET /api/expenses/:id/receipt - Download a receipt photo or its thumbnail
+// ============================================
+expensesRouter.get("/:id/receipt", zValidator("query", getExpenseReceiptQuerySchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const { size } = c.req.valid("query");
+  console.log(`🧾 [Expenses] Downloading ${size} receipt for expense: ${id} (user: ${user.email})`);
+
+  const expense = await findVisibleExpense(id, user.id);
+  if (!expense) {
+    return c.json({ error: "Expense not found" }, 404);
+  }
+
+  const receipt = await readReceipt(expense, size === "thumbnail");
+  if (!receipt) {
+    return c.json({ error: "This expense has no receipt" }, 404);
+  }
+
+  return c.body(receipt.body, 200, {
+    "Content-Type": receipt.contentType,
+    "Cache-Control": "private, max-age=3600",
+  });
+});
+
+// ============================================
+// DELETE /api/expenses/:id/receipt - Remove a receipt photo
+// ============================================
+expensesRouter.delete("/:id/receipt", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🧾 [Expenses] Deleting receipt for expense: ${id} (user: ${user.email})`);
+
+  // Verify the expense belongs to a session owned by this user
+  const existingExpense = await db.expense.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!existingExpense || existingExpense.gameSession.userId !== user.id) {
+    return c.json({ error: "Expense not found" }, 404);
+  }
+
+  if (!existingExpense.receiptFile) {
+    return c.json({ error: "This expense has no receipt" }, 404);
+  }
+
+  const expense = await db.expense.update({
+    where: { id },
+    data: {
+      receiptFile: null,
+      receiptThumbnail: null,
+      receiptContentType: null,
+      receiptSize: null,
+      receiptUploadedAt: null,
+    },
+    include: expenseInclude,
+  });
+  await deleteReceiptFiles(existingExpense);
+
+  console.log(`🧾 [Expenses] Receipt deleted for expense: ${id}`);
+
+  return c.json({
+    expense: formatExpense(expense, existingExpense.gameSession.currency),
+  } satisfies DeleteExpenseReceiptResponse);
+});
+
 export { expensesRouter };
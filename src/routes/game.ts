@@ -13,6 +13,21 @@ import {
 import { type AppType } from "../types";
 import { db } from "../db";
 import { requireAuth } from "../middleware/requireAuth";
+import {
+  formatCashMovement,
+  formatDealerDown,
+  formatExpense,
+  formatGameSession,
+  formatPlayerTransaction,
+  transactionInclude,
+} from "../lib/serializers";
+import { calculateSessionLedger, calculateSessionTotals, ledgerInclude } from "../lib/ledger";
+import { toMinorUnits } from "../lib/money";
+import { rollSessionCreditForward } from "../lib/receivables";
+import { closeOpenTables } from "../lib/tables";
+import { closeDealerBoxes } from "../lib/rotation";
+import { closeOpenSeats } from "../lib/timeCharges";
+import { deleteReceiptFiles } from "../lib/receipts";
 
 const gameRouter = new Hono<AppType>();
 
@@ -59,6 +74,7 @@ gameRouter.get("/active", async (c) => {
           tableName: "Main Table",
           isActive: true,
           userId: user.id,
+          tables: { create: { name: "Main Table" } },
         },
       });
       console.log(`🎮 [Game] Created new session: ${session.id} with owner userId: ${session.userId}`);
@@ -67,13 +83,7 @@ gameRouter.get("/active", async (c) => {
     }
 
     return c.json({
-      session: {
-        ...session,
-        startedAt: session.startedAt.toISOString(),
-        endedAt: session.endedAt?.toISOString() ?? null,
-        createdAt: session.createdAt.toISOString(),
-        updatedAt: session.updatedAt.toISOString(),
-      },
+      session: formatGameSession(session),
       userCompletedGames: currentUser?.completedGames ?? 0,
     } satisfies GetActiveGameResponse);
   } catch (error: any) {
@@ -93,52 +103,29 @@ gameRouter.get("/history", async (c) => {
     where: { isActive: false, userId: user.id },
     orderBy: { endedAt: "desc" },
     include: {
-      playerTransactions: true,
+      playerTransactions: { include: transactionInclude },
       dealerDowns: true,
-      expenses: true,
+      dealerPayouts: true,
+      expenses: { include: { category: { select: { name: true } } } },
+      creditEntries: true,
+      cashMovements: { orderBy: { timestamp: "asc" } },
+      timeCollections: true,
+      tournament: { include: { entries: true } },
+      jackpotEntries: true,
+      concessionSales: true,
     },
   });
 
   console.log(`🎮 [Game] Found ${sessions.length} inactive sessions`);
 
   return c.json({
-    sessions: sessions.map((session) => ({
-      id: session.id,
-      name: session.name,
-      tableName: session.tableName,
-      startedAt: session.startedAt.toISOString(),
-      endedAt: session.endedAt?.toISOString() ?? null,
-      isActive: session.isActive,
-      createdAt: session.createdAt.toISOString(),
-      updatedAt: session.updatedAt.toISOString(),
-      playerTransactions: session.playerTransactions.map((t) => ({
-        id: t.id,
-        playerName: t.playerName,
-        type: t.type as "buy-in" | "cashout",
-        amount: t.amount,
-        paymentMethod: t.paymentMethod as "cash" | "electronic" | "credit",
-        notes: t.notes,
-        timestamp: t.timestamp.toISOString(),
-        gameSessionId: t.gameSessionId,
-      })),
-      dealerDowns: session.dealerDowns.map((d) => ({
-        id: d.id,
-        dealerName: d.dealerName,
-        tips: d.tips,
-        rake: d.rake,
-        tipsPaid: d.tipsPaid,
-        timestamp: d.timestamp.toISOString(),
-        gameSessionId: d.gameSessionId,
-      })),
-      expenses: session.expenses.map((e) => ({
-        id: e.id,
-        description: e.description,
-        amount: e.amount,
-        category: e.category as "food" | "drinks" | "other",
-        notes: e.notes,
-        timestamp: e.timestamp.toISOString(),
-        gameSessionId: e.gameSessionId,
-      })),
+    sessions: sessions.map(({ playerTransactions, dealerDowns, expenses, cashMovements, ...session }) => ({
+      ...formatGameSession(session),
+      playerTransactions: playerTransactions.map((t) => formatPlayerTransaction(t, session.currency)),
+      dealerDowns: dealerDowns.map((d) => formatDealerDown(d, session.currency)),
+      expenses: expenses.map((e) => formatExpense(e, session.currency)),
+      cashMovements: cashMovements.map((m) => formatCashMovement(m, session.currency)),
+      totals: calculateSessionTotals({ ...session, playerTransactions, dealerDowns, expenses, cashMovements }),
     })),
   } satisfies GetGameHistoryResponse);
 });
@@ -176,17 +163,18 @@ gameRouter.post("/end", zValidator("json", endGameRequestSchema), async (c) => {
     },
   });
 
+  await closeDealerBoxes(session.id, session.endedAt!);
+  await closeOpenSeats(session.id, session.endedAt!);
+  await closeOpenTables(session.id, session.endedAt!);
+
+  // Carry unpaid credit forward so it stays collectable after the game
+  await rollSessionCreditForward(session.id);
+
   console.log(`🎮 [Game] Session ended: ${session.id}`);
 
   return c.json({
     success: true,
-    session: {
-      ...session,
-      startedAt: session.startedAt.toISOString(),
-      endedAt: session.endedAt?.toISOString() ?? null,
-      createdAt: session.createdAt.toISOString(),
-      updatedAt: session.updatedAt.toISOString(),
-    },
+    session: formatGameSession(session),
   } satisfies EndGameResponse);
 });
 
@@ -201,15 +189,22 @@ gameRouter.delete("/:sessionId", async (c) => {
   // Verify the session belongs to this user
   const existingSession = await db.gameSession.findFirst({
     where: { id: sessionId, userId: user.id },
+    include: { expenses: { where: { receiptFile: { not: null } } } },
   });
 
   if (!existingSession) {
     return c.json({ error: "Game session not found" }, 404);
   }
 
-  await db.gameSession.delete({
-    where: { id: sessionId },
-  });
+  // The game's own markers go with it; repayments taken in it against other
+  // games' credit stay on the players' balances
+  await db.$transaction([
+    db.creditEntry.deleteMany({ where: { gameSessionId: sessionId, type: "marker" } }),
+    db.gameSession.delete({ where: { id: sessionId } }),
+  ]);
+
+  // The expenses go with the session - their receipt photos have to be removed by hand
+  await Promise.all(existingSession.expenses.map(deleteReceiptFiles));
 
   console.log(`🎮 [Game] Session deleted: ${sessionId}`);
 
@@ -221,17 +216,28 @@ gameRouter.delete("/:sessionId", async (c) => {
 // ============================================
 gameRouter.post("/new", zValidator("json", startNewGameRequestSchema), async (c) => {
   const user = c.get("user")!;
-  const { currency, language } = c.req.valid("json");
-  console.log(`🎮 [Game] Creating new game session for user: ${user.email} with currency: ${currency}, language: ${language}`);
+  const { currency, language, revenueMode, timeFee, timeFeeMinutes, sessionType } = c.req.valid("json");
+  console.log(`🎮 [Game] Creating new ${sessionType} (${revenueMode}) game session for user: ${user.email} with currency: ${currency}, language: ${language}`);
 
-  // First, end any active sessions for this user
-  await db.gameSession.updateMany({
+  // First, end any active sessions for this user and carry their unpaid credit forward
+  const activeSessions = await db.gameSession.findMany({
     where: { isActive: true, userId: user.id },
+    select: { id: true },
+  });
+  const endedAt = new Date();
+  await db.gameSession.updateMany({
+    where: { id: { in: activeSessions.map((s) => s.id) } },
     data: {
       isActive: false,
-      endedAt: new Date(),
+      endedAt,
     },
   });
+  for (const active of activeSessions) {
+    await closeDealerBoxes(active.id, endedAt);
+    await closeOpenSeats(active.id, endedAt);
+    await closeOpenTables(active.id, endedAt);
+    await rollSessionCreditForward(active.id);
+  }
 
   // Create new session
   const session = await db.gameSession.create({
@@ -242,19 +248,18 @@ gameRouter.post("/new", zValidator("json", startNewGameRequestSchema), async (c)
       userId: user.id,
       currency: currency || "USD",
       language: language || "en",
+      revenueMode,
+      timeFee: toMinorUnits(timeFee, currency || "USD"),
+      timeFeeMinutes,
+      sessionType,
+      tables: { create: { name: "Main Table" } },
     },
   });
 
   console.log(`🎮 [Game] New session created: ${session.id} with currency ${session.currency} and language ${session.language}`);
 
   return c.json({
-    session: {
-      ...session,
-      startedAt: session.startedAt.toISOString(),
-      endedAt: session.endedAt?.toISOString() ?? null,
-      createdAt: session.createdAt.toISOString(),
-      updatedAt: session.updatedAt.toISOString(),
-    },
+    session: formatGameSession(session),
   } satisfies StartNewGameResponse);
 });
 
@@ -278,11 +283,7 @@ gameRouter.get("/:sessionId/summary", async (c) => {
         { members: { some: { userId: user.id } } },
       ],
     },
-    include: {
-      playerTransactions: true,
-      dealerDowns: true,
-      expenses: true,
-    },
+    include: ledgerInclude,
   });
 
   if (!session) {
@@ -290,164 +291,15 @@ gameRouter.get("/:sessionId/summary", async (c) => {
     return c.json({ error: "Session not found" }, 404);
   }
 
-  // Calculate totals
-  const totalBuyIns = session.playerTransactions
-    .filter((t) => t.type === "buy-in")
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const totalCashouts = session.playerTransactions
-    .filter((t) => t.type === "cashout")
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const totalTips = session.dealerDowns.reduce((sum, d) => sum + d.tips, 0);
-
-  // Use totalRake from session (logged via dropbox count), fallback to dealer downs sum
-  const totalRake = session.totalRake > 0 ? session.totalRake : session.dealerDowns.reduce((sum, d) => sum + d.rake, 0);
-
-  const totalExpenses = session.expenses.reduce((sum, e) => sum + e.amount, 0);
-
-  // Only count paid tips for calculations
-  const totalPaidTips = session.dealerDowns
-    .filter((d) => d.tipsPaid)
-    .reduce((sum, d) => sum + d.tips, 0);
-
-  // Only count claimed rake for calculations
-  const totalClaimedRake = session.dealerDowns
-    .filter((d) => d.rakeClaimed)
-    .reduce((sum, d) => sum + d.rake, 0);
-
-  console.log(`🎮 [Game] Summary calculation - Dealer downs:`, session.dealerDowns.map(d => ({
-    id: d.id,
-    dealer: d.dealerName,
-    tips: d.tips,
-    rake: d.rake,
-    tipsPaid: d.tipsPaid,
-    rakeClaimed: d.rakeClaimed,
-  })));
-  console.log(`🎮 [Game] totalPaidTips: $${totalPaidTips}, totalClaimedRake: $${totalClaimedRake}`);
-
-  // House profit = Claimed Rake - Expenses
-  // Only claimed rake counts as realized profit
-  const netProfit = totalClaimedRake - totalExpenses;
-
-  // Till balance = Physical cash in the till
-  // Cash buy-ins add money (money IN)
-  // Cash cashouts remove money (paying players OUT)
-  // Paid tips remove money (paying dealers OUT - tips collected from pots go into till, then paid out)
-  // Claimed rake removes money (rake collected from pots goes into till, then taken as house profit)
-  // Expenses remove money (paying for costs OUT)
-  // PAID credit buy-ins add money ONLY if manually paid (player paid their debt in cash, money IN)
-  // Auto-settled credit does NOT add to till (just wipes the debt, no cash changes hands)
-  // Unpaid credit transactions don't affect till (no physical cash movement)
-  const cashBuyIns = session.playerTransactions
-    .filter((t) => t.type === "buy-in" && t.paymentMethod === "cash")
-    .reduce((sum, t) => sum + t.amount, 0);
-  const cashCashouts = session.playerTransactions
-    .filter((t) => t.type === "cashout" && t.paymentMethod === "cash")
-    .reduce((sum, t) => {
-      // Check if this is an auto-settled cashout - use actual payout amount
-      // Supports formats:
-      // - Old: "cash paid: $X)"
-      // - New: "received $X cash"
-      if (t.notes) {
-        // Try new format first
-        const newMatch = t.notes.match(/received \$(\d+(?:\.\d{2})?) cash/);
-        if (newMatch) {
-          return sum + parseFloat(newMatch[1]);
-        }
-        // Try old format
-        const oldMatch = t.notes.match(/cash paid: \$(\d+(?:\.\d{2})?)\)/);
-        if (oldMatch) {
-          return sum + parseFloat(oldMatch[1]);
-        }
-      }
-      return sum + t.amount;
-    }, 0);
-
-  // Calculate auto-settled credit from cashout notes
-  // These should NOT be added to the till
-  // Supports formats: "credit settled: $X", "paid $X toward credit", "paid $X credit"
-  const autoSettledCredit = session.playerTransactions
-    .filter((t) => t.type === "cashout" && (t.notes?.includes("credit settled:") || t.notes?.includes("paid $")))
-    .reduce((sum, t) => {
-      // Try old format: "credit settled: $400.00"
-      const oldMatch = t.notes?.match(/credit settled: \$(\d+(?:\.\d{2})?)/);
-      if (oldMatch) {
-        return sum + parseFloat(oldMatch[1]);
-      }
-      // Try new simple format: "paid $400.00 credit"
-      const newMatch = t.notes?.match(/paid \$(\d+(?:\.\d{2})?) credit/);
-      return sum + (newMatch ? parseFloat(newMatch[1]) : 0);
-    }, 0);
-
-  // PAID credit buy-ins = player paid their credit debt
-  // But we need to subtract auto-settled credit since that doesn't add actual cash
-  const paidCreditBuyIns = session.playerTransactions
-    .filter((t) => t.type === "buy-in" && t.paymentMethod === "credit" && t.isPaid === true)
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  // Only manually paid credit adds to till (not auto-settled)
-  const manuallyPaidCredit = Math.max(0, paidCreditBuyIns - autoSettledCredit);
-
-  // Till balance: what's physically left in the cash box
-  // Tips and rake collected from pots go INTO the till, then OUT when paid/claimed
-  const tillBalance = cashBuyIns + manuallyPaidCredit - cashCashouts - totalPaidTips - totalClaimedRake - totalExpenses;
-
-  // Calculate total credit balance
-  // Credit balance = unpaid credit buy-ins minus any cash that was taken out when they cashed out
-  // When a player buys in $500 on credit and cashes out $300, they still owe $200
-  // The $200 is the net of their credit transactions: $500 buy-in - $300 cashout = $200
-  // We need to calculate per-player credit balances and sum them up
-  const playerCreditMap = new Map<string, { buyIns: number; cashouts: number }>();
-
-  session.playerTransactions.forEach((t) => {
-    // Only track credit transactions that are unpaid
-    if (t.paymentMethod === "credit") {
-      const existing = playerCreditMap.get(t.playerName) || { buyIns: 0, cashouts: 0 };
-      if (t.type === "buy-in" && !t.isPaid) {
-        existing.buyIns += t.amount;
-      } else if (t.type === "cashout") {
-        // Cashouts reduce what they owe (they're returning chips)
-        existing.cashouts += t.amount;
-      }
-      playerCreditMap.set(t.playerName, existing);
-    }
-  });
-
-  // Sum up the net credit owed by each player (buy-ins - cashouts, but never negative)
-  let creditBalance = 0;
-  playerCreditMap.forEach(({ buyIns, cashouts }) => {
-    const netOwed = Math.max(0, buyIns - cashouts);
-    creditBalance += netOwed;
-  });
+  const ledger = calculateSessionLedger(session);
 
-  // Count unique players
-  const uniquePlayers = new Set(session.playerTransactions.map((t) => t.playerName));
-  const playerCount = uniquePlayers.size;
-
-  console.log(`🎮 [Game] Summary calculated - Net profit: $${netProfit.toFixed(2)}, Till balance: $${tillBalance.toFixed(2)} (cash: $${cashBuyIns}, manually paid credit: $${manuallyPaidCredit}, auto-settled: $${autoSettledCredit}, cashouts: $${cashCashouts}), Credit balance: $${creditBalance.toFixed(2)}`);
+  console.log(`🎮 [Game] Summary calculated - Net profit: $${ledger.netProfit.toFixed(2)}, Till balance: $${ledger.tillBalance.toFixed(2)}, Credit balance: $${ledger.creditBalance.toFixed(2)}`);
 
   // Return clean session object without nested relations to match contract
+  const { playerTransactions, dealerDowns, expenses, ...sessionRow } = session;
   return c.json({
-    session: {
-      id: session.id,
-      name: session.name,
-      tableName: session.tableName,
-      startedAt: session.startedAt.toISOString(),
-      endedAt: session.endedAt?.toISOString() ?? null,
-      isActive: session.isActive,
-      createdAt: session.createdAt.toISOString(),
-      updatedAt: session.updatedAt.toISOString(),
-    },
-    totalBuyIns,
-    totalCashouts,
-    totalTips,
-    totalRake,
-    totalExpenses,
-    netProfit,
-    tillBalance,
-    playerCount,
-    creditBalance,
+    session: formatGameSession(sessionRow),
+    ...ledger,
   } satisfies GameSummary);
 });
 
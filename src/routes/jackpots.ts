@@ -0,0 +1,332 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  addJackpotDropRequestSchema,
+  createJackpotFundRequestSchema,
+  payJackpotRequestSchema,
+  updateJackpotFundRequestSchema,
+  type AddJackpotDropResponse,
+  type CreateJackpotFundResponse,
+  type DeleteJackpotEntryResponse,
+  type DeleteJackpotFundResponse,
+  type GetJackpotFundsResponse,
+  type GetSessionJackpotsResponse,
+  type PayJackpotResponse,
+  type UpdateJackpotFundResponse,
+} from "@/shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatJackpotEntry, formatJackpotFund } from "../lib/serializers";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import { fundBalance, fundMovement } from "../lib/jackpots";
+import { resolvePlayerId } from "../lib/playerRegistry";
+import { userInitials } from "../lib/userInitials";
+
+const jackpotsRouter = new Hono<AppType>();
+
+// Apply auth middleware to all jackpot routes
+jackpotsRouter.use("*", requireAuth);
+
+const fundInclude = { entries: { select: { type: true, amount: true } } } as const;
+
+/**
+ * A host's funds, each with its balance across all their games
+ */
+async function hostFunds(hostId: string) {
+  const funds = await db.jackpotFund.findMany({
+    where: { userId: hostId },
+    include: fundInclude,
+    orderBy: { createdAt: "asc" },
+  });
+  return funds.map((f) => formatJackpotFund(f, fundBalance(f, f.entries)));
+}
+
+// ============================================
+// GET /api/jackpots/funds - Get the host's jackpot funds with their balances
+// ============================================
+jackpotsRouter.get("/funds", async (c) => {
+  const user = c.get("user")!;
+  console.log(`🎰 [Jackpots] Getting jackpot funds (user: ${user.email})`);
+
+  return c.json({ funds: await hostFunds(user.id) } satisfies GetJackpotFundsResponse);
+});
+
+// ============================================
+// POST /api/jackpots/funds - Create a jackpot fund
+// ============================================
+jackpotsRouter.post("/funds", zValidator("json", createJackpotFundRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🎰 [Jackpots] Creating jackpot fund: ${data.name} (user: ${user.email})`);
+
+  const fund = await db.jackpotFund.create({
+    data: {
+      name: data.name.trim(),
+      currency: data.currency,
+      startingBalance: toMinorUnits(data.startingBalance, data.currency),
+      userId: user.id,
+    },
+  });
+
+  console.log(`🎰 [Jackpots] Jackpot fund created: ${fund.id}`);
+
+  return c.json({ fund: formatJackpotFund(fund, fund.startingBalance) } satisfies CreateJackpotFundResponse);
+});
+
+// ============================================
+// PUT /api/jackpots/funds/:id - Rename or (de)activate a jackpot fund
+// ============================================
+jackpotsRouter.put("/funds/:id", zValidator("json", updateJackpotFundRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const data = c.req.valid("json");
+  console.log(`🎰 [Jackpots] Updating jackpot fund: ${id} (user: ${user.email})`);
+
+  const existing = await db.jackpotFund.findFirst({ where: { id, userId: user.id } });
+  if (!existing) {
+    return c.json({ error: "Jackpot fund not found" }, 404);
+  }
+
+  const fund = await db.jackpotFund.update({
+    where: { id },
+    data: {
+      ...(data.name !== undefined && { name: data.name.trim() }),
+      ...(data.active !== undefined && { active: data.active }),
+    },
+    include: fundInclude,
+  });
+
+  console.log(`🎰 [Jackpots] Jackpot fund updated: ${fund.id}`);
+
+  return c.json({ fund: formatJackpotFund(fund, fundBalance(fund, fund.entries)) } satisfies UpdateJackpotFundResponse);
+});
+
+// ============================================
+// DELETE /api/jackpots/funds/:id - Delete a jackpot fund with no drops or payouts
+// ============================================
+jackpotsRouter.delete("/funds/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🎰 [Jackpots] Deleting jackpot fund: ${id} (user: ${user.email})`);
+
+  const fund = await db.jackpotFund.findFirst({
+    where: { id, userId: user.id },
+    include: { _count: { select: { entries: true } } },
+  });
+
+  if (!fund) {
+    return c.json({ error: "Jackpot fund not found" }, 404);
+  }
+
+  // Drops and payouts are part of past games' figures - keep the fund and deactivate it instead
+  if (fund._count.entries > 0) {
+    return c.json({ error: "This fund has drops or payouts - deactivate it instead" }, 400);
+  }
+
+  await db.jackpotFund.delete({ where: { id } });
+
+  console.log(`🎰 [Jackpots] Jackpot fund deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteJackpotFundResponse);
+});
+
+// ============================================
+// POST /api/jackpots/drops - Record a jackpot drop for a down or for the whole game
+// ============================================
+jackpotsRouter.post("/drops", zValidator("json", addJackpotDropRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🎰 [Jackpots] Adding jackpot drop of ${data.amount} to fund ${data.fundId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  // Funds belong to the host, whoever records the drop
+  const fund = await db.jackpotFund.findFirst({
+    where: { id: data.fundId, userId: gameSession.userId, active: true },
+  });
+  if (!fund) {
+    return c.json({ error: "Jackpot fund not found" }, 404);
+  }
+
+  if (fund.currency !== gameSession.currency) {
+    return c.json({ error: `The ${fund.name} fund is in ${fund.currency}, this game is in ${gameSession.currency}` }, 400);
+  }
+
+  if (data.dealerDownId) {
+    const down = await db.dealerDown.findFirst({
+      where: { id: data.dealerDownId, gameSessionId: data.gameSessionId },
+    });
+    if (!down) {
+      return c.json({ error: "Dealer down not found" }, 404);
+    }
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const entry = await db.jackpotEntry.create({
+    data: {
+      type: "drop",
+      amount: toMinorUnits(data.amount, gameSession.currency),
+      dealerDownId: data.dealerDownId ?? null,
+      notes: data.notes ?? null,
+      fundId: fund.id,
+      gameSessionId: data.gameSessionId,
+      createdById: user.id,
+      createdByInitials: initials,
+    },
+    include: { fund: true },
+  });
+
+  console.log(`🎰 [Jackpots] Jackpot drop added: ${entry.id} by ${initials}`);
+
+  return c.json({ entry: formatJackpotEntry(entry, gameSession.currency) } satisfies AddJackpotDropResponse);
+});
+
+// ============================================
+// POST /api/jackpots/payouts - Pay a jackpot to a player for a qualifying hand
+// ============================================
+jackpotsRouter.post("/payouts", zValidator("json", payJackpotRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🎰 [Jackpots] Paying ${data.amount} jackpot to ${data.playerName} from fund ${data.fundId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const fund = await db.jackpotFund.findFirst({
+    where: { id: data.fundId, userId: gameSession.userId, active: true },
+    include: fundInclude,
+  });
+  if (!fund) {
+    return c.json({ error: "Jackpot fund not found" }, 404);
+  }
+
+  if (fund.currency !== gameSession.currency) {
+    return c.json({ error: `The ${fund.name} fund is in ${fund.currency}, this game is in ${gameSession.currency}` }, 400);
+  }
+
+  // A fund can't pay out more than it holds
+  const amount = toMinorUnits(data.amount, gameSession.currency);
+  const balance = fundBalance(fund, fund.entries);
+  if (amount > balance) {
+    return c.json({ error: `The ${fund.name} fund only holds ${fromMinorUnits(balance, fund.currency)}` }, 400);
+  }
+
+  // Players belong to the host's registry, even when a member records the payout
+  const playerId = await resolvePlayerId(gameSession.userId, data.playerName, data.playerId);
+  if (!playerId) {
+    return c.json({ error: "Player not found" }, 404);
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const entry = await db.jackpotEntry.create({
+    data: {
+      type: "payout",
+      amount,
+      playerName: data.playerName.trim(),
+      playerId,
+      hand: data.hand,
+      method: data.method,
+      notes: data.notes ?? null,
+      fundId: fund.id,
+      gameSessionId: data.gameSessionId,
+      createdById: user.id,
+      createdByInitials: initials,
+    },
+    include: { fund: true },
+  });
+
+  console.log(`🎰 [Jackpots] Jackpot paid: ${entry.id} (${data.hand}) by ${initials}`);
+
+  return c.json({ entry: formatJackpotEntry(entry, gameSession.currency) } satisfies PayJackpotResponse);
+});
+
+// ============================================
+// DELETE /api/jackpots/entries/:id - Delete a drop or payout
+// ============================================
+jackpotsRouter.delete("/entries/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🎰 [Jackpots] Deleting jackpot entry: ${id} (user: ${user.email})`);
+
+  // Verify the entry belongs to a fund owned by this user - its game may be gone
+  const entry = await db.jackpotEntry.findUnique({
+    where: { id },
+    include: { fund: true },
+  });
+
+  if (!entry || entry.fund.userId !== user.id) {
+    return c.json({ error: "Jackpot entry not found" }, 404);
+  }
+
+  await db.jackpotEntry.delete({ where: { id } });
+
+  console.log(`🎰 [Jackpots] Jackpot entry deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteJackpotEntryResponse);
+});
+
+// ============================================
+// GET /api/jackpots/:sessionId - Get a game's drops and payouts, and the host's funds
+// ============================================
+jackpotsRouter.get("/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🎰 [Jackpots] Getting jackpots for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { jackpotEntries: { include: { fund: true }, orderBy: { timestamp: "desc" } } },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const { drops, payouts } = fundMovement(gameSession.jackpotEntries);
+
+  return c.json({
+    entries: gameSession.jackpotEntries.map((e) => formatJackpotEntry(e, gameSession.currency)),
+    funds: await hostFunds(gameSession.userId),
+    totalDrops: fromMinorUnits(drops, gameSession.currency),
+    totalPayouts: fromMinorUnits(payouts, gameSession.currency),
+  } satisfies GetSessionJackpotsResponse);
+});
+
+export { jackpotsRouter };
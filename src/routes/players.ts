@@ -3,19 +3,157 @@ import { zValidator } from "@hono/zod-validator";
 import {
   addPlayerTransactionRequestSchema,
   updatePlayerTransactionRequestSchema,
+  createPlayerRequestSchema,
+  updatePlayerRequestSchema,
+  suggestPlayersQuerySchema,
+  mergePlayersRequestSchema,
+  addRepaymentRequestSchema,
+  setPaymentPlanRequestSchema,
   type AddPlayerTransactionResponse,
   type GetPlayerTransactionsResponse,
   type UpdatePlayerTransactionResponse,
+  type GetPlayersResponse,
+  type GetPlayerResponse,
+  type CreatePlayerResponse,
+  type UpdatePlayerResponse,
+  type SuggestPlayersResponse,
+  type MergePlayersResponse,
+  type GetRepaymentsResponse,
+  type AddRepaymentResponse,
+  type DeleteRepaymentResponse,
+  type SetPaymentPlanResponse,
+  type DeletePaymentPlanResponse,
 } from "@/shared/contracts";
+import {
+  type GameSession,
+  type PlayerTransaction,
+  type Prisma,
+} from "../../generated/prisma";
 import { type AppType } from "../types";
 import { db } from "../db";
 import { requireAuth } from "../middleware/requireAuth";
+import {
+  formatCreditInstallment,
+  formatCreditRepayment,
+  formatPlayer,
+  formatPlayerTransaction,
+  transactionInclude,
+} from "../lib/serializers";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import { calculateRepaymentPlan, remainingBalance } from "../lib/repayments";
+import { repayableAmount } from "../lib/receivables";
+import { bankTotal, chipWarnings, chipsOffTable } from "../lib/chips";
+import { normalizePlayerName, suggestPlayers } from "../lib/playerMatching";
+import { resolvePlayerId } from "../lib/playerRegistry";
+import { resolveTableId } from "../lib/tables";
+import { saleAmount } from "../lib/concessions";
+import { needsNewSettlement, settlementAddsUp } from "../lib/cashouts";
+import { userInitials } from "../lib/userInitials";
 
 const playersRouter = new Hono<AppType>();
 
 // Apply auth middleware to all player routes
 playersRouter.use("*", requireAuth);
 
+const isCreditBuyIn = (t: Pick<PlayerTransaction, "type" | "paymentMethod">) =>
+  t.type === "buy-in" && t.paymentMethod === "credit";
+
+// Record a repayment against a credit buy-in and mark it paid once nothing remains.
+// After its game ended the buy-in's unpaid credit was carried forward as a marker,
+// so the repayment also pays down the player's running balance.
+async function recordRepayment(
+  tx: Prisma.TransactionClient,
+  buyIn: PlayerTransaction & { gameSession: GameSession },
+  repayment: {
+    amount: number;
+    method: string;
+    paidAt?: Date;
+    notes: string | null;
+    createdById: string;
+    createdByInitials: string;
+  },
+) {
+  const created = await tx.creditRepayment.create({
+    data: { ...repayment, transactionId: buyIn.id },
+  });
+
+  if (!buyIn.gameSession.isActive && buyIn.playerId) {
+    await tx.creditEntry.create({
+      data: {
+        type: "repayment",
+        amount: created.amount,
+        currency: buyIn.gameSession.currency,
+        method: created.method,
+        notes: created.notes ?? `Repaid ${buyIn.gameSession.name} buy-in`,
+        occurredAt: created.paidAt,
+        createdById: created.createdById,
+        createdByInitials: created.createdByInitials,
+        sourceRepaymentId: created.id,
+        userId: buyIn.gameSession.userId,
+        playerId: buyIn.playerId,
+      },
+    });
+  }
+
+  const repayments = await tx.creditRepayment.findMany({ where: { transactionId: buyIn.id } });
+  if (remainingBalance({ amount: buyIn.amount, isPaid: false }, repayments) === 0) {
+    await tx.playerTransaction.update({ where: { id: buyIn.id }, data: { isPaid: true } });
+  }
+
+  return created;
+}
+
+// Credit buy-ins settled by a cashout must be the player's unpaid credit buy-ins in this game
+// (or ones this cashout already settled) and what's left on them must add up to the credit offset
+async function creditBuyInsMatch(
+  buyInIds: string[],
+  creditOffset: number,
+  gameSessionId: string,
+  playerId: string | null,
+  cashoutId?: string,
+): Promise<boolean> {
+  if (buyInIds.length === 0) return creditOffset === 0;
+  if (!playerId) return false;
+
+  const buyIns = await db.playerTransaction.findMany({
+    where: {
+      id: { in: buyInIds },
+      gameSessionId,
+      playerId,
+      type: "buy-in",
+      paymentMethod: "credit",
+      OR: [{ isPaid: false }, ...(cashoutId ? [{ settledByCashoutId: cashoutId }] : [])],
+    },
+    include: { repayments: true },
+  });
+  const remaining = buyIns.reduce((total, b) => total + remainingBalance({ amount: b.amount, isPaid: false }, b.repayments), 0);
+  return buyIns.length === buyInIds.length && remaining === creditOffset;
+}
+
+// Tab sales netted against a cashout must be the player's open tab sales in this game
+// (or ones this cashout already settled) and add up to the tab offset
+async function tabSalesMatch(
+  saleIds: string[],
+  tabOffset: number,
+  gameSessionId: string,
+  playerId: string | null,
+  cashoutId?: string,
+): Promise<boolean> {
+  if (saleIds.length === 0) return tabOffset === 0;
+  if (!playerId) return false;
+
+  const sales = await db.concessionSale.findMany({
+    where: {
+      id: { in: saleIds },
+      gameSessionId,
+      playerId,
+      method: "tab",
+      OR: [{ settledAt: null }, ...(cashoutId ? [{ settledByCashoutId: cashoutId }] : [])],
+    },
+  });
+  return sales.length === saleIds.length && sales.reduce((total, s) => total + saleAmount(s), 0) === tabOffset;
+}
+
 // ============================================
 // POST /api/players/transaction - Add player transaction
 // ============================================
@@ -25,7 +163,7 @@ playersRouter.post(
   async (c) => {
     const user = c.get("user")!;
     const data = c.req.valid("json");
-    console.log(`💰 [Players] Adding ${data.type} for ${data.playerName}: $${data.amount} (user: ${user.email})`);
+    console.log(`💰 [Players] Adding ${data.type} for ${data.playerName}: ${data.amount} (user: ${user.email})`);
 
     // Verify user has access (owner or member)
     const gameSession = await db.gameSession.findFirst({
@@ -42,37 +180,117 @@ playersRouter.post(
       return c.json({ error: "Game session not found" }, 404);
     }
 
+    // Players belong to the host's registry, even when a member records the transaction
+    const playerId = await resolvePlayerId(gameSession.userId, data.playerName, data.playerId);
+    if (!playerId) {
+      return c.json({ error: "Player not found" }, 404);
+    }
+
+    const tableId = await resolveTableId(data.gameSessionId, data.tableId, playerId);
+    if (tableId === undefined) {
+      return c.json({ error: "Table not found" }, 404);
+    }
+
+    // Amounts are stored in minor units of the session currency
+    const amount = toMinorUnits(data.amount, gameSession.currency);
+    const settlement = data.settlement && {
+      cashPaid: toMinorUnits(data.settlement.cashPaid, gameSession.currency),
+      electronicPaid: toMinorUnits(data.settlement.electronicPaid, gameSession.currency),
+      creditOffset: toMinorUnits(data.settlement.creditOffset, gameSession.currency),
+      tabOffset: toMinorUnits(data.settlement.tabOffset, gameSession.currency),
+    };
+
+    // A settlement must account for every chip cashed out
+    if (settlement && !settlementAddsUp(settlement, amount)) {
+      return c.json({ error: "Cash paid, electronic paid, credit offset and tab offset must add up to the cashout amount" }, 400);
+    }
+
+    // Settled buy-ins must be the player's open credit markers and add up to the credit offset
+    const settledBuyInIds = data.settlement?.settledBuyInIds ?? [];
+    if (settlement && !(await creditBuyInsMatch(settledBuyInIds, settlement.creditOffset, data.gameSessionId, playerId))) {
+      return c.json({ error: "The credit offset must match what's left on the player's unpaid credit buy-ins in this game" }, 400);
+    }
+
+    // Settled tab sales must be on the player's open tab and add up to the tab offset
+    const settledTabSaleIds = data.settlement?.settledTabSaleIds ?? [];
+    if (settlement && !(await tabSalesMatch(settledTabSaleIds, settlement.tabOffset, data.gameSessionId, playerId))) {
+      return c.json({ error: "The tab offset must match sales on the player's open tab in this game" }, 400);
+    }
+
+    // Chip warnings never block the transaction - the host may be catching up on entries
+    const [sessionTransactions, chipBank, dealerDowns, jackpotEntries] = await Promise.all([
+      db.playerTransaction.findMany({
+        where: { gameSessionId: data.gameSessionId },
+        select: { type: true, amount: true },
+      }),
+      db.chipBankItem.findMany({ where: { gameSessionId: data.gameSessionId } }),
+      db.dealerDown.findMany({
+        where: { gameSessionId: data.gameSessionId },
+        select: { tips: true, rake: true },
+      }),
+      db.jackpotEntry.findMany({
+        where: { gameSessionId: data.gameSessionId },
+        select: { type: true, amount: true },
+      }),
+    ]);
+    const warnings = chipWarnings(
+      sessionTransactions,
+      chipsOffTable({ totalRake: gameSession.totalRake, dealerDowns, jackpotEntries }),
+      bankTotal(chipBank),
+      { type: data.type, amount },
+      gameSession.currency,
+    );
+
     // Get user initials
-    const initials = user.initials || (user.name ? user.name.split(" ").map((n: string) => n[0]).join("").toUpperCase().slice(0, 2) : user.email.slice(0, 2).toUpperCase());
+    const initials = userInitials(user);
 
-    const transaction = await db.playerTransaction.create({
-      data: {
-        playerName: data.playerName,
-        type: data.type,
-        amount: data.amount,
-        paymentMethod: data.paymentMethod,
-        notes: data.notes ?? null,
-        gameSessionId: data.gameSessionId,
-        createdById: user.id,
-        createdByInitials: initials,
-      },
+    // Create the cashout and close the markers it settled together
+    const transaction = await db.$transaction(async (tx) => {
+      const created = await tx.playerTransaction.create({
+        data: {
+          playerName: data.playerName,
+          playerId,
+          tableId,
+          type: data.type,
+          amount,
+          paymentMethod: data.paymentMethod,
+          notes: data.notes ?? null,
+          gameSessionId: data.gameSessionId,
+          createdById: user.id,
+          createdByInitials: initials,
+          cashPaid: settlement?.cashPaid ?? null,
+          electronicPaid: settlement?.electronicPaid ?? null,
+          creditOffset: settlement?.creditOffset ?? null,
+          tabOffset: settlement?.tabOffset ?? null,
+        },
+      });
+
+      if (settledBuyInIds.length > 0) {
+        await tx.playerTransaction.updateMany({
+          where: { id: { in: settledBuyInIds } },
+          data: { isPaid: true, settledByCashoutId: created.id },
+        });
+      }
+
+      if (settledTabSaleIds.length > 0) {
+        await tx.concessionSale.updateMany({
+          where: { id: { in: settledTabSaleIds } },
+          data: { settledAt: new Date(), settledMethod: "cashout", settledByCashoutId: created.id },
+        });
+      }
+
+      return tx.playerTransaction.findUniqueOrThrow({
+        where: { id: created.id },
+        include: transactionInclude,
+      });
     });
 
-    console.log(`💰 [Players] Transaction created: ${transaction.id} by ${initials}`);
+    console.log(`💰 [Players] Transaction created: ${transaction.id} by ${initials}${settledBuyInIds.length > 0 ? ` (settled ${settledBuyInIds.length} credit buy-ins)` : ""}${settledTabSaleIds.length > 0 ? ` (settled ${settledTabSaleIds.length} tab sales)` : ""}`);
+    warnings.forEach((w) => console.log(`⚠️ [Players] ${w.message}`));
 
     return c.json({
-      transaction: {
-        id: transaction.id,
-        playerName: transaction.playerName,
-        type: transaction.type as "buy-in" | "cashout",
-        amount: transaction.amount,
-        paymentMethod: transaction.paymentMethod as "cash" | "electronic" | "credit",
-        notes: transaction.notes,
-        isPaid: transaction.isPaid,
-        timestamp: transaction.timestamp.toISOString(),
-        gameSessionId: transaction.gameSessionId,
-        createdByInitials: transaction.createdByInitials,
-      },
+      transaction: formatPlayerTransaction(transaction, gameSession.currency),
+      warnings,
     } satisfies AddPlayerTransactionResponse);
   },
 );
@@ -103,23 +321,13 @@ playersRouter.get("/transactions/:sessionId", async (c) => {
   const transactions = await db.playerTransaction.findMany({
     where: { gameSessionId: sessionId },
     orderBy: { timestamp: "desc" },
+    include: transactionInclude,
   });
 
   console.log(`💰 [Players] Found ${transactions.length} transactions`);
 
   return c.json({
-    transactions: transactions.map((t) => ({
-      id: t.id,
-      playerName: t.playerName,
-      type: t.type as "buy-in" | "cashout",
-      amount: t.amount,
-      paymentMethod: t.paymentMethod as "cash" | "electronic" | "credit",
-      notes: t.notes,
-      isPaid: t.isPaid,
-      timestamp: t.timestamp.toISOString(),
-      gameSessionId: t.gameSessionId,
-      createdByInitials: t.createdByInitials,
-    })),
+    transactions: transactions.map((t) => formatPlayerTransaction(t, gameSession.currency)),
   } satisfies GetPlayerTransactionsResponse);
 });
 
@@ -141,9 +349,20 @@ playersRouter.delete("/transaction/:id", async (c) => {
     return c.json({ error: "Transaction not found" }, 404);
   }
 
-  await db.playerTransaction.delete({
-    where: { id },
-  });
+  // Deleting a cashout re-opens any credit markers and tab sales it settled
+  await db.$transaction([
+    db.playerTransaction.updateMany({
+      where: { settledByCashoutId: id },
+      data: { isPaid: false, settledByCashoutId: null },
+    }),
+    db.concessionSale.updateMany({
+      where: { settledByCashoutId: id },
+      data: { settledAt: null, settledMethod: null, settledByCashoutId: null },
+    }),
+    db.playerTransaction.delete({
+      where: { id },
+    }),
+  ]);
 
   console.log(`💰 [Players] Transaction deleted: ${id}`);
 
@@ -172,29 +391,107 @@ playersRouter.put(
       return c.json({ error: "Transaction not found" }, 404);
     }
 
-    const transaction = await db.playerTransaction.update({
-      where: { id },
-      data: {
-        amount: data.amount,
-        paymentMethod: data.paymentMethod,
-        notes: data.notes ?? null,
-      },
+    if (data.settlement && existingTransaction.type !== "cashout") {
+      return c.json({ error: "Settlement can only be recorded on a cashout" }, 400);
+    }
+
+    // Amounts are stored in minor units of the session currency
+    const currency = existingTransaction.gameSession.currency;
+    const amount = toMinorUnits(data.amount, currency);
+    const settlement = data.settlement && {
+      cashPaid: toMinorUnits(data.settlement.cashPaid, currency),
+      electronicPaid: toMinorUnits(data.settlement.electronicPaid, currency),
+      creditOffset: toMinorUnits(data.settlement.creditOffset, currency),
+      tabOffset: toMinorUnits(data.settlement.tabOffset, currency),
+      settledBuyInIds: data.settlement.settledBuyInIds,
+      settledTabSaleIds: data.settlement.settledTabSaleIds,
+    };
+
+    // A settlement must account for every chip cashed out
+    if (settlement && !settlementAddsUp(settlement, amount)) {
+      return c.json({ error: "Cash paid, electronic paid, credit offset and tab offset must add up to the cashout amount" }, 400);
+    }
+
+    // The settlement already recorded only fits the old amount
+    if (!settlement && needsNewSettlement(existingTransaction, amount)) {
+      return c.json({ error: "This cashout has a settlement - send a new settlement for the new amount" }, 400);
+    }
+
+    if (data.tableId) {
+      const table = await db.gameTable.findFirst({
+        where: { id: data.tableId, gameSessionId: existingTransaction.gameSessionId },
+      });
+      if (!table) {
+        return c.json({ error: "Table not found" }, 404);
+      }
+    }
+
+    // Newly settled buy-ins must be the player's open credit markers (or already settled by this cashout)
+    if (
+      settlement &&
+      !(await creditBuyInsMatch(settlement.settledBuyInIds, settlement.creditOffset, existingTransaction.gameSessionId, existingTransaction.playerId, id))
+    ) {
+      return c.json({ error: "The credit offset must match what's left on the player's unpaid credit buy-ins in this game" }, 400);
+    }
+
+    // Newly settled tab sales must be on the player's open tab (or already settled by this cashout)
+    if (
+      settlement &&
+      !(await tabSalesMatch(settlement.settledTabSaleIds, settlement.tabOffset, existingTransaction.gameSessionId, existingTransaction.playerId, id))
+    ) {
+      return c.json({ error: "The tab offset must match sales on the player's open tab in this game" }, 400);
+    }
+
+    // Without a new settlement the existing one is kept as-is
+    const transaction = await db.$transaction(async (tx) => {
+      if (settlement) {
+        await tx.playerTransaction.updateMany({
+          where: { settledByCashoutId: id },
+          data: { isPaid: false, settledByCashoutId: null },
+        });
+
+        if (settlement.settledBuyInIds.length > 0) {
+          await tx.playerTransaction.updateMany({
+            where: { id: { in: settlement.settledBuyInIds } },
+            data: { isPaid: true, settledByCashoutId: id },
+          });
+        }
+
+        await tx.concessionSale.updateMany({
+          where: { settledByCashoutId: id },
+          data: { settledAt: null, settledMethod: null, settledByCashoutId: null },
+        });
+
+        if (settlement.settledTabSaleIds.length > 0) {
+          await tx.concessionSale.updateMany({
+            where: { id: { in: settlement.settledTabSaleIds } },
+            data: { settledAt: new Date(), settledMethod: "cashout", settledByCashoutId: id },
+          });
+        }
+      }
+
+      return tx.playerTransaction.update({
+        where: { id },
+        data: {
+          amount,
+          paymentMethod: data.paymentMethod,
+          notes: data.notes ?? null,
+          ...(data.tableId && { tableId: data.tableId }),
+          ...(settlement && {
+            cashPaid: settlement.cashPaid,
+            electronicPaid: settlement.electronicPaid,
+            creditOffset: settlement.creditOffset,
+            tabOffset: settlement.tabOffset,
+          }),
+        },
+        include: transactionInclude,
+      });
     });
 
     console.log(`💰 [Players] Transaction updated: ${transaction.id}`);
 
     return c.json({
-      transaction: {
-        id: transaction.id,
-        playerName: transaction.playerName,
-        type: transaction.type as "buy-in" | "cashout",
-        amount: transaction.amount,
-        paymentMethod: transaction.paymentMethod as "cash" | "electronic" | "credit",
-        notes: transaction.notes,
-        isPaid: transaction.isPaid,
-        timestamp: transaction.timestamp.toISOString(),
-        gameSessionId: transaction.gameSessionId,
-      },
+      transaction: formatPlayerTransaction(transaction, currency),
     } satisfies UpdatePlayerTransactionResponse);
   },
 );
@@ -210,32 +507,48 @@ playersRouter.put("/transaction/:id/mark-paid", async (c) => {
   // Verify the transaction belongs to a session owned by this user
   const existingTransaction = await db.playerTransaction.findUnique({
     where: { id },
-    include: { gameSession: true },
+    include: { gameSession: true, repayments: true },
   });
 
   if (!existingTransaction || existingTransaction.gameSession.userId !== user.id) {
     return c.json({ error: "Transaction not found" }, 404);
   }
 
-  const transaction = await db.playerTransaction.update({
-    where: { id },
-    data: { isPaid: true },
+  // Whatever is still owed on a credit buy-in is recorded as repaid in cash -
+  // less anything already repaid against the player's carried balance
+  const remaining = isCreditBuyIn(existingTransaction)
+    ? await repayableAmount({
+      hostId: existingTransaction.gameSession.userId,
+      playerId: existingTransaction.playerId,
+      currency: existingTransaction.gameSession.currency,
+      buyIn: existingTransaction,
+    })
+    : 0;
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const transaction = await db.$transaction(async (tx) => {
+    if (remaining > 0) {
+      await recordRepayment(tx, existingTransaction, {
+        amount: remaining,
+        method: "cash",
+        notes: "Marked paid",
+        createdById: user.id,
+        createdByInitials: initials,
+      });
+    }
+    return tx.playerTransaction.update({
+      where: { id },
+      data: { isPaid: true },
+      include: transactionInclude,
+    });
   });
 
   console.log(`💰 [Players] Transaction marked as paid: ${transaction.id}`);
 
   return c.json({
-    transaction: {
-      id: transaction.id,
-      playerName: transaction.playerName,
-      type: transaction.type as "buy-in" | "cashout",
-      amount: transaction.amount,
-      paymentMethod: transaction.paymentMethod as "cash" | "electronic" | "credit",
-      notes: transaction.notes,
-      isPaid: transaction.isPaid,
-      timestamp: transaction.timestamp.toISOString(),
-      gameSessionId: transaction.gameSessionId,
-    },
+    transaction: formatPlayerTransaction(transaction, existingTransaction.gameSession.currency),
   });
 });
 
@@ -250,33 +563,515 @@ playersRouter.put("/transaction/:id/mark-unpaid", async (c) => {
   // Verify the transaction belongs to a session owned by this user
   const existingTransaction = await db.playerTransaction.findUnique({
     where: { id },
-    include: { gameSession: true },
+    include: { gameSession: true, repayments: { select: { id: true } } },
   });
 
   if (!existingTransaction || existingTransaction.gameSession.userId !== user.id) {
     return c.json({ error: "Transaction not found" }, 404);
   }
 
+  // Repayments and a settling cashout are what made it paid - they're undone on their own
+  if (existingTransaction.settledByCashoutId) {
+    return c.json({ error: "This buy-in was settled by a cashout - edit or delete that cashout first" }, 400);
+  }
+  if (existingTransaction.repayments.length > 0) {
+    return c.json({ error: "This buy-in has repayments - delete them first" }, 400);
+  }
+
   const transaction = await db.playerTransaction.update({
     where: { id },
     data: { isPaid: false },
+    include: transactionInclude,
   });
 
   console.log(`💰 [Players] Transaction marked as unpaid: ${transaction.id}`);
 
   return c.json({
-    transaction: {
-      id: transaction.id,
-      playerName: transaction.playerName,
-      type: transaction.type as "buy-in" | "cashout",
-      amount: transaction.amount,
-      paymentMethod: transaction.paymentMethod as "cash" | "electronic" | "credit",
-      notes: transaction.notes,
-      isPaid: transaction.isPaid,
-      timestamp: transaction.timestamp.toISOString(),
-      gameSessionId: transaction.gameSessionId,
+    transaction: formatPlayerTransaction(transaction, existingTransaction.gameSession.currency),
+  });
+});
+
+// ============================================
+// GET /api/players/transaction/:id/repayments - Repayments and payment plan of a credit buy-in
+// ============================================
+playersRouter.get("/transaction/:id/repayments", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`💰 [Players] Getting repayments for transaction: ${id} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const transaction = await db.playerTransaction.findFirst({
+    where: {
+      id,
+      gameSession: {
+        OR: [
+          { userId: user.id },
+          { members: { some: { userId: user.id } } },
+        ],
+      },
+    },
+    include: {
+      ...transactionInclude,
+      gameSession: true,
+      repayments: { orderBy: { paidAt: "asc" } },
+      installments: true,
+    },
+  });
+
+  if (!transaction || !isCreditBuyIn(transaction)) {
+    return c.json({ error: "Credit buy-in not found" }, 404);
+  }
+
+  const { currency } = transaction.gameSession;
+  const plan = calculateRepaymentPlan(transaction, transaction.repayments, transaction.installments);
+
+  return c.json({
+    transaction: formatPlayerTransaction(transaction, currency),
+    repayments: transaction.repayments.map((r) => formatCreditRepayment(r, currency)),
+    installments: plan.installments.map((i) => formatCreditInstallment(i, currency)),
+    repaid: fromMinorUnits(plan.repaid, currency),
+    remaining: fromMinorUnits(plan.remaining, currency),
+  } satisfies GetRepaymentsResponse);
+});
+
+// ============================================
+// POST /api/players/transaction/:id/repayments - Record a (partial) repayment of a credit buy-in
+// ============================================
+playersRouter.post(
+  "/transaction/:id/repayments",
+  zValidator("json", addRepaymentRequestSchema),
+  async (c) => {
+    const user = c.get("user")!;
+    const id = c.req.param("id");
+    const data = c.req.valid("json");
+    console.log(`💰 [Players] Recording ${data.method} repayment of ${data.amount} on transaction: ${id} (user: ${user.email})`);
+
+    // Verify the transaction belongs to a session owned by this user
+    const existingTransaction = await db.playerTransaction.findUnique({
+      where: { id },
+      include: { gameSession: true, repayments: true },
+    });
+
+    if (!existingTransaction || existingTransaction.gameSession.userId !== user.id || !isCreditBuyIn(existingTransaction)) {
+      return c.json({ error: "Credit buy-in not found" }, 404);
+    }
+
+    const { currency } = existingTransaction.gameSession;
+    const amount = toMinorUnits(data.amount, currency);
+    const remaining = await repayableAmount({
+      hostId: existingTransaction.gameSession.userId,
+      playerId: existingTransaction.playerId,
+      currency,
+      buyIn: existingTransaction,
+    });
+
+    if (amount > remaining) {
+      return c.json({ error: `Repayment exceeds the remaining balance of ${fromMinorUnits(remaining, currency)}` }, 400);
+    }
+
+    // Get user initials
+    const initials = userInitials(user);
+
+    const [repayment, transaction] = await db.$transaction(async (tx) => {
+      const created = await recordRepayment(tx, existingTransaction, {
+        amount,
+        method: data.method,
+        paidAt: data.paidAt ? new Date(data.paidAt) : undefined,
+        notes: data.notes ?? null,
+        createdById: user.id,
+        createdByInitials: initials,
+      });
+      const updated = await tx.playerTransaction.findUniqueOrThrow({
+        where: { id },
+        include: transactionInclude,
+      });
+      return [created, updated] as const;
+    });
+
+    console.log(`💰 [Players] Repayment recorded: ${repayment.id} by ${initials}, paid off: ${transaction.isPaid}`);
+
+    return c.json({
+      transaction: formatPlayerTransaction(transaction, currency),
+      repayment: formatCreditRepayment(repayment, currency),
+    } satisfies AddRepaymentResponse);
+  },
+);
+
+// ============================================
+// DELETE /api/players/transaction/:id/repayments/:repaymentId - Delete a repayment
+// ============================================
+playersRouter.delete("/transaction/:id/repayments/:repaymentId", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const repaymentId = c.req.param("repaymentId");
+  console.log(`💰 [Players] Deleting repayment: ${repaymentId} on transaction: ${id} (user: ${user.email})`);
+
+  // Verify the repayment belongs to a session owned by this user
+  const existingRepayment = await db.creditRepayment.findFirst({
+    where: { id: repaymentId, transactionId: id },
+    include: { transaction: { include: { gameSession: true } } },
+  });
+
+  if (!existingRepayment || existingRepayment.transaction.gameSession.userId !== user.id) {
+    return c.json({ error: "Repayment not found" }, 404);
+  }
+
+  // Re-open the buy-in unless a cashout settled it
+  const transaction = await db.$transaction(async (tx) => {
+    await tx.creditRepayment.delete({ where: { id: repaymentId } });
+    return tx.playerTransaction.update({
+      where: { id },
+      data: { isPaid: existingRepayment.transaction.settledByCashoutId !== null },
+      include: transactionInclude,
+    });
+  });
+
+  console.log(`💰 [Players] Repayment deleted: ${repaymentId}`);
+
+  return c.json({
+    transaction: formatPlayerTransaction(transaction, existingRepayment.transaction.gameSession.currency),
+  } satisfies DeleteRepaymentResponse);
+});
+
+// ============================================
+// PUT /api/players/transaction/:id/payment-plan - Replace the payment plan of a credit buy-in
+// ============================================
+playersRouter.put(
+  "/transaction/:id/payment-plan",
+  zValidator("json", setPaymentPlanRequestSchema),
+  async (c) => {
+    const user = c.get("user")!;
+    const id = c.req.param("id");
+    const { installments } = c.req.valid("json");
+    console.log(`💰 [Players] Setting ${installments.length}-installment payment plan on transaction: ${id} (user: ${user.email})`);
+
+    // Verify the transaction belongs to a session owned by this user
+    const existingTransaction = await db.playerTransaction.findUnique({
+      where: { id },
+      include: { gameSession: true, repayments: true },
+    });
+
+    if (!existingTransaction || existingTransaction.gameSession.userId !== user.id || !isCreditBuyIn(existingTransaction)) {
+      return c.json({ error: "Credit buy-in not found" }, 404);
+    }
+
+    const { currency } = existingTransaction.gameSession;
+    const remaining = remainingBalance(existingTransaction, existingTransaction.repayments);
+    const scheduled = installments.map((i) => ({
+      dueDate: new Date(i.dueDate),
+      amount: toMinorUnits(i.amount, currency),
+    }));
+
+    // The plan schedules exactly what is still owed
+    if (scheduled.reduce((sum, i) => sum + i.amount, 0) !== remaining) {
+      return c.json({ error: `Installments must add up to the remaining balance of ${fromMinorUnits(remaining, currency)}` }, 400);
+    }
+
+    const [, , created] = await db.$transaction([
+      db.creditInstallment.deleteMany({ where: { transactionId: id } }),
+      db.creditInstallment.createMany({
+        data: scheduled.map((i) => ({ ...i, transactionId: id })),
+      }),
+      db.creditInstallment.findMany({ where: { transactionId: id } }),
+    ]);
+
+    const plan = calculateRepaymentPlan(existingTransaction, existingTransaction.repayments, created);
+
+    console.log(`💰 [Players] Payment plan set on transaction: ${id}`);
+
+    return c.json({
+      installments: plan.installments.map((i) => formatCreditInstallment(i, currency)),
+    } satisfies SetPaymentPlanResponse);
+  },
+);
+
+// ============================================
+// DELETE /api/players/transaction/:id/payment-plan - Remove the payment plan
+// ============================================
+playersRouter.delete("/transaction/:id/payment-plan", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`💰 [Players] Removing payment plan from transaction: ${id} (user: ${user.email})`);
+
+  // Verify the transaction belongs to a session owned by this user
+  const existingTransaction = await db.playerTransaction.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!existingTransaction || existingTransaction.gameSession.userId !== user.id) {
+    return c.json({ error: "Transaction not found" }, 404);
+  }
+
+  await db.creditInstallment.deleteMany({ where: { transactionId: id } });
+
+  console.log(`💰 [Players] Payment plan removed from transaction: ${id}`);
+
+  return c.json({ success: true } satisfies DeletePaymentPlanResponse);
+});
+
+// ============================================
+// GET /api/players/registry - Get the host's player registry
+// ============================================
+playersRouter.get("/registry", async (c) => {
+  const user = c.get("user")!;
+  console.log(`📇 [Players] Getting player registry (user: ${user.email})`);
+
+  const players = await db.player.findMany({
+    where: { userId: user.id },
+    orderBy: { name: "asc" },
+  });
+
+  console.log(`📇 [Players] Found ${players.length} registered players`);
+
+  return c.json({
+    players: players.map(formatPlayer),
+  } satisfies GetPlayersResponse);
+});
+
+// ============================================
+// GET /api/players/registry/suggest - Fuzzy-match a typed name against the registry
+// ============================================
+playersRouter.get("/registry/suggest", zValidator("query", suggestPlayersQuerySchema), async (c) => {
+  const user = c.get("user")!;
+  const { q, gameSessionId } = c.req.valid("query");
+  console.log(`📇 [Players] Suggesting players for "${q}" (user: ${user.email})`);
+
+  // Members typing into a shared game get suggestions from the host's registry
+  let hostId = user.id;
+  if (gameSessionId) {
+    const gameSession = await db.gameSession.findFirst({
+      where: {
+        id: gameSessionId,
+        OR: [
+          { userId: user.id },
+          { members: { some: { userId: user.id } } },
+        ],
+      },
+    });
+
+    if (!gameSession) {
+      return c.json({ error: "Game session not found" }, 404);
+    }
+    hostId = gameSession.userId;
+  }
+
+  const players = await db.player.findMany({ where: { userId: hostId } });
+  const suggestions = suggestPlayers(q, players);
+
+  return c.json({
+    suggestions: suggestions.map((s) => ({
+      player: formatPlayer(s.player),
+      score: s.score,
+      matchedOn: s.matchedOn,
+    })),
+  } satisfies SuggestPlayersResponse);
+});
+
+// ============================================
+// POST /api/players/registry - Add a player to the registry
+// ============================================
+playersRouter.post("/registry", zValidator("json", createPlayerRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`📇 [Players] Registering player: ${data.name} (user: ${user.email})`);
+
+  const player = await db.player.create({
+    data: {
+      name: data.name,
+      nickname: data.nickname ?? null,
+      aliases: data.aliases,
+      phone: data.phone ?? null,
+      email: data.email ?? null,
+      notes: data.notes ?? null,
+      userId: user.id,
+    },
+  });
+
+  console.log(`📇 [Players] Player registered: ${player.id}`);
+
+  return c.json({ player: formatPlayer(player) } satisfies CreatePlayerResponse);
+});
+
+// ============================================
+// GET /api/players/registry/:id - Get a player with their transactions across all games
+// ============================================
+playersRouter.get("/registry/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`📇 [Players] Getting player: ${id} (user: ${user.email})`);
+
+  const player = await db.player.findFirst({
+    where: { id, userId: user.id },
+    include: {
+      transactions: {
+        orderBy: { timestamp: "desc" },
+        include: { ...transactionInclude, gameSession: { select: { currency: true } } },
+      },
     },
   });
+
+  if (!player) {
+    return c.json({ error: "Player not found" }, 404);
+  }
+
+  const { transactions, ...playerRow } = player;
+  return c.json({
+    player: formatPlayer(playerRow),
+    transactions: transactions.map((t) => formatPlayerTransaction(t, t.gameSession.currency)),
+  } satisfies GetPlayerResponse);
+});
+
+// ============================================
+// PUT /api/players/registry/:id - Update a player
+// ============================================
+playersRouter.put("/registry/:id", zValidator("json", updatePlayerRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const data = c.req.valid("json");
+  console.log(`📇 [Players] Updating player: ${id} (user: ${user.email})`);
+
+  const existingPlayer = await db.player.findFirst({
+    where: { id, userId: user.id },
+  });
+
+  if (!existingPlayer) {
+    return c.json({ error: "Player not found" }, 404);
+  }
+
+  const player = await db.player.update({
+    where: { id },
+    data,
+  });
+
+  console.log(`📇 [Players] Player updated: ${id}`);
+
+  return c.json({ player: formatPlayer(player) } satisfies UpdatePlayerResponse);
+});
+
+// ============================================
+// DELETE /api/players/registry/:id - Remove a player (their transactions are kept, unlinked)
+// ============================================
+playersRouter.delete("/registry/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`📇 [Players] Deleting player: ${id} (user: ${user.email})`);
+
+  const existingPlayer = await db.player.findFirst({
+    where: { id, userId: user.id },
+  });
+
+  if (!existingPlayer) {
+    return c.json({ error: "Player not found" }, 404);
+  }
+
+  // Deleting would wipe their credit history - merge them into another player instead
+  const creditEntries = await db.creditEntry.count({ where: { playerId: id } });
+  if (creditEntries > 0) {
+    return c.json({ error: "Player has credit history and cannot be deleted" }, 400);
+  }
+
+  await db.player.delete({ where: { id } });
+
+  console.log(`📇 [Players] Player deleted: ${id}`);
+
+  return c.json({ success: true });
+});
+
+// ============================================
+// POST /api/players/registry/:id/merge - Merge duplicate players into this one
+// ============================================
+playersRouter.post("/registry/:id/merge", zValidator("json", mergePlayersRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const { duplicateIds } = c.req.valid("json");
+  console.log(`📇 [Players] Merging ${duplicateIds.length} players into ${id} (user: ${user.email})`);
+
+  if (duplicateIds.includes(id)) {
+    return c.json({ error: "A player cannot be merged into itself" }, 400);
+  }
+
+  const target = await db.player.findFirst({
+    where: { id, userId: user.id },
+  });
+  const duplicates = await db.player.findMany({
+    where: { id: { in: duplicateIds }, userId: user.id },
+  });
+
+  if (!target || duplicates.length !== duplicateIds.length) {
+    return c.json({ error: "Player not found" }, 404);
+  }
+
+  // Every name the duplicates were known by becomes an alias of the surviving player
+  const knownNames = new Set([target.name, target.nickname].filter((n): n is string => !!n).map(normalizePlayerName));
+  const aliases = [...target.aliases];
+  duplicates
+    .flatMap((d) => [d.name, d.nickname, ...d.aliases])
+    .forEach((name) => {
+      if (!name) return;
+      const normalized = normalizePlayerName(name);
+      if (knownNames.has(normalized)) return;
+      knownNames.add(normalized);
+      aliases.push(name);
+    });
+
+  const [moved, , , , , , , , , , , player] = await db.$transaction([
+    db.playerTransaction.updateMany({
+      where: { playerId: { in: duplicateIds } },
+      data: { playerId: id },
+    }),
+    db.creditEntry.updateMany({
+      where: { playerId: { in: duplicateIds } },
+      data: { playerId: id },
+    }),
+    db.settlementTransfer.updateMany({
+      where: { fromPlayerId: { in: duplicateIds } },
+      data: { fromPlayerId: id },
+    }),
+    db.settlementTransfer.updateMany({
+      where: { toPlayerId: { in: duplicateIds } },
+      data: { toPlayerId: id },
+    }),
+    db.tableMove.updateMany({
+      where: { playerId: { in: duplicateIds } },
+      data: { playerId: id },
+    }),
+    db.playerSeat.updateMany({
+      where: { playerId: { in: duplicateIds } },
+      data: { playerId: id },
+    }),
+    db.timeCollection.updateMany({
+      where: { playerId: { in: duplicateIds } },
+      data: { playerId: id },
+    }),
+    db.tournamentEntry.updateMany({
+      where: { playerId: { in: duplicateIds } },
+      data: { playerId: id },
+    }),
+    db.jackpotEntry.updateMany({
+      where: { playerId: { in: duplicateIds } },
+      data: { playerId: id },
+    }),
+    db.concessionSale.updateMany({
+      where: { playerId: { in: duplicateIds } },
+      data: { playerId: id },
+    }),
+    db.player.deleteMany({
+      where: { id: { in: duplicateIds } },
+    }),
+    db.player.update({
+      where: { id },
+      data: { aliases },
+    }),
+  ]);
+
+  console.log(`📇 [Players] Merged ${duplicates.length} players into ${id}, moved ${moved.count} transactions`);
+
+  return c.json({
+    player: formatPlayer(player),
+    mergedCount: duplicates.length,
+    transactionsMoved: moved.count,
+  } satisfies MergePlayersResponse);
 });
 
 export { playersRouter };
@@ -0,0 +1,313 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  logRakePotRequestSchema,
+  setRakeStructureRequestSchema,
+  type DeleteRakePotResponse,
+  type DeleteRakeStructureResponse,
+  type GetRakePotsResponse,
+  type GetRakeReconciliationResponse,
+  type GetRakeStructuresResponse,
+  type LogRakePotResponse,
+  type SetRakeStructureResponse,
+} from "@/shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatRakePot, formatRakeStructure } from "../lib/serializers";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import { rakeForPot, reconcileRake } from "../lib/rake";
+import { resolveTableId } from "../lib/tables";
+import { resolveDealerId } from "../lib/dealerRoster";
+import { userInitials } from "../lib/userInitials";
+
+const rakeRouter = new Hono<AppType>();
+
+// Apply auth middleware to all rake routes
+rakeRouter.use("*", requireAuth);
+
+// ============================================
+// GET /api/rake/:sessionId/structures - Get the game's rake structures
+// ============================================
+rakeRouter.get("/:sessionId/structures", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`📐 [Rake] Getting rake structures for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { rakeStructures: true },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  return c.json({
+    structures: gameSession.rakeStructures.map((r) => formatRakeStructure(r, gameSession.currency)),
+  } satisfies GetRakeStructuresResponse);
+});
+
+// ============================================
+// PUT /api/rake/:sessionId/structure - Set the game-wide rake structure, or one table's
+// ============================================
+rakeRouter.put("/:sessionId/structure", zValidator("json", setRakeStructureRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const data = c.req.valid("json");
+  console.log(`📐 [Rake] Setting ${data.percentage}% rake structure${data.tableId ? ` for table ${data.tableId}` : ""} for session: ${sessionId} (user: ${user.email})`);
+
+  // Only the host sets the rake structure
+  const gameSession = await db.gameSession.findFirst({
+    where: { id: sessionId, userId: user.id },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  if (data.tableId) {
+    const table = await db.gameTable.findFirst({ where: { id: data.tableId, gameSessionId: sessionId } });
+    if (!table) {
+      return c.json({ error: "Table not found" }, 404);
+    }
+  }
+
+  const fields = {
+    percentage: data.percentage,
+    cap: toMinorUnits(data.cap, gameSession.currency),
+    noFlopNoDrop: data.noFlopNoDrop,
+    promoDrop: toMinorUnits(data.promoDrop, gameSession.currency),
+  };
+
+  // Table structures are unique per table; the game-wide one is the structure with no table
+  const existing = await db.rakeStructure.findFirst({
+    where: { gameSessionId: sessionId, tableId: data.tableId ?? null },
+  });
+  const structure = existing
+    ? await db.rakeStructure.update({ where: { id: existing.id }, data: fields })
+    : await db.rakeStructure.create({
+        data: { ...fields, gameSessionId: sessionId, tableId: data.tableId ?? null },
+      });
+
+  console.log(`📐 [Rake] Rake structure set: ${structure.id}`);
+
+  return c.json({
+    structure: formatRakeStructure(structure, gameSession.currency),
+  } satisfies SetRakeStructureResponse);
+});
+
+// ============================================
+// DELETE /api/rake/structure/:id - Delete a rake structure
+// ============================================
+rakeRouter.delete("/structure/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`📐 [Rake] Deleting rake structure: ${id} (user: ${user.email})`);
+
+  // Verify the structure belongs to a session owned by this user
+  const structure = await db.rakeStructure.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!structure || structure.gameSession.userId !== user.id) {
+    return c.json({ error: "Rake structure not found" }, 404);
+  }
+
+  // Pots already logged keep the rake worked out when they were logged
+  await db.rakeStructure.delete({ where: { id } });
+
+  console.log(`📐 [Rake] Rake structure deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteRakeStructureResponse);
+});
+
+// ============================================
+// POST /api/rake/pots - Log a pot against the rake structure
+// ============================================
+rakeRouter.post("/pots", zValidator("json", logRakePotRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`📐 [Rake] Logging pot of ${data.potSize} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  if (!gameSession.isActive) {
+    return c.json({ error: "Game session is not active" }, 400);
+  }
+
+  const tableId = await resolveTableId(data.gameSessionId, data.tableId);
+  if (tableId === undefined) {
+    return c.json({ error: "Table not found" }, 404);
+  }
+
+  // The table's own structure wins over the game-wide one
+  const structures = await db.rakeStructure.findMany({ where: { gameSessionId: data.gameSessionId } });
+  const structure = structures.find((r) => tableId && r.tableId === tableId) ?? structures.find((r) => !r.tableId);
+  if (!structure) {
+    return c.json({ error: "Set up a rake structure for this game first" }, 400);
+  }
+
+  // The dealer named, else whoever is in the box at the table
+  let dealer: { name: string; id: string | null } | null = null;
+  if (data.dealerName) {
+    dealer = { name: data.dealerName, id: await resolveDealerId(gameSession.userId, data.dealerName) };
+  } else if (tableId) {
+    const box = await db.dealerBox.findUnique({ where: { tableId } });
+    if (box) dealer = { name: box.dealerName, id: box.dealerId };
+  }
+
+  const potSize = toMinorUnits(data.potSize, gameSession.currency);
+  const { rake, promoDrop } = rakeForPot(structure, potSize, data.sawFlop);
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const pot = await db.rakePot.create({
+    data: {
+      potSize,
+      sawFlop: data.sawFlop,
+      rake,
+      promoDrop,
+      dealerName: dealer?.name ?? null,
+      dealerId: dealer?.id ?? null,
+      tableId,
+      gameSessionId: data.gameSessionId,
+      createdById: user.id,
+      createdByInitials: initials,
+    },
+  });
+
+  console.log(`📐 [Rake] Pot logged: ${pot.id}, rake ${rake}, promo drop ${promoDrop} (minor units) by ${initials}`);
+
+  return c.json({ pot: formatRakePot(pot, gameSession.currency) } satisfies LogRakePotResponse);
+});
+
+// ============================================
+// GET /api/rake/:sessionId/pots - Get all logged pots
+// ============================================
+rakeRouter.get("/:sessionId/pots", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`📐 [Rake] Getting pots for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { rakePots: { orderBy: { timestamp: "desc" } } },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  return c.json({
+    pots: gameSession.rakePots.map((p) => formatRakePot(p, gameSession.currency)),
+  } satisfies GetRakePotsResponse);
+});
+
+// ============================================
+// DELETE /api/rake/pots/:id - Delete a logged pot
+// ============================================
+rakeRouter.delete("/pots/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`📐 [Rake] Deleting pot: ${id} (user: ${user.email})`);
+
+  // Verify the pot belongs to a session owned by this user
+  const pot = await db.rakePot.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!pot || pot.gameSession.userId !== user.id) {
+    return c.json({ error: "Pot not found" }, 404);
+  }
+
+  await db.rakePot.delete({ where: { id } });
+
+  console.log(`📐 [Rake] Pot deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteRakePotResponse);
+});
+
+// ============================================
+// GET /api/rake/:sessionId/reconciliation - Dropbox count vs dealer-reported vs theoretical rake
+// ============================================
+rakeRouter.get("/:sessionId/reconciliation", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`📐 [Rake] Reconciling rake for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { dealerDowns: true, rakePots: true },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const report = reconcileRake({
+    totalRake: gameSession.totalRake,
+    dealerDowns: gameSession.dealerDowns,
+    pots: gameSession.rakePots,
+  });
+  const major = (minor: number) => fromMinorUnits(minor, gameSession.currency);
+
+  console.log(`📐 [Rake] Dropbox vs dealer-reported: ${report.dropboxVsReported}, reported vs theoretical: ${report.reportedVsTheoretical} (minor units)`);
+
+  return c.json({
+    reconciliation: {
+      source: report.source,
+      dropboxCount: major(report.dropboxCount),
+      dealerReported: major(report.dealerReported),
+      theoretical: major(report.theoretical),
+      promoDrops: major(report.promoDrops),
+      dropboxVsReported: major(report.dropboxVsReported),
+      reportedVsTheoretical: major(report.reportedVsTheoretical),
+      dealers: report.dealers.map((d) => ({
+        ...d,
+        reported: major(d.reported),
+        theoretical: major(d.theoretical),
+        variance: major(d.variance),
+      })),
+    },
+  } satisfies GetRakeReconciliationResponse);
+});
+
+export { rakeRouter };
@@ -0,0 +1,314 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  endDealerDownRequestSchema,
+  pushDealerRequestSchema,
+  setRotationRequestSchema,
+  type DealerRotation,
+  type EndDealerDownResponse,
+  type GetRotationResponse,
+  type PushDealerResponse,
+  type SetRotationResponse,
+} from "@/shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatDealerDown } from "../lib/serializers";
+import { toMinorUnits } from "../lib/money";
+import { downClock, endDown, nextInLineup } from "../lib/rotation";
+import { userInitials } from "../lib/userInitials";
+
+const rotationRouter = new Hono<AppType>();
+
+// Apply auth middleware to all rotation routes
+rotationRouter.use("*", requireAuth);
+
+/**
+ * Lineup dealers still on the host's roster and active - deleted or inactive dealers are skipped
+ */
+async function lineupDealers(hostId: string, lineup: string[]) {
+  const dealers = await db.dealer.findMany({
+    where: { id: { in: lineup }, userId: hostId, active: true },
+  });
+  return new Map(dealers.map((d) => [d.id, d]));
+}
+
+async function loadRotation(gameSessionId: string, hostId: string, now: Date): Promise<DealerRotation> {
+  const [rotation, boxes] = await Promise.all([
+    db.dealerRotation.findUnique({ where: { gameSessionId } }),
+    db.dealerBox.findMany({
+      where: { gameSessionId },
+      include: { table: true },
+      orderBy: { table: { openedAt: "asc" } },
+    }),
+  ]);
+
+  const lineup = rotation?.lineup ?? [];
+  const dealers = await lineupDealers(hostId, lineup);
+  const busy = new Set(boxes.map((b) => b.dealerId));
+  const next = rotation
+    ? nextInLineup(lineup, rotation.nextIndex, (id) => dealers.has(id) && !busy.has(id))
+    : null;
+
+  return {
+    downMinutes: rotation?.downMinutes ?? null,
+    lineup: lineup
+      .filter((id) => dealers.has(id))
+      .map((id) => ({ dealerId: id, dealerName: dealers.get(id)!.name })),
+    boxes: boxes.map((box) => {
+      const clock = rotation ? downClock(box.startedAt, rotation.downMinutes, now) : null;
+      return {
+        tableId: box.tableId,
+        tableName: box.table.name,
+        dealerId: box.dealerId,
+        dealerName: box.dealerName,
+        startedAt: box.startedAt.toISOString(),
+        endsAt: clock?.endsAt.toISOString() ?? null,
+        secondsRemaining: clock?.secondsRemaining ?? null,
+        overdue: !!clock && clock.secondsRemaining < 0,
+      };
+    }),
+    nextUp: next ? { dealerId: next.dealerId, dealerName: dealers.get(next.dealerId)!.name } : null,
+  };
+}
+
+// ============================================
+// GET /api/rotation/:sessionId - Get the lineup, who is in each box and who is next up
+// ============================================
+rotationRouter.get("/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🔄 [Rotation] Getting dealer rotation for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const rotation = await loadRotation(sessionId, gameSession.userId, new Date());
+
+  return c.json({ rotation } satisfies GetRotationResponse);
+});
+
+// ============================================
+// PUT /api/rotation/:sessionId - Set the dealer lineup and down length
+// ============================================
+rotationRouter.put("/:sessionId", zValidator("json", setRotationRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const data = c.req.valid("json");
+  console.log(`🔄 [Rotation] Setting lineup of ${data.dealerIds.length} dealers, ${data.downMinutes} minute downs for session: ${sessionId} (user: ${user.email})`);
+
+  // Only the host sets up the rotation
+  const gameSession = await db.gameSession.findFirst({
+    where: { id: sessionId, userId: user.id },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  if (new Set(data.dealerIds).size !== data.dealerIds.length) {
+    return c.json({ error: "Each dealer can only be in the lineup once" }, 400);
+  }
+
+  const dealers = await lineupDealers(user.id, data.dealerIds);
+  if (dealers.size !== data.dealerIds.length) {
+    return c.json({ error: "Dealer not found" }, 404);
+  }
+
+  await db.dealerRotation.upsert({
+    where: { gameSessionId: sessionId },
+    create: { gameSessionId: sessionId, lineup: data.dealerIds, downMinutes: data.downMinutes },
+    update: { lineup: data.dealerIds, downMinutes: data.downMinutes, nextIndex: 0 },
+  });
+
+  console.log(`🔄 [Rotation] Rotation set for session: ${sessionId}`);
+
+  const rotation = await loadRotation(sessionId, user.id, new Date());
+
+  return c.json({ rotation } satisfies SetRotationResponse);
+});
+
+// ============================================
+// POST /api/rotation/:sessionId/push - End the down at a table and send in the next dealer
+// ============================================
+rotationRouter.post("/:sessionId/push", zValidator("json", pushDealerRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const data = c.req.valid("json");
+  console.log(`🔄 [Rotation] Pushing table: ${data.tableId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  if (!gameSession.isActive) {
+    return c.json({ error: "Game session is not active" }, 400);
+  }
+
+  const table = await db.gameTable.findFirst({
+    where: { id: data.tableId, gameSessionId: sessionId },
+  });
+
+  if (!table) {
+    return c.json({ error: "Table not found" }, 404);
+  }
+
+  if (table.closedAt) {
+    return c.json({ error: "Table is closed" }, 400);
+  }
+
+  const [rotation, boxes] = await Promise.all([
+    db.dealerRotation.findUnique({ where: { gameSessionId: sessionId } }),
+    db.dealerBox.findMany({ where: { gameSessionId: sessionId } }),
+  ]);
+  const outgoing = boxes.find((b) => b.tableId === table.id) ?? null;
+  // The outgoing dealer takes a break rather than sitting straight back down
+  const busy = new Set(boxes.map((b) => b.dealerId));
+
+  // Work out who goes in: the dealer asked for, else the next one up
+  let incoming: { id: string; name: string } | null = null;
+  let nextIndex = rotation?.nextIndex;
+  if (data.dealerId) {
+    const dealer = await db.dealer.findFirst({
+      where: { id: data.dealerId, userId: gameSession.userId },
+    });
+    if (!dealer) {
+      return c.json({ error: "Dealer not found" }, 404);
+    }
+    if (busy.has(dealer.id) && dealer.id !== outgoing?.dealerId) {
+      return c.json({ error: `${dealer.name} is already dealing at another table` }, 400);
+    }
+    incoming = { id: dealer.id, name: dealer.name };
+    const position = rotation?.lineup.indexOf(dealer.id) ?? -1;
+    if (rotation && position >= 0) nextIndex = (position + 1) % rotation.lineup.length;
+  } else {
+    if (!rotation) {
+      return c.json({ error: "Set up the dealer rotation or pick a dealer" }, 400);
+    }
+    const dealers = await lineupDealers(gameSession.userId, rotation.lineup);
+    const next = nextInLineup(rotation.lineup, rotation.nextIndex, (id) => dealers.has(id) && !busy.has(id));
+    if (!next) {
+      return c.json({ error: "No dealer available - everyone in the lineup is already dealing" }, 400);
+    }
+    incoming = { id: next.dealerId, name: dealers.get(next.dealerId)!.name };
+    nextIndex = (next.position + 1) % rotation.lineup.length;
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const now = new Date();
+  const dealerDown = await db.$transaction(async (tx) => {
+    const ended = outgoing
+      ? await endDown(tx, outgoing, {
+          tips: toMinorUnits(data.tips, gameSession.currency),
+          rake: toMinorUnits(data.rake, gameSession.currency),
+          endedAt: now,
+          createdById: user.id,
+          createdByInitials: initials,
+        })
+      : null;
+
+    await tx.dealerBox.create({
+      data: {
+        dealerName: incoming.name,
+        dealerId: incoming.id,
+        startedAt: now,
+        tableId: table.id,
+        gameSessionId: sessionId,
+      },
+    });
+
+    if (rotation && nextIndex !== undefined) {
+      await tx.dealerRotation.update({ where: { id: rotation.id }, data: { nextIndex } });
+    }
+
+    return ended;
+  });
+
+  console.log(`🔄 [Rotation] ${incoming.name} into the box at ${table.name}${outgoing ? `, ${outgoing.dealerName} out` : ""} by ${initials}`);
+
+  return c.json({
+    dealerDown: dealerDown ? formatDealerDown(dealerDown, gameSession.currency) : null,
+    rotation: await loadRotation(sessionId, gameSession.userId, now),
+  } satisfies PushDealerResponse);
+});
+
+// ============================================
+// POST /api/rotation/:sessionId/end-down - End the down at a table without sending anyone in
+// ============================================
+rotationRouter.post("/:sessionId/end-down", zValidator("json", endDealerDownRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const data = c.req.valid("json");
+  console.log(`🔄 [Rotation] Ending down at table: ${data.tableId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const box = await db.dealerBox.findFirst({
+    where: { tableId: data.tableId, gameSessionId: sessionId },
+  });
+
+  if (!box) {
+    return c.json({ error: "No dealer in the box at this table" }, 404);
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const now = new Date();
+  const dealerDown = await db.$transaction((tx) =>
+    endDown(tx, box, {
+      tips: toMinorUnits(data.tips, gameSession.currency),
+      rake: toMinorUnits(data.rake, gameSession.currency),
+      endedAt: now,
+      createdById: user.id,
+      createdByInitials: initials,
+    }),
+  );
+
+  console.log(`🔄 [Rotation] Down ended for ${box.dealerName}: ${dealerDown.id} by ${initials}`);
+
+  return c.json({
+    dealerDown: formatDealerDown(dealerDown, gameSession.currency),
+    rotation: await loadRotation(sessionId, gameSession.userId, now),
+  } satisfies EndDealerDownResponse);
+});
+
+export { rotationRouter };
@@ -0,0 +1,160 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  planSettlementRequestSchema,
+  updateSettlementTransferRequestSchema,
+  type GetSettlementResponse,
+  type PlanSettlementResponse,
+  type UpdateSettlementTransferResponse,
+} from "@/shared/contracts";
+import { type SettlementTransfer } from "../../generated/prisma";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatSettlementTransfer } from "../lib/serializers";
+import {
+  applyCompletedTransfers,
+  calculateElectronicPositions,
+  planSettlement,
+  type PlannedTransfer,
+} from "../lib/settlement";
+
+const settlementsRouter = new Hono<AppType>();
+
+// Apply auth middleware to all settlement routes
+settlementsRouter.use("*", requireAuth);
+
+const toPlannedTransfer = (t: SettlementTransfer): PlannedTransfer => ({
+  from: { playerId: t.fromPlayerId, name: t.fromName },
+  to: { playerId: t.toPlayerId, name: t.toName },
+  amount: t.amount,
+});
+
+// ============================================
+// GET /api/settlements/:sessionId - Get the settlement transfers for a game
+// ============================================
+settlementsRouter.get("/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🤝 [Settlements] Getting transfers for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: {
+      settlementTransfers: { orderBy: { createdAt: "asc" } },
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  return c.json({
+    transfers: gameSession.settlementTransfers.map((t) => formatSettlementTransfer(t, gameSession.currency)),
+  } satisfies GetSettlementResponse);
+});
+
+// ============================================
+// POST /api/settlements/:sessionId - Work out the transfers still needed
+// ============================================
+settlementsRouter.post("/:sessionId", zValidator("json", planSettlementRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const { mode } = c.req.valid("json");
+  console.log(`🤝 [Settlements] Planning ${mode} settlement for session: ${sessionId} (user: ${user.email})`);
+
+  // Only the host settles their game
+  const gameSession = await db.gameSession.findFirst({
+    where: { id: sessionId, userId: user.id },
+    include: {
+      playerTransactions: { include: { player: { select: { name: true } } } },
+      settlementTransfers: true,
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  // Transfers already made stay; everything pending is replaced by a fresh plan
+  const completed = gameSession.settlementTransfers.filter((t) => t.completed);
+  const positions = applyCompletedTransfers(
+    calculateElectronicPositions(gameSession.playerTransactions),
+    completed.map(toPlannedTransfer),
+  );
+  const planned = planSettlement(positions, mode);
+
+  const [, , transfers] = await db.$transaction([
+    db.settlementTransfer.deleteMany({
+      where: { gameSessionId: sessionId, completed: false },
+    }),
+    db.settlementTransfer.createMany({
+      data: planned.map((t) => ({
+        mode,
+        amount: t.amount,
+        fromPlayerId: t.from.playerId,
+        fromName: t.from.name,
+        toPlayerId: t.to.playerId,
+        toName: t.to.name,
+        gameSessionId: sessionId,
+      })),
+    }),
+    db.settlementTransfer.findMany({
+      where: { gameSessionId: sessionId },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  console.log(`🤝 [Settlements] ${planned.length} transfers needed (${completed.length} already completed)`);
+
+  return c.json({
+    transfers: transfers.map((t) => formatSettlementTransfer(t, gameSession.currency)),
+  } satisfies PlanSettlementResponse);
+});
+
+// ============================================
+// PUT /api/settlements/transfer/:id - Mark a transfer as completed (or not)
+// ============================================
+settlementsRouter.put(
+  "/transfer/:id",
+  zValidator("json", updateSettlementTransferRequestSchema),
+  async (c) => {
+    const user = c.get("user")!;
+    const id = c.req.param("id");
+    const { completed } = c.req.valid("json");
+    console.log(`🤝 [Settlements] Marking transfer ${id} as ${completed ? "completed" : "not completed"} (user: ${user.email})`);
+
+    // Verify the transfer belongs to a session owned by this user
+    const existingTransfer = await db.settlementTransfer.findUnique({
+      where: { id },
+      include: { gameSession: true },
+    });
+
+    if (!existingTransfer || existingTransfer.gameSession.userId !== user.id) {
+      return c.json({ error: "Transfer not found" }, 404);
+    }
+
+    const transfer = await db.settlementTransfer.update({
+      where: { id },
+      data: {
+        completed,
+        completedAt: completed ? new Date() : null,
+      },
+    });
+
+    console.log(`🤝 [Settlements] Transfer updated: ${transfer.id}`);
+
+    return c.json({
+      transfer: formatSettlementTransfer(transfer, existingTransfer.gameSession.currency),
+    } satisfies UpdateSettlementTransferResponse);
+  },
+);
+
+export { settlementsRouter };
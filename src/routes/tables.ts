@@ -0,0 +1,322 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  createTableRequestSchema,
+  moveTableRequestSchema,
+  updateTableRequestSchema,
+  type CloseTableResponse,
+  type CreateTableResponse,
+  type DeleteTableResponse,
+  type GetTableMovesResponse,
+  type GetTablesResponse,
+  type MoveTableResponse,
+  type UpdateTableResponse,
+} from "@/shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatGameTable, formatTableMove } from "../lib/serializers";
+import { resolvePlayerId } from "../lib/playerRegistry";
+import { resolveTableId } from "../lib/tables";
+import { closeDealerBoxes } from "../lib/rotation";
+import { userInitials } from "../lib/userInitials";
+
+const tablesRouter = new Hono<AppType>();
+
+// Apply auth middleware to all table routes
+tablesRouter.use("*", requireAuth);
+
+// ============================================
+// POST /api/tables - Open a table
+// ============================================
+tablesRouter.post("/", zValidator("json", createTableRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🃏 [Tables] Opening table: ${data.name} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  if (!gameSession.isActive) {
+    return c.json({ error: "Game session is not active" }, 400);
+  }
+
+  const table = await db.gameTable.create({
+    data: {
+      name: data.name,
+      stakes: data.stakes ?? null,
+      gameType: data.gameType ?? "NLH",
+      gameSessionId: data.gameSessionId,
+    },
+  });
+
+  console.log(`🃏 [Tables] Table opened: ${table.id}`);
+
+  return c.json({ table: formatGameTable(table) } satisfies CreateTableResponse);
+});
+
+// ============================================
+// GET /api/tables/:sessionId - Get the tables of a game
+// ============================================
+tablesRouter.get("/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🃏 [Tables] Getting tables for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { tables: { orderBy: { openedAt: "asc" } } },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  return c.json({ tables: gameSession.tables.map(formatGameTable) } satisfies GetTablesResponse);
+});
+
+// ============================================
+// PUT /api/tables/:id - Update a table
+// ============================================
+tablesRouter.put("/:id", zValidator("json", updateTableRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const data = c.req.valid("json");
+  console.log(`🃏 [Tables] Updating table: ${id} (user: ${user.email})`);
+
+  // Verify the table belongs to a session owned by this user
+  const existingTable = await db.gameTable.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!existingTable || existingTable.gameSession.userId !== user.id) {
+    return c.json({ error: "Table not found" }, 404);
+  }
+
+  const table = await db.gameTable.update({
+    where: { id },
+    data: {
+      name: data.name,
+      stakes: data.stakes,
+      gameType: data.gameType,
+    },
+  });
+
+  console.log(`🃏 [Tables] Table updated: ${table.id}`);
+
+  return c.json({ table: formatGameTable(table) } satisfies UpdateTableResponse);
+});
+
+// ============================================
+// PUT /api/tables/:id/close - Close a table
+// ============================================
+tablesRouter.put("/:id/close", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🃏 [Tables] Closing table: ${id} (user: ${user.email})`);
+
+  // Verify the table belongs to a session owned by this user
+  const existingTable = await db.gameTable.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!existingTable || existingTable.gameSession.userId !== user.id) {
+    return c.json({ error: "Table not found" }, 404);
+  }
+
+  const closedAt = existingTable.closedAt ?? new Date();
+
+  // The dealer's down ends with the table
+  await closeDealerBoxes(existingTable.gameSessionId, closedAt, id);
+
+  const table = await db.gameTable.update({
+    where: { id },
+    data: { closedAt },
+  });
+
+  console.log(`🃏 [Tables] Table closed: ${table.id}`);
+
+  return c.json({ table: formatGameTable(table) } satisfies CloseTableResponse);
+});
+
+// ============================================
+// PUT /api/tables/:id/reopen - Reopen a closed table
+// ============================================
+tablesRouter.put("/:id/reopen", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🃏 [Tables] Reopening table: ${id} (user: ${user.email})`);
+
+  // Verify the table belongs to a session owned by this user
+  const existingTable = await db.gameTable.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!existingTable || existingTable.gameSession.userId !== user.id) {
+    return c.json({ error: "Table not found" }, 404);
+  }
+
+  if (!existingTable.gameSession.isActive) {
+    return c.json({ error: "Game session is not active" }, 400);
+  }
+
+  const table = await db.gameTable.update({
+    where: { id },
+    data: { closedAt: null },
+  });
+
+  console.log(`🃏 [Tables] Table reopened: ${table.id}`);
+
+  return c.json({ table: formatGameTable(table) } satisfies CloseTableResponse);
+});
+
+// ============================================
+// DELETE /api/tables/:id - Delete a table opened by mistake
+// ============================================
+tablesRouter.delete("/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🃏 [Tables] Deleting table: ${id} (user: ${user.email})`);
+
+  // Verify the table belongs to a session owned by this user
+  const existingTable = await db.gameTable.findUnique({
+    where: { id },
+    include: {
+      gameSession: true,
+      _count: { select: { playerTransactions: true, dealerDowns: true } },
+    },
+  });
+
+  if (!existingTable || existingTable.gameSession.userId !== user.id) {
+    return c.json({ error: "Table not found" }, 404);
+  }
+
+  // Tables with history are closed, not deleted, so the per-table breakdown stays intact
+  if (existingTable._count.playerTransactions > 0 || existingTable._count.dealerDowns > 0) {
+    return c.json({ error: "Table has transactions or dealer downs - close it instead" }, 400);
+  }
+
+  await db.gameTable.delete({ where: { id } });
+
+  console.log(`🃏 [Tables] Table deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteTableResponse);
+});
+
+// ============================================
+// POST /api/tables/moves - Move a player to another table
+// ============================================
+tablesRouter.post("/moves", zValidator("json", moveTableRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🃏 [Tables] Moving ${data.playerName} to table: ${data.toTableId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const toTable = await db.gameTable.findFirst({
+    where: { id: data.toTableId, gameSessionId: data.gameSessionId },
+  });
+
+  if (!toTable) {
+    return c.json({ error: "Table not found" }, 404);
+  }
+
+  if (toTable.closedAt) {
+    return c.json({ error: "Table is closed" }, 400);
+  }
+
+  // Players belong to the host's registry, even when a member records the move
+  const playerId = await resolvePlayerId(gameSession.userId, data.playerName, data.playerId);
+  if (!playerId) {
+    return c.json({ error: "Player not found" }, 404);
+  }
+
+  // Where the player was sitting before the move
+  const fromTableId = (await resolveTableId(data.gameSessionId, undefined, playerId)) ?? null;
+
+  if (fromTableId === toTable.id) {
+    return c.json({ error: `${data.playerName} is already at ${toTable.name}` }, 400);
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const move = await db.tableMove.create({
+    data: {
+      playerName: data.playerName,
+      playerId,
+      fromTableId,
+      toTableId: toTable.id,
+      createdByInitials: initials,
+      gameSessionId: data.gameSessionId,
+    },
+  });
+
+  console.log(`🃏 [Tables] ${data.playerName} moved to ${toTable.name}: ${move.id} by ${initials}`);
+
+  return c.json({ move: formatTableMove(move) } satisfies MoveTableResponse);
+});
+
+// ============================================
+// GET /api/tables/:sessionId/moves - Get all table moves of a game
+// ============================================
+tablesRouter.get("/:sessionId/moves", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🃏 [Tables] Getting table moves for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { tableMoves: { orderBy: { movedAt: "asc" } } },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  return c.json({ moves: gameSession.tableMoves.map(formatTableMove) } satisfies GetTableMovesResponse);
+});
+
+export { tablesRouter };
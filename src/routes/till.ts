@@ -0,0 +1,190 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  addTillCountRequestSchema,
+  type AddTillCountResponse,
+  type DeleteTillCountResponse,
+  type GetDenominationsResponse,
+  type GetTillCountsResponse,
+} from "@/shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatTillCount } from "../lib/serializers";
+import { calculateSessionLedger, ledgerInclude } from "../lib/ledger";
+import { countTotal, denominationsFor } from "../lib/denominations";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import { userInitials } from "../lib/userInitials";
+
+const tillRouter = new Hono<AppType>();
+
+// Apply auth middleware to all till routes
+tillRouter.use("*", requireAuth);
+
+// ============================================
+// GET /api/till/denominations/:sessionId - Bills and coins of the session currency
+// ============================================
+tillRouter.get("/denominations/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🧮 [Till] Getting denominations for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  return c.json({
+    currency: gameSession.currency,
+    denominations: denominationsFor(gameSession.currency).map((d) => ({
+      value: fromMinorUnits(d.value, gameSession.currency),
+      kind: d.kind,
+    })),
+  } satisfies GetDenominationsResponse);
+});
+
+// ============================================
+// GET /api/till/:sessionId/counts - Timeline of till counts for a session
+// ============================================
+tillRouter.get("/:sessionId/counts", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🧮 [Till] Getting till counts for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: {
+      tillCounts: {
+        orderBy: { countedAt: "asc" },
+        include: { items: true },
+      },
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const counts = gameSession.tillCounts.map((t) => formatTillCount(t, gameSession.currency));
+
+  return c.json({
+    counts,
+    closingCount: counts.find((t) => t.isClosing) ?? null,
+  } satisfies GetTillCountsResponse);
+});
+
+// ============================================
+// POST /api/till/counts - Record a till count
+// ============================================
+tillRouter.post("/counts", zValidator("json", addTillCountRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🧮 [Till] Recording ${data.isClosing ? "closing" : "interim"} till count for session: ${data.gameSessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: ledgerInclude,
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  // Every line must be a real bill or coin of the session currency
+  const { currency } = gameSession;
+  const validValues = new Set(denominationsFor(currency).map((d) => d.value));
+  const items = data.items
+    .map((item) => ({ value: toMinorUnits(item.value, currency), quantity: item.quantity }))
+    .filter((item) => item.quantity > 0);
+
+  const unknown = items.find((item) => !validValues.has(item.value));
+  if (unknown) {
+    return c.json({ error: `${fromMinorUnits(unknown.value, currency)} is not a ${currency} denomination` }, 400);
+  }
+
+  // Compare against what the ledger says the till holds right now
+  const total = countTotal(items);
+  const expected = toMinorUnits(calculateSessionLedger(gameSession).tillBalance, currency);
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  // A session has one closing count - a new one replaces the last
+  const count = await db.$transaction(async (tx) => {
+    if (data.isClosing) {
+      await tx.tillCount.updateMany({
+        where: { gameSessionId: data.gameSessionId, isClosing: true },
+        data: { isClosing: false },
+      });
+    }
+    return tx.tillCount.create({
+      data: {
+        total,
+        expected,
+        variance: total - expected,
+        isClosing: data.isClosing,
+        notes: data.notes ?? null,
+        gameSessionId: data.gameSessionId,
+        createdById: user.id,
+        createdByInitials: initials,
+        items: { create: items },
+      },
+      include: { items: true },
+    });
+  });
+
+  console.log(`🧮 [Till] Till count recorded: ${count.id} by ${initials}, variance ${count.variance}`);
+
+  return c.json({ count: formatTillCount(count, currency) } satisfies AddTillCountResponse);
+});
+
+// ============================================
+// DELETE /api/till/counts/:id - Delete a till count
+// ============================================
+tillRouter.delete("/counts/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🧮 [Till] Deleting till count: ${id} (user: ${user.email})`);
+
+  // Verify the count belongs to a session owned by this user
+  const existingCount = await db.tillCount.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!existingCount || existingCount.gameSession.userId !== user.id) {
+    return c.json({ error: "Till count not found" }, 404);
+  }
+
+  await db.tillCount.delete({ where: { id } });
+
+  console.log(`🧮 [Till] Till count deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteTillCountResponse);
+});
+
+export { tillRouter };
@@ -0,0 +1,302 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  collectTimeRequestSchema,
+  seatInRequestSchema,
+  seatOutRequestSchema,
+  setTimeConfigRequestSchema,
+  type CollectTimeResponse,
+  type DeleteTimeCollectionResponse,
+  type GetTimeStatusResponse,
+  type SeatInResponse,
+  type SeatOutResponse,
+  type SetTimeConfigResponse,
+} from "@/shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatGameSession, formatPlayerSeat, formatTimeCollection } from "../lib/serializers";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import { accrueTimeFees } from "../lib/timeCharges";
+import { resolvePlayerId } from "../lib/playerRegistry";
+import { resolveTableId } from "../lib/tables";
+import { userInitials } from "../lib/userInitials";
+
+const timeRouter = new Hono<AppType>();
+
+// Apply auth middleware to all time routes
+timeRouter.use("*", requireAuth);
+
+// ============================================
+// GET /api/time/:sessionId - Seats, collections and fees owed per player
+// ============================================
+timeRouter.get("/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`⏱️ [Time] Getting seat time for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: {
+      playerSeats: { orderBy: { seatedAt: "asc" } },
+      timeCollections: { orderBy: { collectedAt: "asc" } },
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  // Seat time stops counting once the game has ended
+  const now = gameSession.endedAt ?? new Date();
+  const players = accrueTimeFees(gameSession.playerSeats, gameSession.timeCollections, gameSession, now);
+  const total = (field: "accrued" | "collected" | "owed") => players.reduce((sum, p) => sum + p[field], 0);
+  const major = (minor: number) => fromMinorUnits(minor, gameSession.currency);
+
+  return c.json({
+    revenueMode: gameSession.revenueMode as "rake" | "time",
+    timeFee: major(gameSession.timeFee),
+    timeFeeMinutes: gameSession.timeFeeMinutes,
+    seats: gameSession.playerSeats.map(formatPlayerSeat),
+    collections: gameSession.timeCollections.map((t) => formatTimeCollection(t, gameSession.currency)),
+    players: players.map((p) => ({
+      ...p,
+      accrued: major(p.accrued),
+      collected: major(p.collected),
+      owed: major(p.owed),
+    })),
+    totalAccrued: major(total("accrued")),
+    totalCollected: major(total("collected")),
+    totalOwed: major(total("owed")),
+  } satisfies GetTimeStatusResponse);
+});
+
+// ============================================
+// PUT /api/time/:sessionId/config - Switch revenue mode and set the seat fee
+// ============================================
+timeRouter.put("/:sessionId/config", zValidator("json", setTimeConfigRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const data = c.req.valid("json");
+  console.log(`⏱️ [Time] Setting revenue mode to ${data.revenueMode} for session: ${sessionId} (user: ${user.email})`);
+
+  // Only the host decides how the house earns
+  const gameSession = await db.gameSession.findFirst({
+    where: { id: sessionId, userId: user.id },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  // Changing the fee re-prices all seat time in the game, not just time from now on
+  const updated = await db.gameSession.update({
+    where: { id: sessionId },
+    data: {
+      revenueMode: data.revenueMode,
+      ...(data.timeFee !== undefined && { timeFee: toMinorUnits(data.timeFee, gameSession.currency) }),
+      ...(data.timeFeeMinutes !== undefined && { timeFeeMinutes: data.timeFeeMinutes }),
+    },
+  });
+
+  console.log(`⏱️ [Time] Session ${sessionId} now in ${updated.revenueMode} mode, fee ${updated.timeFee} (minor units) per ${updated.timeFeeMinutes} min`);
+
+  return c.json({ session: formatGameSession(updated) } satisfies SetTimeConfigResponse);
+});
+
+// ============================================
+// POST /api/time/seat-in - Start a player's seat time
+// ============================================
+timeRouter.post("/seat-in", zValidator("json", seatInRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`⏱️ [Time] Seating ${data.playerName} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  if (!gameSession.isActive) {
+    return c.json({ error: "Game session is not active" }, 400);
+  }
+
+  if (gameSession.revenueMode !== "time") {
+    return c.json({ error: "This game is raked, not charged by time" }, 400);
+  }
+
+  // Players belong to the host's registry, whoever records the seat
+  const playerId = await resolvePlayerId(gameSession.userId, data.playerName);
+  const alreadySeated = await db.playerSeat.findFirst({
+    where: { gameSessionId: data.gameSessionId, playerId, leftAt: null },
+  });
+  if (alreadySeated) {
+    return c.json({ error: `${data.playerName} is already seated` }, 400);
+  }
+
+  const tableId = await resolveTableId(data.gameSessionId, data.tableId, playerId);
+  if (tableId === undefined) {
+    return c.json({ error: "Table not found" }, 404);
+  }
+
+  const seat = await db.playerSeat.create({
+    data: {
+      playerName: data.playerName.trim(),
+      playerId,
+      tableId,
+      gameSessionId: data.gameSessionId,
+    },
+  });
+
+  console.log(`⏱️ [Time] ${seat.playerName} seated: ${seat.id}`);
+
+  return c.json({ seat: formatPlayerSeat(seat) } satisfies SeatInResponse);
+});
+
+// ============================================
+// POST /api/time/seat-out - Stop a player's seat time
+// ============================================
+timeRouter.post("/seat-out", zValidator("json", seatOutRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const { seatId } = c.req.valid("json");
+  console.log(`⏱️ [Time] Seating out: ${seatId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const existing = await db.playerSeat.findFirst({
+    where: {
+      id: seatId,
+      gameSession: {
+        OR: [
+          { userId: user.id },
+          { members: { some: { userId: user.id } } },
+        ],
+      },
+    },
+  });
+
+  if (!existing) {
+    return c.json({ error: "Seat not found" }, 404);
+  }
+
+  if (existing.leftAt) {
+    return c.json({ error: `${existing.playerName} has already left` }, 400);
+  }
+
+  const seat = await db.playerSeat.update({
+    where: { id: seatId },
+    data: { leftAt: new Date() },
+  });
+
+  console.log(`⏱️ [Time] ${seat.playerName} seated out: ${seat.id}`);
+
+  return c.json({ seat: formatPlayerSeat(seat) } satisfies SeatOutResponse);
+});
+
+// ============================================
+// POST /api/time/collections - Record seat fees collected from a player
+// ============================================
+timeRouter.post("/collections", zValidator("json", collectTimeRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`⏱️ [Time] Collecting time from ${data.playerName} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { playerSeats: true, timeCollections: true },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const playerId = await resolvePlayerId(gameSession.userId, data.playerName);
+
+  // Without an amount, collect whatever the player owes right now
+  let amount: number;
+  if (data.amount !== undefined) {
+    amount = toMinorUnits(data.amount, gameSession.currency);
+  } else {
+    const owed = accrueTimeFees(
+      gameSession.playerSeats.filter((s) => s.playerId === playerId),
+      gameSession.timeCollections.filter((t) => t.playerId === playerId),
+      gameSession,
+      gameSession.endedAt ?? new Date(),
+    )[0]?.owed ?? 0;
+    if (owed <= 0) {
+      return c.json({ error: `${data.playerName} doesn't owe any time` }, 400);
+    }
+    amount = owed;
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const collection = await db.timeCollection.create({
+    data: {
+      playerName: data.playerName.trim(),
+      playerId,
+      amount,
+      method: data.method,
+      gameSessionId: data.gameSessionId,
+      createdById: user.id,
+      createdByInitials: initials,
+    },
+  });
+
+  console.log(`⏱️ [Time] Collected ${amount} (minor units) ${data.method} from ${collection.playerName}: ${collection.id} by ${initials}`);
+
+  return c.json({
+    collection: formatTimeCollection(collection, gameSession.currency),
+  } satisfies CollectTimeResponse);
+});
+
+// ============================================
+// DELETE /api/time/collections/:id - Delete a collection
+// ============================================
+timeRouter.delete("/collections/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`⏱️ [Time] Deleting collection: ${id} (user: ${user.email})`);
+
+  // Verify the collection belongs to a session owned by this user
+  const collection = await db.timeCollection.findUnique({
+    where: { id },
+    include: { gameSession: true },
+  });
+
+  if (!collection || collection.gameSession.userId !== user.id) {
+    return c.json({ error: "Collection not found" }, 404);
+  }
+
+  await db.timeCollection.delete({ where: { id } });
+
+  console.log(`⏱️ [Time] Collection deleted: ${id}`);
+
+  return c.json({ success: true } satisfies DeleteTimeCollectionResponse);
+});
+
+export { timeRouter };
@@ -0,0 +1,524 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  payTournamentPrizesRequestSchema,
+  registerTournamentPlayerRequestSchema,
+  setTournamentRequestSchema,
+  tournamentBuyInRequestSchema,
+  type BustTournamentPlayerResponse,
+  type GetTournamentResponse,
+  type PayTournamentPrizesResponse,
+  type RegisterTournamentPlayerResponse,
+  type SetTournamentResponse,
+  type Tournament,
+  type TournamentBuyInResponse,
+} from "@/shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { requireAuth } from "../middleware/requireAuth";
+import { formatTournamentEntry } from "../lib/serializers";
+import { fromMinorUnits, toMinorUnits } from "../lib/money";
+import {
+  canAddOn,
+  canRebuy,
+  finishPositions,
+  payoutAmounts,
+  payoutTable,
+  prizePool,
+  prizesPaid,
+  windowOpen,
+} from "../lib/tournaments";
+import { resolvePlayerId } from "../lib/playerRegistry";
+import { resolveTableId } from "../lib/tables";
+import { userInitials } from "../lib/userInitials";
+
+const tournamentsRouter = new Hono<AppType>();
+
+// Apply auth middleware to all tournament routes
+tournamentsRouter.use("*", requireAuth);
+
+const entryInclude = { payoutTransaction: { select: { amount: true } } } as const;
+
+async function loadTournament(gameSessionId: string, currency: string, now: Date): Promise<Tournament | null> {
+  const tournament = await db.tournament.findUnique({
+    where: { gameSessionId },
+    include: { entries: { include: entryInclude, orderBy: { registeredAt: "asc" } } },
+  });
+  if (!tournament) return null;
+
+  const major = (minor: number) => fromMinorUnits(minor, currency);
+  const entries = tournament.entries;
+  const positions = finishPositions(entries);
+  const percentages = payoutTable(tournament.payoutPercentages, entries.length);
+  const prizes = payoutAmounts(prizePool(entries), percentages);
+
+  return {
+    id: tournament.id,
+    entryFee: major(tournament.entryFee),
+    houseFee: major(tournament.houseFee),
+    rebuyFee: major(tournament.rebuyFee),
+    rebuyHouseFee: major(tournament.rebuyHouseFee),
+    maxRebuys: tournament.maxRebuys,
+    rebuysUntil: tournament.rebuysUntil?.toISOString() ?? null,
+    addOnFee: major(tournament.addOnFee),
+    addOnHouseFee: major(tournament.addOnHouseFee),
+    addOnsFrom: tournament.addOnsFrom?.toISOString() ?? null,
+    addOnsUntil: tournament.addOnsUntil?.toISOString() ?? null,
+    payoutPercentages: tournament.payoutPercentages,
+    rebuysOpen: tournament.rebuyFee > 0 && windowOpen(null, tournament.rebuysUntil, now),
+    addOnsOpen: tournament.addOnFee > 0 && windowOpen(tournament.addOnsFrom, tournament.addOnsUntil, now),
+    prizePool: major(prizePool(entries)),
+    houseFees: major(entries.reduce((sum, e) => sum + e.houseFeesPaid, 0)),
+    playersRegistered: entries.length,
+    playersRemaining: entries.filter((e) => !e.bustedAt).length,
+    entries: entries.map((e) => formatTournamentEntry(e, positions.get(e.id) ?? null, currency)),
+    payouts: percentages.map((percentage, i) => {
+      const entry = entries.find((e) => positions.get(e.id) === i + 1);
+      return {
+        place: i + 1,
+        percentage,
+        amount: major(prizes[i]!),
+        entryId: entry?.id ?? null,
+        playerName: entry?.playerName ?? null,
+        paid: !!entry?.payoutTransactionId,
+      };
+    }),
+  };
+}
+
+/**
+ * The entry with its tournament, if the user can see the game
+ */
+async function findEntry(id: string, userId: string) {
+  return db.tournamentEntry.findFirst({
+    where: {
+      id,
+      tournament: {
+        gameSession: {
+          OR: [
+            { userId },
+            { members: { some: { userId } } },
+          ],
+        },
+      },
+    },
+    include: { tournament: { include: { gameSession: true, entries: true } } },
+  });
+}
+
+// ============================================
+// GET /api/tournaments/:sessionId - Get the tournament (null for cash games)
+// ============================================
+tournamentsRouter.get("/:sessionId", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  console.log(`🏆 [Tournaments] Getting tournament for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  return c.json({
+    tournament: await loadTournament(sessionId, gameSession.currency, new Date()),
+  } satisfies GetTournamentResponse);
+});
+
+// ============================================
+// PUT /api/tournaments/:sessionId - Set up the tournament (turns the game into a tournament)
+// ============================================
+tournamentsRouter.put("/:sessionId", zValidator("json", setTournamentRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const data = c.req.valid("json");
+  console.log(`🏆 [Tournaments] Setting up tournament with entry fee ${data.entryFee} for session: ${sessionId} (user: ${user.email})`);
+
+  // Only the host sets up the tournament
+  const gameSession = await db.gameSession.findFirst({
+    where: { id: sessionId, userId: user.id },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  const minor = (value: number | string) => toMinorUnits(value, gameSession.currency);
+  // Players already registered keep what they paid - new fees apply from now on
+  const fields = {
+    entryFee: minor(data.entryFee),
+    houseFee: minor(data.houseFee),
+    rebuyFee: minor(data.rebuyFee),
+    rebuyHouseFee: minor(data.rebuyHouseFee),
+    maxRebuys: data.maxRebuys,
+    rebuysUntil: data.rebuysUntil ? new Date(data.rebuysUntil) : null,
+    addOnFee: minor(data.addOnFee),
+    addOnHouseFee: minor(data.addOnHouseFee),
+    addOnsFrom: data.addOnsFrom ? new Date(data.addOnsFrom) : null,
+    addOnsUntil: data.addOnsUntil ? new Date(data.addOnsUntil) : null,
+    payoutPercentages: data.payoutPercentages,
+  };
+
+  await db.$transaction([
+    db.tournament.upsert({
+      where: { gameSessionId: sessionId },
+      create: { ...fields, gameSessionId: sessionId },
+      update: fields,
+    }),
+    db.gameSession.update({
+      where: { id: sessionId },
+      data: { sessionType: "tournament" },
+    }),
+  ]);
+
+  console.log(`🏆 [Tournaments] Tournament set up for session: ${sessionId}`);
+
+  return c.json({
+    tournament: (await loadTournament(sessionId, gameSession.currency, new Date()))!,
+  } satisfies SetTournamentResponse);
+});
+
+// ============================================
+// POST /api/tournaments/register - Register a player, recording the entry as a buy-in
+// ============================================
+tournamentsRouter.post("/register", zValidator("json", registerTournamentPlayerRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const data = c.req.valid("json");
+  console.log(`🏆 [Tournaments] Registering ${data.playerName} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: data.gameSessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { tournament: { include: { entries: true } } },
+  });
+
+  if (!gameSession) {
+    return c.json({ error: "Game session not found" }, 404);
+  }
+
+  if (!gameSession.isActive) {
+    return c.json({ error: "Game session is not active" }, 400);
+  }
+
+  const tournament = gameSession.tournament;
+  if (!tournament) {
+    return c.json({ error: "Set up the tournament for this game first" }, 400);
+  }
+
+  if ([...finishPositions(tournament.entries).values()].includes(1)) {
+    return c.json({ error: "The tournament is over" }, 400);
+  }
+
+  // Paid places are final - a new entry would shift the finishing order under them
+  if (prizesPaid(tournament.entries)) {
+    return c.json({ error: "Registration is closed once prizes have been paid" }, 400);
+  }
+
+  // Players belong to the host's registry, even when a member registers them
+  const playerId = await resolvePlayerId(gameSession.userId, data.playerName, data.playerId);
+  if (!playerId) {
+    return c.json({ error: "Player not found" }, 404);
+  }
+
+  if (tournament.entries.some((e) => e.playerId === playerId)) {
+    return c.json({ error: `${data.playerName} is already registered` }, 400);
+  }
+
+  const tableId = (await resolveTableId(data.gameSessionId, undefined, playerId)) ?? null;
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  const [, entry] = await db.$transaction([
+    db.playerTransaction.create({
+      data: {
+        playerName: data.playerName,
+        playerId,
+        tableId,
+        type: "buy-in",
+        amount: tournament.entryFee + tournament.houseFee,
+        paymentMethod: data.paymentMethod,
+        isPaid: data.paymentMethod !== "credit",
+        notes: "Tournament entry",
+        gameSessionId: data.gameSessionId,
+        createdById: user.id,
+        createdByInitials: initials,
+      },
+    }),
+    db.tournamentEntry.create({
+      data: {
+        playerName: data.playerName.trim(),
+        playerId,
+        prizeContributed: tournament.entryFee,
+        houseFeesPaid: tournament.houseFee,
+        tournamentId: tournament.id,
+      },
+    }),
+  ]);
+
+  console.log(`🏆 [Tournaments] ${entry.playerName} registered: ${entry.id} by ${initials}`);
+
+  return c.json({
+    tournament: (await loadTournament(data.gameSessionId, gameSession.currency, new Date()))!,
+  } satisfies RegisterTournamentPlayerResponse);
+});
+
+// ============================================
+// POST /api/tournaments/entries/:id/rebuy - Rebuy, recorded as a buy-in (brings a busted player back)
+// ============================================
+tournamentsRouter.post("/entries/:id/rebuy", zValidator("json", tournamentBuyInRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const { paymentMethod } = c.req.valid("json");
+  console.log(`🏆 [Tournaments] Rebuy for entry: ${id} (user: ${user.email})`);
+
+  const entry = await findEntry(id, user.id);
+  if (!entry) {
+    return c.json({ error: "Entry not found" }, 404);
+  }
+
+  const { tournament } = entry;
+  if (!tournament.gameSession.isActive) {
+    return c.json({ error: "Game session is not active" }, 400);
+  }
+
+  const now = new Date();
+  if (!canRebuy(tournament, entry, now)) {
+    return c.json({ error: "Rebuys are closed for this player" }, 400);
+  }
+
+  // Paid places are final - a rebuy would shift the finishing order under them
+  if (prizesPaid(tournament.entries)) {
+    return c.json({ error: "Rebuys are closed once prizes have been paid" }, 400);
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  await db.$transaction([
+    db.playerTransaction.create({
+      data: {
+        playerName: entry.playerName,
+        playerId: entry.playerId,
+        type: "buy-in",
+        amount: tournament.rebuyFee + tournament.rebuyHouseFee,
+        paymentMethod,
+        isPaid: paymentMethod !== "credit",
+        notes: "Tournament rebuy",
+        gameSessionId: tournament.gameSessionId,
+        createdById: user.id,
+        createdByInitials: initials,
+      },
+    }),
+    db.tournamentEntry.update({
+      where: { id },
+      data: {
+        rebuys: { increment: 1 },
+        prizeContributed: { increment: tournament.rebuyFee },
+        houseFeesPaid: { increment: tournament.rebuyHouseFee },
+        bustedAt: null,
+      },
+    }),
+  ]);
+
+  console.log(`🏆 [Tournaments] ${entry.playerName} rebought (${entry.rebuys + 1} rebuys) by ${initials}`);
+
+  return c.json({
+    tournament: (await loadTournament(tournament.gameSessionId, tournament.gameSession.currency, now))!,
+  } satisfies TournamentBuyInResponse);
+});
+
+// ============================================
+// POST /api/tournaments/entries/:id/add-on - Take the add-on, recorded as a buy-in
+// ============================================
+tournamentsRouter.post("/entries/:id/add-on", zValidator("json", tournamentBuyInRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  const { paymentMethod } = c.req.valid("json");
+  console.log(`🏆 [Tournaments] Add-on for entry: ${id} (user: ${user.email})`);
+
+  const entry = await findEntry(id, user.id);
+  if (!entry) {
+    return c.json({ error: "Entry not found" }, 404);
+  }
+
+  const { tournament } = entry;
+  if (!tournament.gameSession.isActive) {
+    return c.json({ error: "Game session is not active" }, 400);
+  }
+
+  const now = new Date();
+  if (!canAddOn(tournament, entry, now)) {
+    return c.json({ error: "The add-on isn't available for this player" }, 400);
+  }
+
+  // Paid prizes came out of the pool as it stood - an add-on would grow it after the fact
+  if (prizesPaid(tournament.entries)) {
+    return c.json({ error: "Add-ons are closed once prizes have been paid" }, 400);
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  await db.$transaction([
+    db.playerTransaction.create({
+      data: {
+        playerName: entry.playerName,
+        playerId: entry.playerId,
+        type: "buy-in",
+        amount: tournament.addOnFee + tournament.addOnHouseFee,
+        paymentMethod,
+        isPaid: paymentMethod !== "credit",
+        notes: "Tournament add-on",
+        gameSessionId: tournament.gameSessionId,
+        createdById: user.id,
+        createdByInitials: initials,
+      },
+    }),
+    db.tournamentEntry.update({
+      where: { id },
+      data: {
+        addOns: { increment: 1 },
+        prizeContributed: { increment: tournament.addOnFee },
+        houseFeesPaid: { increment: tournament.addOnHouseFee },
+      },
+    }),
+  ]);
+
+  console.log(`🏆 [Tournaments] ${entry.playerName} took the add-on by ${initials}`);
+
+  return c.json({
+    tournament: (await loadTournament(tournament.gameSessionId, tournament.gameSession.currency, now))!,
+  } satisfies TournamentBuyInResponse);
+});
+
+// ============================================
+// POST /api/tournaments/entries/:id/bust - Bust a player out
+// ============================================
+tournamentsRouter.post("/entries/:id/bust", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+  console.log(`🏆 [Tournaments] Busting entry: ${id} (user: ${user.email})`);
+
+  const entry = await findEntry(id, user.id);
+  if (!entry) {
+    return c.json({ error: "Entry not found" }, 404);
+  }
+
+  const { tournament } = entry;
+  if (!tournament.gameSession.isActive) {
+    return c.json({ error: "Game session is not active" }, 400);
+  }
+
+  if (entry.bustedAt) {
+    return c.json({ error: `${entry.playerName} is already out` }, 400);
+  }
+
+  // The last player standing is the winner, not busted
+  if (tournament.entries.filter((e) => !e.bustedAt).length <= 1) {
+    return c.json({ error: `${entry.playerName} is the last player left` }, 400);
+  }
+
+  const now = new Date();
+  await db.tournamentEntry.update({ where: { id }, data: { bustedAt: now } });
+
+  console.log(`🏆 [Tournaments] ${entry.playerName} busted out`);
+
+  return c.json({
+    tournament: (await loadTournament(tournament.gameSessionId, tournament.gameSession.currency, now))!,
+  } satisfies BustTournamentPlayerResponse);
+});
+
+// ============================================
+// POST /api/tournaments/:sessionId/payouts - Pay every finisher in the money not yet paid, as cashouts
+// ============================================
+tournamentsRouter.post("/:sessionId/payouts", zValidator("json", payTournamentPrizesRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("sessionId");
+  const { paymentMethod } = c.req.valid("json");
+  console.log(`🏆 [Tournaments] Paying prizes for session: ${sessionId} (user: ${user.email})`);
+
+  // Verify user has access (owner or member)
+  const gameSession = await db.gameSession.findFirst({
+    where: {
+      id: sessionId,
+      OR: [
+        { userId: user.id },
+        { members: { some: { userId: user.id } } },
+      ],
+    },
+    include: { tournament: { include: { entries: true } } },
+  });
+
+  if (!gameSession?.tournament) {
+    return c.json({ error: "Tournament not found" }, 404);
+  }
+
+  if (!gameSession.isActive) {
+    return c.json({ error: "Game session is not active" }, 400);
+  }
+
+  const { entries, payoutPercentages } = gameSession.tournament;
+  const positions = finishPositions(entries);
+  const prizes = payoutAmounts(prizePool(entries), payoutTable(payoutPercentages, entries.length));
+
+  // Places are paid as players finish in them - 1st only once everyone else is out
+  const due = entries
+    .map((entry) => ({ entry, place: positions.get(entry.id) }))
+    .filter((d): d is { entry: typeof entries[number]; place: number } =>
+      d.place !== undefined && d.place <= prizes.length && !d.entry.payoutTransactionId && prizes[d.place - 1]! > 0,
+    );
+
+  if (due.length === 0) {
+    return c.json({ error: "No prizes are due yet" }, 400);
+  }
+
+  // Get user initials
+  const initials = userInitials(user);
+
+  await db.$transaction(async (tx) => {
+    for (const { entry, place } of due) {
+      const cashout = await tx.playerTransaction.create({
+        data: {
+          playerName: entry.playerName,
+          playerId: entry.playerId,
+          type: "cashout",
+          amount: prizes[place - 1]!,
+          paymentMethod,
+          notes: `Tournament prize - place ${place}`,
+          gameSessionId: sessionId,
+          createdById: user.id,
+          createdByInitials: initials,
+        },
+      });
+      await tx.tournamentEntry.update({
+        where: { id: entry.id },
+        data: { payoutTransactionId: cashout.id },
+      });
+    }
+  });
+
+  console.log(`🏆 [Tournaments] Paid ${due.length} prizes for session: ${sessionId} by ${initials}`);
+
+  return c.json({
+    tournament: (await loadTournament(sessionId, gameSession.currency, new Date()))!,
+    paid: due.length,
+  } satisfies PayTournamentPrizesResponse);
+});
+
+export { tournamentsRouter };